@@ -88,6 +88,206 @@ output_empty() {
     echo '{}'
 }
 
+# ─────────────────────────────────────────────────────────────────────────────
+# Box type registry
+# ─────────────────────────────────────────────────────────────────────────────
+#
+# Box types, their emoji, aliases, initial scores and visibility come from the
+# installed box-types.default.json plus the team's box-types.json (see "Box
+# Type Registry" in docs/architecture.md; the OpenCode plugin reads the same
+# files in packages/core/src/registry.ts). Keep this section identical across
+# hooks.
+
+BOX_TYPES_DEFAULT_FILE="${RESPONSE_BOXES_BOX_TYPES_DEFAULT:-${HOME}/.response-boxes/box-types.default.json}"
+BOX_TYPES_FILE="${RESPONSE_BOXES_BOX_TYPES:-${HOME}/.response-boxes/box-types.json}"
+BOX_REGISTRY='{"types":[],"unknown_score":40}'
+
+# Custom entries override the type with the same name or alias field by field;
+# other entries add new types
+load_box_registry() {
+    local defaults='{}'
+    local custom='{}'
+
+    if [[ -f "$BOX_TYPES_DEFAULT_FILE" ]] && jq -e 'type == "object"' "$BOX_TYPES_DEFAULT_FILE" >/dev/null 2>&1; then
+        defaults="$(jq -c . "$BOX_TYPES_DEFAULT_FILE")"
+    fi
+    if [[ -f "$BOX_TYPES_FILE" ]] && jq -e 'type == "object"' "$BOX_TYPES_FILE" >/dev/null 2>&1; then
+        custom="$(jq -c . "$BOX_TYPES_FILE")"
+    fi
+
+    BOX_REGISTRY="$(jq -cn --argjson defaults "$defaults" --argjson custom "$custom" '
+        def key: ascii_downcase | gsub("[^a-z0-9]"; "");
+        def field_key: gsub("^\\s+|\\s+$"; "") | ascii_downcase | gsub("\\s+"; "_");
+        def string_list: if type == "array" then map(select(type == "string")) else null end;
+        def complete($unknown): {
+            name,
+            emoji,
+            aliases: (.aliases // []),
+            placement: (if .placement == "end" then "end" else "inline" end),
+            default_score: (.default_score // $unknown),
+            required_fields: ((.required_fields // []) | map(field_key)),
+            optional_fields: ((.optional_fields // []) | map(field_key)),
+            hidden: (.hidden // false)
+        };
+        def apply($raw):
+            ((($raw.unknown_score // null) | numbers) // .unknown_score) as $unknown
+            | .unknown_score = $unknown
+            | reduce (($raw.types // [])[] | objects | select(.name | type == "string")) as $entry (.;
+                ($entry.name | key) as $name
+                | ([.types[] | [.name] + .aliases | map(key) | index($name) != null] | index(true)) as $index
+                | (if $index == null then {} else .types[$index] end) as $base
+                | ($entry
+                    | .aliases |= string_list
+                    | .required_fields |= string_list
+                    | .optional_fields |= string_list
+                    | .default_score |= numbers
+                    | .hidden |= booleans
+                    | if (.emoji | type) == "string" and .emoji != "" then . else del(.emoji) end
+                    | with_entries(select(.value != null))) as $overrides
+                | ($base + $overrides | .name = ($base.name // ($entry.name | gsub("^\\s+|\\s+$"; "")))) as $merged
+                | if ($merged.emoji // "") == "" then .
+                  elif $index == null then .types += [$merged | complete($unknown)]
+                  else .types[$index] = ($merged | complete($unknown))
+                  end);
+        {types: [], unknown_score: 40} | apply($defaults) | apply($custom)
+    ' 2>/dev/null)" || BOX_REGISTRY='{"types":[],"unknown_score":40}'
+}
+
+# Prints "<type>\t<initial score>" for a box header, matching the type name or
+# alias first and then the emoji; prints nothing for unregistered types. With
+# no registry installed every header is accepted under its own name.
+resolve_box_type() {
+    local emoji="$1"
+    local name="$2"
+
+    jq -r --arg emoji "$emoji" --arg name "$name" '
+        def key: ascii_downcase | gsub("[^a-z0-9]"; "");
+        def bare: gsub("\ufe0f"; "");
+        if (.types | length) == 0 then
+            if $name == "" then empty else "\($name)\t\(.unknown_score)" end
+        else
+            ([.types[] | select([.name] + .aliases | map(key) | index($name | key) != null)]
+             + [.types[] | select($emoji != "" and (.emoji | bare) == ($emoji | bare))])
+            | first // empty
+            | "\(.name)\t\(.default_score)"
+        end
+    ' <<< "$BOX_REGISTRY"
+}
+
+# JSON array of type names and aliases that are recorded but never injected;
+# the retired Sycophancy box stays hidden when no registry is installed
+hidden_box_types() {
+    jq -c '
+        if (.types | length) == 0 then ["Sycophancy"]
+        else [.types[] | select(.hidden) | .name, .aliases[]]
+        end
+    ' <<< "$BOX_REGISTRY"
+}
+
+# jq definition mirroring validateBox in packages/core/src/validation.ts: the
+# required fields of the type named $type that have no value in $fields, and
+# the share of required fields present
+BOX_VALIDATION_JQ='
+    def box_type_key: ascii_downcase | gsub("[^a-z0-9]"; "");
+    def field_present: (if type == "array" then map(tostring) | join(", ") else tostring end) | test("\\S");
+    def box_validation($registry; $type; $fields):
+        ([$registry.types[] | select([.name] + .aliases | map(box_type_key) | index($type | box_type_key) != null)] | first // {} | .required_fields // []) as $required
+        | ($required | map(select(($fields[.] // null) as $value | $value == null or ($value | field_present | not)))) as $missing
+        | {
+            completeness: (if ($required | length) == 0 then 1
+                           else ((($required | length) - ($missing | length)) / ($required | length) * 100 | round) / 100
+                           end),
+            missing_fields: $missing
+        };
+'
+
+# Records completeness (and missing_fields) on a BoxCreated event and prints
+# it, followed by a BoxMalformed diagnostic when required fields are missing
+validated_box_events() {
+    local created="$1"
+
+    jq -c --argjson registry "$BOX_REGISTRY" "$BOX_VALIDATION_JQ"'
+        box_validation($registry; .box_type; .fields) as $validation
+        | (. + {completeness: $validation.completeness}
+           + (if ($validation.missing_fields | length) > 0 then {missing_fields: $validation.missing_fields} else {} end))
+        | ., (select(has("missing_fields")) | {
+            event: "BoxMalformed",
+            id: (.id + "_malformed"),
+            ts,
+            box_id: .id,
+            box_type,
+            missing_fields,
+            completeness,
+            context,
+            schema_version
+        })
+    ' <<< "$created"
+}
+
+# ─────────────────────────────────────────────────────────────────────────────
+# Repository policy
+# ─────────────────────────────────────────────────────────────────────────────
+#
+# A .response-boxes.json at the root of the worktree decides whether boxes are
+# captured there, which types, whether field values and repository context are
+# kept, and whether context is injected (see "Repository Policy" in
+# docs/architecture.md; the OpenCode plugin reads the same file in
+# packages/core/src/repo-policy.ts). Keep this section identical across hooks.
+
+REPO_POLICY_DEFAULTS='{"capture":true,"scope":"repo","box_types":null,"keep_fields":true,"inject":true}'
+REPO_POLICY="$REPO_POLICY_DEFAULTS"
+
+# Reads the policy of the worktree containing the directory (the directory
+# itself outside git). A file that is not one JSON object disables capture.
+load_repo_policy() {
+    local dir="$1"
+    local root file
+
+    if [[ -z "$dir" ]]; then
+        return 0
+    fi
+    root="$(git -C "$dir" rev-parse --show-toplevel 2>/dev/null)" || root="$dir"
+    file="${root}/.response-boxes.json"
+    if [[ ! -e "$file" ]]; then
+        return 0
+    fi
+
+    REPO_POLICY="$(jq -c --slurpfile raw "$file" '
+        def flag($value; $default): if ($value | type) == "boolean" then $value else $default end;
+        (if ($raw | length) == 1 then $raw[0] else null end) as $policy
+        | if ($policy | type) != "object" then .capture = false
+          else {
+              capture: flag($policy.capture; .capture),
+              scope: (if $policy.scope == "global" or $policy.scope == "repo" then $policy.scope else .scope end),
+              box_types: (if ($policy.box_types | type) == "array" then $policy.box_types | map(strings) else .box_types end),
+              keep_fields: flag($policy.keep_fields; .keep_fields),
+              inject: flag($policy.inject; .inject)
+          }
+          end
+    ' <<< "$REPO_POLICY_DEFAULTS" 2>/dev/null)" || REPO_POLICY="$(jq -c '.capture = false' <<< "$REPO_POLICY_DEFAULTS")"
+}
+
+# Succeeds when a boolean policy setting (capture, keep_fields, inject) is on
+repo_policy_enabled() {
+    jq -e --arg key "$1" '.[$key] == true' <<< "$REPO_POLICY" >/dev/null
+}
+
+# Prints the BoxCreated event as the policy records it, or nothing for a type
+# it does not capture: without field values (or validation results) when
+# keep_fields is off, and without repository context for the global scope
+repo_policy_box() {
+    jq -c --argjson policy "$REPO_POLICY" --argjson registry "$BOX_REGISTRY" '
+        def key: ascii_downcase | gsub("[^a-z0-9]"; "");
+        def canonical: key as $name
+            | ([$registry.types[] | select([.name] + .aliases | map(key) | index($name) != null) | .name | key] | first) // $name;
+        select($policy.capture)
+        | select($policy.box_types == null
+            or ((.box_type | canonical) as $type | $policy.box_types | map(canonical) | index($type) != null))
+        | if $policy.scope == "global" then .context |= del(.directory, .worktree, .git_remote, .git_branch, .files_touched, .commands) else . end
+        | if $policy.keep_fields then . else .fields = {} | del(.completeness, .missing_fields) end
+    '
+}
+
 # ─────────────────────────────────────────────────────────────────────────────
 # Projection Functions
 # ─────────────────────────────────────────────────────────────────────────────
@@ -99,6 +299,18 @@ project_learnings() {
     local decay="$3"
 
     jq -s --arg repo "$current_repo" --argjson now "$now_epoch" --argjson decay "$decay" '
+        # Compare remotes as host/owner/repo regardless of ssh vs https clone URLs
+        def normalize_remote:
+            (. // "" | tostring)
+            | gsub("^\\s+|\\s+$"; "")
+            | sub("^[A-Za-z][A-Za-z0-9+.-]*://"; "")
+            | sub("^[^@/]*@"; "")
+            | sub("^(?<h>[^/:]+):[0-9]+/"; "\(.h)/")
+            | sub("^(?<h>[^/:]+):"; "\(.h)/")
+            | sub("\\.git/?$"; "")
+            | sub("/+$"; "")
+            | if test("/") then (capture("^(?<h>[^/]*)(?<r>/.*)$") | (.h | ascii_downcase) + .r) else ascii_downcase end;
+
         def normalize_box:
             if ((.event // "") == "") then
                 {
@@ -125,13 +337,25 @@ project_learnings() {
                 }
             end;
 
+        # Compaction folds analysed boxes into a Snapshot whose nested events
+        # stand in for the lines it rotated into archives
+        def expand_snapshots:
+            [.[] | if .event == "Snapshot" then (.events // [])[] else . end];
+
+        # First BoxCreated per id wins, as in the OpenCode projection
+        def first_by_id:
+            to_entries | group_by(.value.id) | map(.[0]) | sort_by(.key) | map(.value);
+
+        expand_snapshots |
+        ($repo | normalize_remote) as $repo |
+
         # Collect all events by type
         (map(select(.event == "LearningCreated"))) as $created |
         (map(select(.event == "LearningUpdated"))) as $updates |
         (map(select(.event == "EvidenceLinked"))) as $evidence |
         (map(select((.event // "BoxCreated") == "BoxCreated")) |
-         map(normalize_box) |
-         map({key: .id, value: (.context.git_remote // "")}) |
+         map(normalize_box) | first_by_id |
+         map({key: .id, value: (.context.git_remote // "" | normalize_remote)}) |
          from_entries) as $box_repo_by_id |
 
         # Process each LearningCreated
@@ -180,14 +404,28 @@ project_learnings() {
 }
 
 # Project boxes from events, applying enrichments
-# Note: Sycophancy boxes are filtered out as anti-sycophancy is now an internal protocol
+# Note: hidden box types (e.g. Sycophancy, now an internal protocol) and boxes
+# missing a required field of their type are skipped
 project_boxes() {
     local current_repo="$1"
     local now_epoch="$2"
     local decay="$3"
     local min_score="${4:-60}"
 
-    jq -s --arg repo "$current_repo" --argjson now "$now_epoch" --argjson decay "$decay" --argjson min "$min_score" '
+    jq -s --arg repo "$current_repo" --argjson now "$now_epoch" --argjson decay "$decay" --argjson min "$min_score" \
+        --argjson hidden "$(hidden_box_types)" --argjson registry "$BOX_REGISTRY" "$BOX_VALIDATION_JQ"'
+        # Compare remotes as host/owner/repo regardless of ssh vs https clone URLs
+        def normalize_remote:
+            (. // "" | tostring)
+            | gsub("^\\s+|\\s+$"; "")
+            | sub("^[A-Za-z][A-Za-z0-9+.-]*://"; "")
+            | sub("^[^@/]*@"; "")
+            | sub("^(?<h>[^/:]+):[0-9]+/"; "\(.h)/")
+            | sub("^(?<h>[^/:]+):"; "\(.h)/")
+            | sub("\\.git/?$"; "")
+            | sub("/+$"; "")
+            | if test("/") then (capture("^(?<h>[^/]*)(?<r>/.*)$") | (.h | ascii_downcase) + .r) else ascii_downcase end;
+
         def normalize_box:
             if ((.event // "") == "") then
                 {
@@ -214,8 +452,27 @@ project_boxes() {
                 }
             end;
 
-        # Collect events (filter out Sycophancy boxes - anti-sycophancy is now internal)
-        (map(select((.event // "BoxCreated") == "BoxCreated")) | map(normalize_box) | map(select(.box_type != "Sycophancy"))) as $boxes |
+        # Compaction folds analysed boxes into a Snapshot whose nested events
+        # stand in for the lines it rotated into archives
+        def expand_snapshots:
+            [.[] | if .event == "Snapshot" then (.events // [])[] else . end];
+
+        # First BoxCreated per id wins, as in the OpenCode projection
+        def first_by_id:
+            to_entries | group_by(.value.id) | map(.[0]) | sort_by(.key) | map(.value);
+
+        expand_snapshots |
+        ($repo | normalize_remote) as $repo |
+
+        # Type names compare without case, spaces or punctuation
+        def type_key: ascii_downcase | gsub("[^a-z0-9]"; "");
+
+        # Collect events (hidden box types and boxes missing required fields
+        # are recorded but never injected)
+        ($hidden | map(type_key)) as $hidden |
+        (map(select((.event // "BoxCreated") == "BoxCreated")) | map(normalize_box) | first_by_id
+         | map(select((.box_type | type_key) as $t | $hidden | index($t) | not))
+         | map(select((box_validation($registry; .box_type; .fields) | .missing_fields | length) == 0))) as $boxes |
         (map(select(.event == "BoxEnriched"))) as $enrichments |
 
         # Process each box
@@ -235,7 +492,7 @@ project_boxes() {
             ($score * $recency_factor) as $effective_score |
 
             # Repo relevance boost
-            ((if $enriched.context.git_remote == $repo and $repo != "" then 1.5 else 1.0 end)) as $repo_boost |
+            ((if ($enriched.context.git_remote // "" | normalize_remote) == $repo and $repo != "" then 1.5 else 1.0 end)) as $repo_boost |
 
             $enriched + {
                 effective_score: $effective_score,
@@ -269,7 +526,10 @@ format_boxes() {
     local count="$2"
 
     echo "$boxes" | jq -r --argjson n "$count" '
-        .[0:$n] | map("• " + (.box_type // "Unknown") + ": " + ((.fields.summary // .fields.title // .fields.what // .fields.issue // .fields.idea // .fields.request // "(no summary)") | tostring) +
+        # List fields join with commas; continuation line breaks collapse
+        def field_text: (if type == "array" then map(tostring) | join(", ") else tostring end) | gsub("\\s+"; " ") | sub("^ "; "") | sub(" $"; "");
+
+        .[0:$n] | map("• " + (.box_type // "Unknown") + ": " + ((.fields.summary // .fields.title // .fields.what // .fields.issue // .fields.idea // .fields.request // "(no summary)") | field_text) +
             (if (.context.git_remote // "") != "" then " [" + (.context.git_remote | tostring) + "]" else "" end) +
             (if (.age_weeks // 0) > 0 then " (" + ((.age_weeks | tonumber) | floor | tostring) + " weeks ago)" else "" end)) | .[]
     '
@@ -311,6 +571,8 @@ main() {
         exit 0
     fi
 
+    load_box_registry
+
     # Ensure analytics directory exists (for potential legacy migration)
     mkdir -p "$ANALYTICS_DIR"
 
@@ -330,6 +592,13 @@ main() {
     local cwd
     cwd="$(echo "$input" | jq -r '.cwd // ""' 2>/dev/null || echo "")"
 
+    load_repo_policy "$cwd"
+    if ! repo_policy_enabled inject; then
+        log "Injection disabled by ${cwd}'s .response-boxes.json"
+        output_empty
+        exit 0
+    fi
+
     local git_remote=""
     if [[ -n "$cwd" ]] && command -v git &>/dev/null; then
         if git -C "$cwd" rev-parse --is-inside-work-tree &>/dev/null; then
@@ -22,9 +22,11 @@
 #
 # EVENT STORE:
 #   ~/.response-boxes/analytics/boxes.jsonl - Append-only event log
+#   ~/.response-boxes/analytics/boxes.jsonl.lock - Advisory lock held while appending
 #
 # EVENTS EMITTED:
 #   BoxCreated - One per box found in the transcript
+#   BoxMalformed - One per box missing required fields of its type
 #
 
 set -euo pipefail
@@ -43,23 +45,6 @@ BOXES_FILE="${RESPONSE_BOXES_FILE:-${DEFAULT_BOXES_FILE}}"
 
 SCHEMA_VERSION=1
 
-# Initial scores by box type (used for base scoring)
-# AI analysis can later adjust these via BoxEnriched events
-declare -A INITIAL_SCORES=(
-    ["Reflection"]=90
-    ["Warning"]=90
-    ["Pushback"]=85
-    ["Assumption"]=80
-    ["Choice"]=70
-    ["Completion"]=70
-    ["Concern"]=65
-    ["Confidence"]=60
-    ["Decision"]=55
-    ["Suggestion"]=45
-    ["Quality"]=40
-    ["FollowUps"]=35
-)
-
 # ─────────────────────────────────────────────────────────────────────────────
 # Helpers
 # ─────────────────────────────────────────────────────────────────────────────
@@ -81,28 +66,408 @@ legacy_store_is_valid_jsonl() {
     jq -s 'length' "$file" &>/dev/null
 }
 
-emoji_to_type() {
+# ─────────────────────────────────────────────────────────────────────────────
+# Box fields
+# ─────────────────────────────────────────────────────────────────────────────
+#
+# Same rules as parseFields in packages/core/src/parser.ts: a field starts at
+# "**Name:** value" or "**Name**: value" and takes the following lines until
+# the next field or the closing rule. A value that starts on the next line
+# with a bullet or numbered item becomes a list. Keep this section identical
+# across hooks.
+
+# Prints the fields of a box body as a JSON object
+parse_box_fields() {
+    local content="$1"
+
+    jq -cn --arg content "$content" '
+        def trim: sub("^\\s+"; "") | sub("\\s+$"; "");
+        def list_item: "^[ \t]*([-*+]|[0-9]+[.)])[ \t]+";
+        def field_start:
+            (capture("^\\*\\*(?<name>[^*]+)\\*\\*(?<rest>.*)$") // null)
+            | if . == null then null
+              elif (.name | trim | endswith(":")) then {name: (.name | trim | .[:-1] | trim), inline: (.rest | trim)}
+              elif (.rest | trim | startswith(":")) then {name: (.name | trim), inline: (.rest | trim | .[1:] | trim)}
+              else null
+              end
+            | if . != null and .name != "" then . else null end;
+        def value:
+            .inline as $inline
+            | (.lines | map(select(test("\\S")))) as $lines
+            | if $inline == "" and ($lines | length) > 0 and ($lines[0] | test(list_item)) then
+                  reduce $lines[] as $line ([];
+                      if ($line | test(list_item)) then . + [$line | sub(list_item; "") | trim]
+                      else .[length - 1] += " " + ($line | trim)
+                      end)
+                  | map(select(. != ""))
+                  | if length > 0 then . else null end
+              else
+                  [$inline] + ($lines | map(trim)) | map(select(. != "")) | join("\n")
+                  | if . != "" then . else null end
+              end;
+        def finish:
+            if .current != null and (.current.key as $key | .fields | has($key) | not) then
+                (.current | value) as $value
+                | if $value != null then .fields[.current.key] = $value else . end
+            else . end
+            | .current = null;
+
+        $content | split("\n") | map(sub("\r$"; ""))
+        | reduce .[] as $line ({fields: {}, current: null, closed: false};
+            if .closed then .
+            elif ($line | test("^[ \t]*(─|-){10,}[ \t]*$")) then finish | .closed = true
+            else
+                ($line | field_start) as $start
+                | if $start != null then
+                      finish
+                      | .current = {key: ($start.name | ascii_downcase | gsub("\\s+"; "_")), inline: $start.inline, lines: []}
+                  elif .current != null then .current.lines += [$line]
+                  else .
+                  end
+            end)
+        | finish
+        | .fields
+    '
+}
+
+# ─────────────────────────────────────────────────────────────────────────────
+# Box type registry
+# ─────────────────────────────────────────────────────────────────────────────
+#
+# Box types, their emoji, aliases, initial scores and visibility come from the
+# installed box-types.default.json plus the team's box-types.json (see "Box
+# Type Registry" in docs/architecture.md; the OpenCode plugin reads the same
+# files in packages/core/src/registry.ts). Keep this section identical across
+# hooks.
+
+BOX_TYPES_DEFAULT_FILE="${RESPONSE_BOXES_BOX_TYPES_DEFAULT:-${HOME}/.response-boxes/box-types.default.json}"
+BOX_TYPES_FILE="${RESPONSE_BOXES_BOX_TYPES:-${HOME}/.response-boxes/box-types.json}"
+BOX_REGISTRY='{"types":[],"unknown_score":40}'
+
+# Custom entries override the type with the same name or alias field by field;
+# other entries add new types
+load_box_registry() {
+    local defaults='{}'
+    local custom='{}'
+
+    if [[ -f "$BOX_TYPES_DEFAULT_FILE" ]] && jq -e 'type == "object"' "$BOX_TYPES_DEFAULT_FILE" >/dev/null 2>&1; then
+        defaults="$(jq -c . "$BOX_TYPES_DEFAULT_FILE")"
+    fi
+    if [[ -f "$BOX_TYPES_FILE" ]] && jq -e 'type == "object"' "$BOX_TYPES_FILE" >/dev/null 2>&1; then
+        custom="$(jq -c . "$BOX_TYPES_FILE")"
+    fi
+
+    BOX_REGISTRY="$(jq -cn --argjson defaults "$defaults" --argjson custom "$custom" '
+        def key: ascii_downcase | gsub("[^a-z0-9]"; "");
+        def field_key: gsub("^\\s+|\\s+$"; "") | ascii_downcase | gsub("\\s+"; "_");
+        def string_list: if type == "array" then map(select(type == "string")) else null end;
+        def complete($unknown): {
+            name,
+            emoji,
+            aliases: (.aliases // []),
+            placement: (if .placement == "end" then "end" else "inline" end),
+            default_score: (.default_score // $unknown),
+            required_fields: ((.required_fields // []) | map(field_key)),
+            optional_fields: ((.optional_fields // []) | map(field_key)),
+            hidden: (.hidden // false)
+        };
+        def apply($raw):
+            ((($raw.unknown_score // null) | numbers) // .unknown_score) as $unknown
+            | .unknown_score = $unknown
+            | reduce (($raw.types // [])[] | objects | select(.name | type == "string")) as $entry (.;
+                ($entry.name | key) as $name
+                | ([.types[] | [.name] + .aliases | map(key) | index($name) != null] | index(true)) as $index
+                | (if $index == null then {} else .types[$index] end) as $base
+                | ($entry
+                    | .aliases |= string_list
+                    | .required_fields |= string_list
+                    | .optional_fields |= string_list
+                    | .default_score |= numbers
+                    | .hidden |= booleans
+                    | if (.emoji | type) == "string" and .emoji != "" then . else del(.emoji) end
+                    | with_entries(select(.value != null))) as $overrides
+                | ($base + $overrides | .name = ($base.name // ($entry.name | gsub("^\\s+|\\s+$"; "")))) as $merged
+                | if ($merged.emoji // "") == "" then .
+                  elif $index == null then .types += [$merged | complete($unknown)]
+                  else .types[$index] = ($merged | complete($unknown))
+                  end);
+        {types: [], unknown_score: 40} | apply($defaults) | apply($custom)
+    ' 2>/dev/null)" || BOX_REGISTRY='{"types":[],"unknown_score":40}'
+}
+
+# Prints "<type>\t<initial score>" for a box header, matching the type name or
+# alias first and then the emoji; prints nothing for unregistered types. With
+# no registry installed every header is accepted under its own name.
+resolve_box_type() {
     local emoji="$1"
-    case "$emoji" in
-        "⚖️") echo "Choice" ;;
-        "🎯") echo "Decision" ;;
-        "💭") echo "Assumption" ;;
-        "📊") echo "Confidence" ;;
-        "↩️") echo "Pushback" ;;
-        "⚠️") echo "Concern" ;;
-        "💡") echo "Suggestion" ;;
-        "🚨") echo "Warning" ;;
-        "✅") echo "Quality" ;;
-        "📋") echo "FollowUps" ;;
-        "🏁") echo "Completion" ;;
-        "🔄") echo "Reflection" ;;
-        *) echo "Unknown" ;;
-    esac
+    local name="$2"
+
+    jq -r --arg emoji "$emoji" --arg name "$name" '
+        def key: ascii_downcase | gsub("[^a-z0-9]"; "");
+        def bare: gsub("\ufe0f"; "");
+        if (.types | length) == 0 then
+            if $name == "" then empty else "\($name)\t\(.unknown_score)" end
+        else
+            ([.types[] | select([.name] + .aliases | map(key) | index($name | key) != null)]
+             + [.types[] | select($emoji != "" and (.emoji | bare) == ($emoji | bare))])
+            | first // empty
+            | "\(.name)\t\(.default_score)"
+        end
+    ' <<< "$BOX_REGISTRY"
+}
+
+# JSON array of type names and aliases that are recorded but never injected;
+# the retired Sycophancy box stays hidden when no registry is installed
+hidden_box_types() {
+    jq -c '
+        if (.types | length) == 0 then ["Sycophancy"]
+        else [.types[] | select(.hidden) | .name, .aliases[]]
+        end
+    ' <<< "$BOX_REGISTRY"
+}
+
+# jq definition mirroring validateBox in packages/core/src/validation.ts: the
+# required fields of the type named $type that have no value in $fields, and
+# the share of required fields present
+BOX_VALIDATION_JQ='
+    def box_type_key: ascii_downcase | gsub("[^a-z0-9]"; "");
+    def field_present: (if type == "array" then map(tostring) | join(", ") else tostring end) | test("\\S");
+    def box_validation($registry; $type; $fields):
+        ([$registry.types[] | select([.name] + .aliases | map(box_type_key) | index($type | box_type_key) != null)] | first // {} | .required_fields // []) as $required
+        | ($required | map(select(($fields[.] // null) as $value | $value == null or ($value | field_present | not)))) as $missing
+        | {
+            completeness: (if ($required | length) == 0 then 1
+                           else ((($required | length) - ($missing | length)) / ($required | length) * 100 | round) / 100
+                           end),
+            missing_fields: $missing
+        };
+'
+
+# Records completeness (and missing_fields) on a BoxCreated event and prints
+# it, followed by a BoxMalformed diagnostic when required fields are missing
+validated_box_events() {
+    local created="$1"
+
+    jq -c --argjson registry "$BOX_REGISTRY" "$BOX_VALIDATION_JQ"'
+        box_validation($registry; .box_type; .fields) as $validation
+        | (. + {completeness: $validation.completeness}
+           + (if ($validation.missing_fields | length) > 0 then {missing_fields: $validation.missing_fields} else {} end))
+        | ., (select(has("missing_fields")) | {
+            event: "BoxMalformed",
+            id: (.id + "_malformed"),
+            ts,
+            box_id: .id,
+            box_type,
+            missing_fields,
+            completeness,
+            context,
+            schema_version
+        })
+    ' <<< "$created"
+}
+
+# ─────────────────────────────────────────────────────────────────────────────
+# Repository policy
+# ─────────────────────────────────────────────────────────────────────────────
+#
+# A .response-boxes.json at the root of the worktree decides whether boxes are
+# captured there, which types, whether field values and repository context are
+# kept, and whether context is injected (see "Repository Policy" in
+# docs/architecture.md; the OpenCode plugin reads the same file in
+# packages/core/src/repo-policy.ts). Keep this section identical across hooks.
+
+REPO_POLICY_DEFAULTS='{"capture":true,"scope":"repo","box_types":null,"keep_fields":true,"inject":true}'
+REPO_POLICY="$REPO_POLICY_DEFAULTS"
+
+# Reads the policy of the worktree containing the directory (the directory
+# itself outside git). A file that is not one JSON object disables capture.
+load_repo_policy() {
+    local dir="$1"
+    local root file
+
+    if [[ -z "$dir" ]]; then
+        return 0
+    fi
+    root="$(git -C "$dir" rev-parse --show-toplevel 2>/dev/null)" || root="$dir"
+    file="${root}/.response-boxes.json"
+    if [[ ! -e "$file" ]]; then
+        return 0
+    fi
+
+    REPO_POLICY="$(jq -c --slurpfile raw "$file" '
+        def flag($value; $default): if ($value | type) == "boolean" then $value else $default end;
+        (if ($raw | length) == 1 then $raw[0] else null end) as $policy
+        | if ($policy | type) != "object" then .capture = false
+          else {
+              capture: flag($policy.capture; .capture),
+              scope: (if $policy.scope == "global" or $policy.scope == "repo" then $policy.scope else .scope end),
+              box_types: (if ($policy.box_types | type) == "array" then $policy.box_types | map(strings) else .box_types end),
+              keep_fields: flag($policy.keep_fields; .keep_fields),
+              inject: flag($policy.inject; .inject)
+          }
+          end
+    ' <<< "$REPO_POLICY_DEFAULTS" 2>/dev/null)" || REPO_POLICY="$(jq -c '.capture = false' <<< "$REPO_POLICY_DEFAULTS")"
+}
+
+# Succeeds when a boolean policy setting (capture, keep_fields, inject) is on
+repo_policy_enabled() {
+    jq -e --arg key "$1" '.[$key] == true' <<< "$REPO_POLICY" >/dev/null
+}
+
+# Prints the BoxCreated event as the policy records it, or nothing for a type
+# it does not capture: without field values (or validation results) when
+# keep_fields is off, and without repository context for the global scope
+repo_policy_box() {
+    jq -c --argjson policy "$REPO_POLICY" --argjson registry "$BOX_REGISTRY" '
+        def key: ascii_downcase | gsub("[^a-z0-9]"; "");
+        def canonical: key as $name
+            | ([$registry.types[] | select([.name] + .aliases | map(key) | index($name) != null) | .name | key] | first) // $name;
+        select($policy.capture)
+        | select($policy.box_types == null
+            or ((.box_type | canonical) as $type | $policy.box_types | map(canonical) | index($type) != null))
+        | if $policy.scope == "global" then .context |= del(.directory, .worktree, .git_remote, .git_branch, .files_touched, .commands) else . end
+        | if $policy.keep_fields then . else .fields = {} | del(.completeness, .missing_fields) end
+    '
+}
+
+# ─────────────────────────────────────────────────────────────────────────────
+# Locked appends
+# ─────────────────────────────────────────────────────────────────────────────
+#
+# Every writer of the event store follows the same protocol (see "Concurrent
+# Writers" in docs/architecture.md; the OpenCode plugin implements it in
+# packages/core/src/store.ts). Keep this section identical across collectors.
+
+LOCK_STALE_SECONDS="${RESPONSE_BOXES_LOCK_STALE_SECONDS:-30}"
+LOCK_TIMEOUT_SECONDS="${RESPONSE_BOXES_LOCK_TIMEOUT_SECONDS:-10}"
+STORE_LOCK_OWNER=""
+
+store_size() {
+    if [[ -f "$1" ]]; then
+        wc -c < "$1" | tr -d ' '
+    else
+        echo 0
+    fi
+}
+
+# Creates the file with STORE_LOCK_OWNER as content; fails if it exists
+create_lock_file() {
+    ( set -C; echo "$STORE_LOCK_OWNER" > "$1" ) 2>/dev/null
+}
+
+# A lock is stale when its owner is a dead process on this host or it is
+# older than LOCK_STALE_SECONDS
+lock_is_stale() {
+    local lock="$1"
+    local pid="" host="" epoch="" _rest=""
+
+    [[ -f "$lock" ]] || return 1
+    read -r pid host epoch _rest 2>/dev/null < "$lock" || true
+
+    if [[ ! "$pid" =~ ^[0-9]+$ ]] || [[ ! "$epoch" =~ ^[0-9]+$ ]]; then
+        # Owner line not written yet (or lost): judge by the file's age
+        [[ -n "$(find "$lock" -mmin "+$(( (LOCK_STALE_SECONDS + 59) / 60 ))" 2>/dev/null)" ]]
+        return
+    fi
+
+    if [[ "$host" == "${HOSTNAME:-$(hostname)}" ]] && ! kill -0 "$pid" 2>/dev/null; then
+        return 0
+    fi
+
+    (( $(date +%s) - epoch > LOCK_STALE_SECONDS ))
+}
+
+# Completes an append whose writer died after recording its write-ahead file
+# (named <store>.wal.<store size before the append>)
+roll_forward_store() {
+    local wal offset written
+
+    for wal in "${BOXES_FILE}".wal.*; do
+        [[ -f "$wal" ]] || continue
+        offset="${wal##*.wal.}"
+        if [[ ! "$offset" =~ ^[0-9]+$ ]]; then
+            continue
+        fi
+
+        written=$(( $(store_size "$BOXES_FILE") - offset ))
+        if (( written < 0 )); then
+            written=0
+        fi
+        if (( written < $(store_size "$wal") )); then
+            tail -c "+$((written + 1))" "$wal" >> "$BOXES_FILE"
+        fi
+        rm -f "$wal"
+    done
 }
 
-get_initial_score() {
-    local type="$1"
-    echo "${INITIAL_SCORES[$type]:-40}"
+acquire_store_lock() {
+    local lock="${BOXES_FILE}.lock"
+    local takeover="${lock}.takeover"
+    local deadline=$(( $(date +%s) + LOCK_TIMEOUT_SECONDS ))
+
+    STORE_LOCK_OWNER="$$ ${HOSTNAME:-$(hostname)} $(date +%s)"
+
+    while true; do
+        if create_lock_file "$lock"; then
+            roll_forward_store
+            return 0
+        fi
+
+        # Only one process may take over a stale lock; it re-checks staleness
+        # while holding the takeover marker so a live writer is never evicted
+        if lock_is_stale "$lock"; then
+            if lock_is_stale "$takeover"; then
+                rm -f "$takeover"
+            fi
+            if create_lock_file "$takeover"; then
+                if lock_is_stale "$lock"; then
+                    echo "$STORE_LOCK_OWNER" > "${lock}.$$"
+                    mv -f "${lock}.$$" "$lock"
+                    rm -f "$takeover"
+                    roll_forward_store
+                    return 0
+                fi
+                rm -f "$takeover"
+            fi
+        fi
+
+        if (( $(date +%s) >= deadline )); then
+            return 1
+        fi
+        sleep 0.05
+    done
+}
+
+release_store_lock() {
+    local lock="${BOXES_FILE}.lock"
+    if [[ "$(cat "$lock" 2>/dev/null)" == "$STORE_LOCK_OWNER" ]]; then
+        rm -f "$lock"
+    fi
+}
+
+# Appends the JSONL on stdin to the event store. The batch is written to a
+# temp file first, then renamed to the write-ahead file and appended while
+# holding the lock. Returns 1 if the lock could not be taken in time.
+append_events() {
+    local tmp="${BOXES_FILE}.$$.${RANDOM}.tmp"
+    local wal
+
+    cat > "$tmp"
+    if [[ ! -s "$tmp" ]]; then
+        rm -f "$tmp"
+        return 0
+    fi
+
+    if ! acquire_store_lock; then
+        rm -f "$tmp"
+        return 1
+    fi
+
+    wal="${BOXES_FILE}.wal.$(store_size "$BOXES_FILE")"
+    mv -f "$tmp" "$wal"
+    cat "$wal" >> "$BOXES_FILE"
+    rm -f "$wal"
+    release_store_lock
 }
 
 # ─────────────────────────────────────────────────────────────────────────────
@@ -135,30 +500,69 @@ parse_boxes_from_content() {
 
     local turn_number=0
     local in_box=false
-    local current_emoji=""
+    local current_type=""
+    local current_score=""
     local current_box=""
+    local fence=""
+
+    # Fenced code and blockquotes hold examples or quotes, not boxes, and end
+    # the current box (see packages/core/src/parser.ts). Indented code never
+    # matches the header pattern, which must start at column 0.
+    local fence_pattern='^ {0,3}(`{3,}|~{3,})(.*)$'
+    local quote_pattern='^ {0,3}>'
+    # Boxes end at their closing rule; one that runs into the next header, a
+    # fence, a quote or the end of the message is recorded as incomplete
+    local closing_pattern='^[[:space:]]*(─|-){10,}[[:space:]]*$'
 
     while IFS= read -r line; do
-        # Check for box start
-        if [[ "$line" =~ ^(⚖️|🎯|💭|📊|↩️|⚠️|💡|🚨|✅|📋|🏁|🔄)[[:space:]].*─+ ]]; then
+        if [[ -n "$fence" ]]; then
+            if [[ "$line" =~ $fence_pattern ]] \
+                && [[ "${BASH_REMATCH[1]:0:1}" == "${fence:0:1}" ]] \
+                && (( ${#BASH_REMATCH[1]} >= ${#fence} )) \
+                && [[ -z "${BASH_REMATCH[2]//[[:space:]]/}" ]]; then
+                fence=""
+            fi
+            continue
+        fi
+
+        if [[ "$line" =~ $fence_pattern ]] && ! [[ "${BASH_REMATCH[1]}" == \`* && "${BASH_REMATCH[2]}" == *\`* ]]; then
+            fence="${BASH_REMATCH[1]}"
+        fi
+        if [[ -n "$fence" ]] || [[ "$line" =~ $quote_pattern ]]; then
+            if [[ "$in_box" == "true" ]] && [[ -n "$current_box" ]]; then
+                emit_box_created "$current_type" "$current_score" "$current_box" "$session_id" "$git_remote" "$git_branch" "$timestamp" "$turn_number" false
+            fi
+            in_box=false
+            current_box=""
+            continue
+        fi
+
+        # Box headers look like "⚖️ Choice ─────"; only registered types count
+        local header=""
+        if [[ "$line" =~ ^([^[:space:]]+)[[:space:]]+([A-Za-z][A-Za-z ]*[A-Za-z])[[:space:]]+(─|-){10,} ]]; then
+            header="$(resolve_box_type "${BASH_REMATCH[1]}" "${BASH_REMATCH[2]}")"
+        fi
+
+        if [[ -n "$header" ]]; then
             # Save previous box if exists
             if [[ "$in_box" == "true" ]] && [[ -n "$current_box" ]]; then
-                emit_box_created "$current_emoji" "$current_box" "$session_id" "$git_remote" "$git_branch" "$timestamp" "$turn_number"
+                emit_box_created "$current_type" "$current_score" "$current_box" "$session_id" "$git_remote" "$git_branch" "$timestamp" "$turn_number" false
             fi
 
-            current_emoji="${BASH_REMATCH[1]}"
+            IFS=$'\t' read -r current_type current_score <<< "$header"
             current_box=""
             in_box=true
             turn_number=$((turn_number + 1))
 
-        elif [[ "$line" =~ ^─+$ ]] && [[ "$in_box" == "true" ]]; then
-            # End of box
+        elif [[ "$line" =~ $closing_pattern ]] && [[ "$in_box" == "true" ]]; then
+            # End of box; text after the closing rule is outside it
             if [[ -n "$current_box" ]]; then
-                emit_box_created "$current_emoji" "$current_box" "$session_id" "$git_remote" "$git_branch" "$timestamp" "$turn_number"
+                emit_box_created "$current_type" "$current_score" "$current_box" "$session_id" "$git_remote" "$git_branch" "$timestamp" "$turn_number" true
             fi
             in_box=false
             current_box=""
-            current_emoji=""
+            current_type=""
+            current_score=""
 
         elif [[ "$in_box" == "true" ]]; then
             # Inside box - accumulate content
@@ -168,38 +572,24 @@ parse_boxes_from_content() {
 
     # Handle unclosed box
     if [[ "$in_box" == "true" ]] && [[ -n "$current_box" ]]; then
-        emit_box_created "$current_emoji" "$current_box" "$session_id" "$git_remote" "$git_branch" "$timestamp" "$turn_number"
+        emit_box_created "$current_type" "$current_score" "$current_box" "$session_id" "$git_remote" "$git_branch" "$timestamp" "$turn_number" false
     fi
 }
 
 emit_box_created() {
-    local emoji="$1"
-    local box_content="$2"
-    local session_id="$3"
-    local git_remote="$4"
-    local git_branch="$5"
-    local timestamp="$6"
-    local turn_number="$7"
-
-    local box_type
-    box_type=$(emoji_to_type "$emoji")
-
-    local initial_score
-    initial_score=$(get_initial_score "$box_type")
+    local box_type="$1"
+    local initial_score="$2"
+    local box_content="$3"
+    local session_id="$4"
+    local git_remote="$5"
+    local git_branch="$6"
+    local timestamp="$7"
+    local turn_number="$8"
+    local complete="$9"
 
     # Parse fields from box content
-    local fields="{}"
-    while IFS= read -r line; do
-        if [[ "$line" =~ ^\*\*([^:]+):\*\*[[:space:]]*(.+)$ ]]; then
-            local field_name="${BASH_REMATCH[1]}"
-            local field_value="${BASH_REMATCH[2]}"
-            # Normalize field name (lowercase, underscores)
-            field_name=$(echo "$field_name" | tr '[:upper:]' '[:lower:]' | tr ' ' '_')
-            # Escape quotes for JSON
-            field_value=$(echo "$field_value" | sed 's/"/\\"/g')
-            fields=$(echo "$fields" | jq --arg k "$field_name" --arg v "$field_value" '. + {($k): $v}')
-        fi
-    done <<< "$box_content"
+    local fields
+    fields="$(parse_box_fields "$box_content")" || fields="{}"
 
     # Build BoxCreated event
     # ID format: sess_{session_id}_{turn_number}
@@ -218,6 +608,7 @@ emit_box_created() {
         --argjson turn_number "$turn_number" \
         --argjson initial_score "$initial_score" \
         --argjson schema_version "$SCHEMA_VERSION" \
+        --argjson complete "$complete" \
         '{
             event: $event,
             id: $id,
@@ -232,13 +623,20 @@ emit_box_created() {
                 turn_number: $turn_number
             },
             initial_score: $initial_score
-        }')
+        } + (if $complete then {} else {incomplete: true} end)')
 
-    # Append to event store
-    echo "$event" >> "$BOXES_FILE"
+    # Types the repository policy skips leave nothing to append
+    event="$(repo_policy_box <<< "$event")"
+    if [[ -z "$event" ]]; then
+        return 0
+    fi
 
-    # Echo for caller to count
-    echo "$event"
+    # Echo for the caller to append as one batch
+    if repo_policy_enabled keep_fields; then
+        validated_box_events "$event"
+    else
+        echo "$event"
+    fi
 }
 
 # ─────────────────────────────────────────────────────────────────────────────
@@ -252,6 +650,8 @@ main() {
         exit 0
     fi
 
+    load_box_registry
+
     # Ensure analytics directory exists
     mkdir -p "$(dirname "$BOXES_FILE")"
 
@@ -276,6 +676,12 @@ main() {
         exit 0
     fi
 
+    load_repo_policy "$cwd"
+    if ! repo_policy_enabled capture; then
+        log "Capture disabled by ${cwd}'s .response-boxes.json; skipping"
+        exit 0
+    fi
+
     local git_remote=""
     local git_branch=""
     if [[ -n "$cwd" ]] && command -v git &>/dev/null; then
@@ -296,8 +702,17 @@ main() {
         exit 0
     fi
 
-    local count
-    count="$(parse_boxes_from_content "$content" "$session_id" "$git_remote" "$git_branch" "$timestamp" | wc -l | tr -d ' ')"
+    local events
+    events="$(parse_boxes_from_content "$content" "$session_id" "$git_remote" "$git_branch" "$timestamp")"
+
+    local count=0
+    if [[ -n "$events" ]]; then
+        count="$(echo "$events" | grep -c '"event":"BoxCreated"' || true)"
+        if ! echo "$events" | append_events; then
+            log "Event store is locked; dropped $count BoxCreated events for session $session_id"
+            exit 0
+        fi
+    fi
 
     log "Emitted $count BoxCreated events for session $session_id (reason: $reason)"
 }
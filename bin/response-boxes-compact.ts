@@ -0,0 +1,63 @@
+#!/usr/bin/env bun
+// Compacts the response-boxes event store: writes a Snapshot event and
+// rotates analysed lines into boxes-YYYY-MM.jsonl archives next to the store.
+// See "Compaction" in docs/architecture.md.
+
+import { compactStore, resolveStoreFile } from "../packages/core/src/index";
+
+const USAGE = `Usage: response-boxes-compact.ts [--before YYYY-MM] [--dry-run]
+
+Compact ~/.response-boxes/analytics/boxes.jsonl (or $RESPONSE_BOXES_FILE).
+
+Options:
+  --before YYYY-MM  Compact events before this month (default: current month);
+                    never past the last /analyze-boxes run
+  --dry-run         Report what would be compacted without changing files
+`;
+
+function fail(message: string): never {
+  process.stderr.write(`[response-boxes-compact] ${message}\n\n${USAGE}`);
+  process.exit(2);
+}
+
+let before: Date | undefined;
+let dryRun = false;
+const args = process.argv.slice(2);
+for (let index = 0; index < args.length; index += 1) {
+  const arg = args[index];
+  if (arg === "--help" || arg === "-h") {
+    process.stdout.write(USAGE);
+    process.exit(0);
+  } else if (arg === "--dry-run") {
+    dryRun = true;
+  } else if (arg === "--before") {
+    const match = /^([0-9]{4})-(0[1-9]|1[0-2])$/.exec(args[index + 1] ?? "");
+    if (!match) {
+      fail("--before expects YYYY-MM");
+    }
+    before = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, 1));
+    index += 1;
+  } else {
+    fail(`unknown option: ${arg}`);
+  }
+}
+
+const storeFile = resolveStoreFile();
+
+const result = await compactStore(storeFile, { before, dryRun });
+if (result.throughTs === null) {
+  process.stdout.write(
+    "Nothing to compact (compaction only covers boxes already seen by /analyze-boxes)\n",
+  );
+} else {
+  process.stdout.write(
+    [
+      `${dryRun ? "Would compact" : "Compacted"} ${storeFile} through ${result.throughTs}`,
+      `  snapshot events: ${result.snapshotEvents}`,
+      `  lines kept:      ${result.keptLines}`,
+      `  lines archived:  ${result.archivedLines}`,
+      ...result.archives.map((archive) => `    → ${archive}`),
+      "",
+    ].join("\n"),
+  );
+}
@@ -0,0 +1,149 @@
+#!/usr/bin/env bun
+// Manages encryption at rest for the response-boxes event store: reports its
+// state, migrates an existing store (and its archives) to or from encrypted
+// lines, and reads or appends through the key for tools such as jq.
+// See "Encryption at Rest" in docs/architecture.md.
+
+import { promises as fs } from "fs";
+
+import {
+  StoreDecryptionError,
+  appendEvents,
+  convertStore,
+  createStoreKey,
+  decryptLine,
+  readStoreKey,
+  resolveStoreFile,
+  resolveStoreKeyFile,
+  storeEncryptionStatus,
+} from "../packages/core/src/index";
+
+const USAGE = `Usage: response-boxes-encrypt.ts <command>
+
+Encrypt ~/.response-boxes/analytics/boxes.jsonl (or $RESPONSE_BOXES_FILE)
+with the key in ~/.response-boxes/store.key (or $RESPONSE_BOXES_KEY_FILE).
+
+Commands:
+  status   Show whether a key is configured and how many lines are encrypted
+           (the default)
+  encrypt  Create the key if needed and encrypt the store and its archives;
+           new events are encrypted from then on
+  decrypt  Decrypt the store and its archives and retire the key, so new
+           events are written in plaintext again
+  cat      Print the store with every line decrypted, e.g. for jq
+  append   Append JSON lines from stdin, encrypted when a key is configured
+`;
+
+const COMMANDS = new Set(["status", "encrypt", "decrypt", "cat", "append"]);
+
+function fail(message: string, code = 1): never {
+  process.stderr.write(`[response-boxes-encrypt] ${message}\n`);
+  process.exit(code);
+}
+
+const args = process.argv.slice(2);
+if (args.includes("--help") || args.includes("-h")) {
+  process.stdout.write(USAGE);
+  process.exit(0);
+}
+const [command = "status", ...rest] = args;
+if (!COMMANDS.has(command) || rest.length > 0) {
+  process.stderr.write(
+    `[response-boxes-encrypt] ${COMMANDS.has(command) ? `unexpected argument: ${rest[0]}` : `unknown command: ${command}`}\n\n${USAGE}`,
+  );
+  process.exit(2);
+}
+
+const storeFile = resolveStoreFile();
+const keyFile = resolveStoreKeyFile();
+const key = await readStoreKey(keyFile);
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+try {
+  if (command === "status") {
+    const status = await storeEncryptionStatus(storeFile);
+    process.stdout.write(
+      [
+        `key:       ${key ? `${keyFile} (${key.id})` : `none (${keyFile} does not exist)`}`,
+        `files:     ${status.files.length}`,
+        `encrypted: ${status.encryptedLines} line(s)`,
+        `plaintext: ${status.plaintextLines} line(s)`,
+        "",
+      ].join("\n"),
+    );
+  } else if (command === "encrypt") {
+    const storeKey = key ?? (await createStoreKey(keyFile));
+    if (!key) {
+      process.stdout.write(
+        `Created ${keyFile}; back it up, the store cannot be read without it\n`,
+      );
+    }
+    const result = await convertStore(storeFile, "encrypt", storeKey);
+    process.stdout.write(
+      `Encrypted ${result.convertedLines} line(s) in ${result.files.length} file(s)\n`,
+    );
+  } else if (command === "decrypt") {
+    if (!key) {
+      fail(`no key at ${keyFile}`);
+    }
+    const result = await convertStore(storeFile, "decrypt", key);
+    // Kept rather than deleted: copies of the store elsewhere still need it
+    const retired = `${keyFile}.retired-${new Date()
+      .toISOString()
+      .replace(/[^0-9]/g, "")
+      .slice(0, 14)}`;
+    await fs.rename(keyFile, retired);
+    process.stdout.write(
+      `Decrypted ${result.convertedLines} line(s) in ${result.files.length} file(s); key moved to ${retired}\n`,
+    );
+  } else if (command === "cat") {
+    let raw = "";
+    try {
+      raw = await fs.readFile(storeFile, { encoding: "utf8" });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException | null)?.code !== "ENOENT") {
+        throw error;
+      }
+    }
+    process.stdout.write(
+      raw
+        .split("\n")
+        .filter((line) => line.trim() !== "")
+        .map((line) => `${decryptLine(line, key)}\n`)
+        .join(""),
+    );
+  } else {
+    const events = (await readStdin())
+      .split("\n")
+      .map((line, index) => ({ line: line.trim(), number: index + 1 }))
+      .filter(({ line }) => line !== "")
+      .map(({ line, number }) => {
+        let parsed: unknown;
+        try {
+          parsed = JSON.parse(line);
+        } catch {
+          parsed = null;
+        }
+        if (typeof parsed !== "object" || parsed === null) {
+          fail(`line ${number} is not a JSON object; nothing was appended`);
+        }
+        return parsed;
+      });
+    await appendEvents(storeFile, events, undefined, key);
+    process.stdout.write(
+      `Appended ${events.length} event(s)${key ? " (encrypted)" : ""}\n`,
+    );
+  }
+} catch (error) {
+  if (error instanceof StoreDecryptionError) {
+    fail(error.message);
+  }
+  throw error;
+}
@@ -0,0 +1,288 @@
+#!/usr/bin/env bun
+// Reviews proposed learnings: lists the queue, shows a proposal against the
+// learnings already in the store, and accepts (optionally edited) or rejects
+// it. See "Proposal Review" in docs/architecture.md.
+
+import {
+  type LayeredProjection,
+  type Projection,
+  type Proposal,
+  type ProposalEdits,
+  SUPPORTED_SCHEMA_VERSION,
+  acceptProposal,
+  appendToLayer,
+  findProposal,
+  layeredSchemaStatus,
+  pendingProposals,
+  proposalDiff,
+  proposalLayer,
+  readLayeredProjection,
+  rejectProposal,
+  resolveWorktreeRoot,
+  storeLayers,
+} from "../packages/core/src/index";
+
+const USAGE = `Usage: response-boxes-review.ts <command> [options]
+
+Review learnings proposed by response-boxes-synthesize.ts or /analyze-boxes
+in ~/.response-boxes/analytics/boxes.jsonl (or $RESPONSE_BOXES_FILE) and the
+current repository's .response-boxes/boxes.jsonl. Decisions are appended to
+the store that holds the proposal.
+
+Commands:
+  list                List pending proposals (the default)
+  show <id>           Show a proposal and how it differs from the store
+  accept <id>         Add the proposed learning and its evidence
+  reject <id>         Reject it; the same insight is not proposed again
+
+Options:
+  --all               list: include accepted and rejected proposals
+  --insight TEXT      accept: replace the insight
+  --confidence N      accept: replace the confidence (0-1)
+  --scope SCOPE       accept: replace the scope (global or repo)
+  --tags A,B          accept: replace the tags
+  --reason TEXT       reject: why, kept with the rejection
+  --json              Print JSON instead of text
+`;
+
+const COMMANDS = new Set(["list", "show", "accept", "reject"]);
+
+function fail(message: string): never {
+  process.stderr.write(`[response-boxes-review] ${message}\n\n${USAGE}`);
+  process.exit(2);
+}
+
+interface Options {
+  command: string;
+  id: string;
+  all: boolean;
+  edits: ProposalEdits;
+  reason: string;
+  json: boolean;
+}
+
+function parseArgs(args: string[]): Options {
+  const options: Options = {
+    command: "list",
+    id: "",
+    all: false,
+    edits: {},
+    reason: "",
+    json: false,
+  };
+  const positional: string[] = [];
+  let edits: ProposalEdits = {};
+
+  for (let index = 0; index < args.length; index += 1) {
+    const arg = args[index];
+    const value = (): string => {
+      const next = args[index + 1];
+      if (next === undefined || next.startsWith("--")) {
+        fail(`${arg} expects a value`);
+      }
+      index += 1;
+      return next;
+    };
+
+    if (arg === "--help" || arg === "-h") {
+      process.stdout.write(USAGE);
+      process.exit(0);
+    } else if (arg === "--json") {
+      options.json = true;
+    } else if (arg === "--all") {
+      options.all = true;
+    } else if (arg === "--insight") {
+      const insight = value().trim();
+      if (insight === "") {
+        fail("--insight expects text");
+      }
+      edits = { ...edits, insight };
+    } else if (arg === "--confidence") {
+      const confidence = Number(value());
+      if (!Number.isFinite(confidence) || confidence < 0 || confidence > 1) {
+        fail("--confidence expects a number between 0 and 1");
+      }
+      edits = { ...edits, confidence };
+    } else if (arg === "--scope") {
+      const scope = value();
+      if (scope !== "global" && scope !== "repo") {
+        fail("--scope expects global or repo");
+      }
+      edits = { ...edits, scope };
+    } else if (arg === "--tags") {
+      const tags = value()
+        .split(",")
+        .map((tag) => tag.trim())
+        .filter((tag) => tag !== "");
+      edits = { ...edits, tags };
+    } else if (arg === "--reason") {
+      options.reason = value();
+    } else if (arg.startsWith("--")) {
+      fail(`unknown option: ${arg}`);
+    } else {
+      positional.push(arg);
+    }
+  }
+
+  const [command = "list", ...rest] = positional;
+  if (!COMMANDS.has(command)) {
+    fail(`unknown command: ${command}`);
+  }
+  if (command === "list") {
+    if (rest.length > 0) {
+      fail(`unexpected argument: ${rest[0]}`);
+    }
+  } else if (rest.length !== 1) {
+    fail(`${command} expects exactly one proposal id`);
+  } else {
+    options.id = rest[0];
+  }
+  if (command !== "accept" && Object.keys(edits).length > 0) {
+    fail("--insight, --confidence, --scope and --tags only apply to accept");
+  }
+  options.command = command;
+  options.edits = edits;
+  return options;
+}
+
+function print(options: Options, json: unknown, text: () => string): void {
+  process.stdout.write(
+    options.json ? `${JSON.stringify(json, null, 2)}\n` : text(),
+  );
+}
+
+function format(value: unknown): string {
+  return Array.isArray(value) ? value.join(", ") : String(value);
+}
+
+function proposalOrExit(projection: Projection, id: string): Proposal {
+  const proposal = findProposal(projection, id);
+  if (!proposal) {
+    process.stderr.write(`[response-boxes-review] no proposal with id ${id}\n`);
+    process.exit(1);
+  }
+  return proposal;
+}
+
+function list(projection: Projection, options: Options): void {
+  const proposals = options.all
+    ? projection.proposals
+    : pendingProposals(projection);
+  print(options, proposals, () =>
+    proposals.length === 0
+      ? "(no proposals)\n"
+      : proposals
+          .map(
+            (proposal) =>
+              `${proposal.id}  ${proposal.status}  [${proposal.confidence.toFixed(2)}] ${proposal.insight}  (${proposal.evidence.length} box(es), ${proposal.source || "unknown source"})${proposal.store ? ` [${proposal.store}]` : ""}\n`,
+          )
+          .join(""),
+  );
+}
+
+function show(projection: Projection, options: Options): void {
+  const proposal = proposalOrExit(projection, options.id);
+  const diff = proposalDiff(projection, proposal);
+  print(options, { proposal, ...diff }, () =>
+    [
+      `${proposal.id}  ${proposal.status}${proposal.decided_ts ? ` ${proposal.decided_ts}` : ""}`,
+      `  source:   ${proposal.source || "-"}`,
+      ...(proposal.store ? [`  store:    ${proposal.store}`] : []),
+      `  learning: ${proposal.learning_id}${diff.target ? " (exists)" : " (new)"}`,
+      ...(proposal.reason ? [`  reason:   ${proposal.reason}`] : []),
+      "",
+      "Changes",
+      ...(diff.changes.length === 0
+        ? ["  (none)"]
+        : diff.changes.flatMap((change) =>
+            change.from === null
+              ? [`+ ${change.field}: ${format(change.to)}`]
+              : [
+                  `- ${change.field}: ${format(change.from)}`,
+                  `+ ${change.field}: ${format(change.to)}`,
+                ],
+          )),
+      "",
+      "Evidence",
+      ...(proposal.evidence.length === 0
+        ? ["  (none)"]
+        : proposal.evidence.map(
+            (link) =>
+              `  [${link.relationship} ${link.strength.toFixed(2)}] ${link.box_id}`,
+          )),
+      "",
+      "Similar learnings",
+      ...(diff.similar.length === 0
+        ? ["  (none)"]
+        : diff.similar.map(
+            (learning) =>
+              `  ${learning.id}  [${learning.confidence.toFixed(2)}] ${learning.insight}`,
+          )),
+      "",
+    ].join("\n"),
+  );
+}
+
+async function decide(
+  layered: LayeredProjection,
+  options: Options,
+): Promise<void> {
+  const { projection } = layered;
+  const proposal = proposalOrExit(projection, options.id);
+  if (proposal.status !== "pending") {
+    process.stderr.write(
+      `[response-boxes-review] proposal ${proposal.id} is already ${proposal.status}\n`,
+    );
+    process.exit(1);
+  }
+
+  const now = new Date();
+  const events =
+    options.command === "accept"
+      ? acceptProposal(projection, proposal, options.edits, now)
+      : [rejectProposal(proposal, options.reason, now)];
+  await appendToLayer(proposalLayer(layered, proposal), events);
+  print(options, events, () =>
+    options.command === "accept"
+      ? `Accepted ${proposal.id} as ${proposal.learning_id}\n`
+      : `Rejected ${proposal.id}\n`,
+  );
+}
+
+const options = parseArgs(process.argv.slice(2));
+const layers = storeLayers(await resolveWorktreeRoot(process.cwd()));
+const layered = await readLayeredProjection(layers);
+if (layered === null) {
+  process.stderr.write(
+    `[response-boxes-review] no event store at ${layers.map((layer) => layer.storeFile).join(" or ")}\n`,
+  );
+  process.exit(1);
+}
+
+// Deciding against a partial projection could accept a proposal that a
+// newer event already settled
+const { unsupportedCount, newestSchemaVersion } = layeredSchemaStatus(layered);
+if (unsupportedCount > 0) {
+  process.stderr.write(
+    `[response-boxes-review] store has ${unsupportedCount} event(s) with schema_version ${newestSchemaVersion} (supported: ${SUPPORTED_SCHEMA_VERSION}); update agent-response-boxes\n`,
+  );
+  process.exit(1);
+}
+
+// Nor from one missing a store that could not be read
+for (const { layer, error } of layered.unreadable) {
+  process.stderr.write(
+    `[response-boxes-review] cannot read ${layer.storeFile}: ${error instanceof Error ? error.message : String(error)}\n`,
+  );
+}
+if (layered.unreadable.length > 0) {
+  process.exit(1);
+}
+
+if (options.command === "list") {
+  list(layered.projection, options);
+} else if (options.command === "show") {
+  show(layered.projection, options);
+} else {
+  await decide(layered, options);
+}
@@ -0,0 +1,117 @@
+#!/usr/bin/env bun
+// Proposes learnings from recurring boxes without an LLM: prints (or, with
+// --write, appends) the events synthesizeLearnings derives from the store,
+// with new learnings queued as LearningProposed for response-boxes-review.ts.
+// See "Offline Synthesis" in docs/architecture.md.
+
+import {
+  SUPPORTED_SCHEMA_VERSION,
+  appendToLayer,
+  layeredSchemaStatus,
+  readBoxTypeRegistry,
+  readLayeredProjection,
+  readRepoPolicy,
+  resolveWorktreeRoot,
+  resolveWriteTarget,
+  storeLayers,
+  synthesisSummary,
+  synthesizeLearnings,
+  toProposals,
+  writeLayer,
+} from "../packages/core/src/index";
+
+const USAGE = `Usage: response-boxes-synthesize.ts [--min-support N] [--write]
+
+Synthesise learnings from ~/.response-boxes/analytics/boxes.jsonl (or
+$RESPONSE_BOXES_FILE) and the current repository's .response-boxes/boxes.jsonl:
+the same Choice.selected across sessions, the same Assumption.what or
+Warning.risk within one repo. New learnings are queued for review (see
+response-boxes-review.ts); evidence for learnings already in the store is
+linked directly.
+
+Options:
+  --min-support N  Boxes a pattern needs, from distinct sessions for
+                   cross-session patterns (default: 2)
+  --write          Append the events to the store instead of printing them
+                   as JSON lines: the global store, or the repository's when
+                   write_target (or $RESPONSE_BOXES_WRITE_TARGET) is project
+`;
+
+function fail(message: string): never {
+  process.stderr.write(`[response-boxes-synthesize] ${message}\n\n${USAGE}`);
+  process.exit(2);
+}
+
+let minSupport: number | undefined;
+let write = false;
+const args = process.argv.slice(2);
+for (let index = 0; index < args.length; index += 1) {
+  const arg = args[index];
+  if (arg === "--help" || arg === "-h") {
+    process.stdout.write(USAGE);
+    process.exit(0);
+  } else if (arg === "--write") {
+    write = true;
+  } else if (arg === "--min-support") {
+    const value = Number(args[index + 1]);
+    if (!Number.isInteger(value) || value <= 0) {
+      fail("--min-support expects a positive integer");
+    }
+    minSupport = value;
+    index += 1;
+  } else {
+    fail(`unknown option: ${arg}`);
+  }
+}
+
+const root = await resolveWorktreeRoot(process.cwd());
+const layers = storeLayers(root);
+const layered = await readLayeredProjection(layers);
+if (layered === null) {
+  process.stderr.write(
+    `[response-boxes-synthesize] no event store at ${layers.map((layer) => layer.storeFile).join(" or ")}\n`,
+  );
+  process.exit(1);
+}
+
+// Synthesising from a partial projection would propose links that already
+// exist in events this version cannot read
+const { unsupportedCount, newestSchemaVersion } = layeredSchemaStatus(layered);
+if (unsupportedCount > 0) {
+  process.stderr.write(
+    `[response-boxes-synthesize] store has ${unsupportedCount} event(s) with schema_version ${newestSchemaVersion} (supported: ${SUPPORTED_SCHEMA_VERSION}); update agent-response-boxes\n`,
+  );
+  process.exit(1);
+}
+
+// Nor from one missing a store that could not be read
+for (const { layer, error } of layered.unreadable) {
+  process.stderr.write(
+    `[response-boxes-synthesize] cannot read ${layer.storeFile}: ${error instanceof Error ? error.message : String(error)}\n`,
+  );
+}
+if (layered.unreadable.length > 0) {
+  process.exit(1);
+}
+
+const events = synthesizeLearnings(layered.projection, {
+  minSupport,
+  registry: await readBoxTypeRegistry(),
+});
+const queued = toProposals(events, "synthesizer");
+const summary = synthesisSummary(queued);
+const counts = `${summary.learnings} proposed learning(s), ${summary.updates} confidence update(s), ${summary.links} evidence link(s)`;
+
+if (write) {
+  const target = writeLayer(
+    layers,
+    resolveWriteTarget(await readRepoPolicy(root)),
+  );
+  await appendToLayer(target, queued);
+  process.stdout.write(`Appended ${counts} to ${target.storeFile}\n`);
+} else {
+  process.stdout.write(
+    queued.map((event) => `${JSON.stringify(event)}\n`).join(""),
+  );
+  process.stderr.write(`Found ${counts}; rerun with --write to append\n`);
+}
@@ -0,0 +1,413 @@
+#!/usr/bin/env bun
+// Queries the response-boxes event store from the command line: boxes,
+// learnings, statistics and a preview of the context injected at session start.
+// See "Command-Line Queries" in docs/architecture.md.
+
+import {
+  type Projection,
+  type RelevanceQuery,
+  SUPPORTED_SCHEMA_VERSION,
+  boxAgent,
+  boxDetail,
+  boxRepo,
+  detectWorktreeLanguages,
+  fieldText,
+  filterBoxes,
+  layeredContextFor,
+  layeredSchemaStatus,
+  learningsForPath,
+  normalizeRemoteUrl,
+  rankLearnings,
+  readBoxTypeRegistry,
+  readLayeredProjection,
+  readRankingConfig,
+  readRepoPolicy,
+  resolveGitContext,
+  resolveWorktreeRoot,
+  storeLayers,
+  storeStats,
+} from "../packages/core/src/index";
+
+const USAGE = `Usage: response-boxes.ts <command> [options]
+
+Query ~/.response-boxes/analytics/boxes.jsonl (or $RESPONSE_BOXES_FILE),
+merged with the current repository's .response-boxes/boxes.jsonl.
+
+Commands:
+  list                List boxes, newest first
+  show <id>           Show one box with its enrichments and evidence
+  learnings           List learnings in injection order
+  stats               Summarise the store
+  context             Preview the context injected at session start (nothing
+                      when the current repository's policy turns injection off)
+
+Options:
+  --type TYPE         list: only boxes of this type
+  --repo REMOTE       list, learnings, context: only (or boost) this repository,
+                      in any remote URL form; context defaults to the remote
+                      of the current directory
+  --agent AGENT       list: only boxes captured by this agent
+  --path PATH         list, learnings: only boxes (or learnings with evidence
+                      from boxes) whose turn edited PATH or a file under it
+  --prompt TEXT       learnings, context: rank by relevance to this prompt and
+                      the current directory's languages
+  --since YYYY-MM-DD  list: boxes on or after this day (UTC)
+  --until YYYY-MM-DD  list: boxes on or before this day (UTC)
+  --limit N           list, learnings: at most N rows
+  --json              Print JSON instead of a table
+`;
+
+const COMMANDS = new Set(["list", "show", "learnings", "stats", "context"]);
+
+const SUMMARY_WIDTH = 60;
+
+function fail(message: string): never {
+  process.stderr.write(`[response-boxes] ${message}\n\n${USAGE}`);
+  process.exit(2);
+}
+
+function parseDay(option: string, value: string | undefined): Date {
+  const match = /^([0-9]{4})-([0-9]{2})-([0-9]{2})$/.exec(value ?? "");
+  const date = match
+    ? new Date(
+        Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])),
+      )
+    : null;
+  if (!date || date.toISOString().slice(0, 10) !== value) {
+    fail(`${option} expects YYYY-MM-DD`);
+  }
+  return date;
+}
+
+interface Options {
+  command: string;
+  id?: string;
+  boxType?: string;
+  repo?: string;
+  agent?: string;
+  path?: string;
+  prompt?: string;
+  since?: Date;
+  until?: Date;
+  limit?: number;
+  json: boolean;
+}
+
+function parseArgs(args: string[]): Options {
+  const options: Options = { command: "", json: false };
+  const positional: string[] = [];
+
+  for (let index = 0; index < args.length; index += 1) {
+    const arg = args[index];
+    const value = (): string => {
+      const next = args[index + 1];
+      if (next === undefined || next.startsWith("--")) {
+        fail(`${arg} expects a value`);
+      }
+      index += 1;
+      return next;
+    };
+
+    if (arg === "--help" || arg === "-h") {
+      process.stdout.write(USAGE);
+      process.exit(0);
+    } else if (arg === "--json") {
+      options.json = true;
+    } else if (arg === "--type") {
+      options.boxType = value();
+    } else if (arg === "--repo") {
+      options.repo = value();
+    } else if (arg === "--agent") {
+      options.agent = value();
+    } else if (arg === "--path") {
+      options.path = value();
+    } else if (arg === "--prompt") {
+      options.prompt = value();
+    } else if (arg === "--since") {
+      options.since = parseDay(arg, value());
+    } else if (arg === "--until") {
+      // Inclusive day, so the bound is the start of the next one
+      const day = parseDay(arg, value());
+      options.until = new Date(day.getTime() + 86400000);
+    } else if (arg === "--limit") {
+      const limit = Number(value());
+      if (!Number.isInteger(limit) || limit <= 0) {
+        fail("--limit expects a positive integer");
+      }
+      options.limit = limit;
+    } else if (arg.startsWith("--")) {
+      fail(`unknown option: ${arg}`);
+    } else {
+      positional.push(arg);
+    }
+  }
+
+  const [command, ...rest] = positional;
+  if (command === undefined) {
+    fail("missing command");
+  }
+  if (!COMMANDS.has(command)) {
+    fail(`unknown command: ${command}`);
+  }
+  if (command === "show") {
+    if (rest.length !== 1) {
+      fail("show expects exactly one box id");
+    }
+    options.id = rest[0];
+  } else if (rest.length > 0) {
+    fail(`unexpected argument: ${rest[0]}`);
+  }
+  options.command = command;
+  return options;
+}
+
+function truncate(value: string, width: number): string {
+  const line = value.replace(/\s+/g, " ").trim();
+  return line.length > width ? `${line.slice(0, width - 1)}…` : line;
+}
+
+function formatTable(header: string[], rows: string[][]): string {
+  if (rows.length === 0) {
+    return "(none)\n";
+  }
+  const widths = header.map((title, column) =>
+    Math.max(title.length, ...rows.map((row) => row[column].length)),
+  );
+  return [header, ...rows]
+    .map((row) =>
+      row
+        .map((cell, column) =>
+          column === row.length - 1 ? cell : cell.padEnd(widths[column]),
+        )
+        .join("  ")
+        .trimEnd(),
+    )
+    .map((line) => `${line}\n`)
+    .join("");
+}
+
+function formatCounts(title: string, counts: Record<string, number>): string {
+  const rows = Object.entries(counts)
+    .sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b))
+    .map(([key, count]) => [key === "" ? "-" : key, String(count)]);
+  return `\n${formatTable([title, "BOXES"], rows)}`;
+}
+
+function print(options: Options, json: unknown, table: () => string): void {
+  process.stdout.write(
+    options.json ? `${JSON.stringify(json, null, 2)}\n` : table(),
+  );
+}
+
+// The store an item came from, shown as injection shows it
+function withStore(text: string, item: { readonly store?: string }): string {
+  return item.store ? `${text} [${item.store}]` : text;
+}
+
+function list(projection: Projection, options: Options): void {
+  const boxes = filterBoxes(projection, options).slice(0, options.limit);
+  print(options, boxes, () =>
+    formatTable(
+      ["ID", "TIME", "TYPE", "AGENT", "REPO", "SCORE", "SUMMARY"],
+      boxes.map((box) => [
+        box.id,
+        box.ts,
+        box.box_type,
+        boxAgent(box),
+        boxRepo(box) || "-",
+        String(box.score),
+        withStore(
+          truncate(
+            Object.entries(box.fields)
+              .slice(0, 2)
+              .map(([key, value]) => `${key}: ${fieldText(value)}`)
+              .join(" | "),
+            SUMMARY_WIDTH,
+          ),
+          box,
+        ),
+      ]),
+    ),
+  );
+}
+
+function show(projection: Projection, options: Options): void {
+  const detail = boxDetail(projection, options.id ?? "");
+  if (!detail) {
+    process.stderr.write(`[response-boxes] no box with id ${options.id}\n`);
+    process.exit(1);
+  }
+
+  const { box } = detail;
+  const entries = (values: Record<string, unknown>): string[] => {
+    const keys = Object.keys(values);
+    return keys.length === 0
+      ? ["  (none)"]
+      : keys.map(
+          (key) =>
+            `  ${key}: ${typeof values[key] === "string" ? values[key] : JSON.stringify(values[key])}`,
+        );
+  };
+
+  print(options, detail, () =>
+    [
+      `${box.id}  ${box.box_type}  ${box.ts}${box.incomplete ? "  (incomplete: no closing rule)" : ""}`,
+      `  agent: ${detail.agent}`,
+      `  repo:  ${detail.repo || "-"}`,
+      `  score: ${box.score} (initial ${box.initial_score})`,
+      ...(box.missing_fields.length > 0
+        ? [`  missing: ${box.missing_fields.join(", ")}`]
+        : []),
+      "",
+      "Fields",
+      ...entries(box.fields),
+      "",
+      "Enrichments",
+      ...entries(box.enrichments),
+      "",
+      "Files touched",
+      ...(detail.files_touched.length === 0
+        ? ["  (none)"]
+        : detail.files_touched.map((file) => `  ${file}`)),
+      "",
+      "Commands",
+      ...(detail.commands.length === 0
+        ? ["  (none)"]
+        : detail.commands.map((command) => `  $ ${command}`)),
+      "",
+      "Evidence",
+      ...(detail.evidence.length === 0
+        ? ["  (none)"]
+        : detail.evidence.map(
+            ({ link, learning }) =>
+              `  [${link.relationship} ${link.strength.toFixed(2)}] ${link.learning_id}: ${learning?.insight ?? "(learning not in store)"}`,
+          )),
+      "",
+    ].join("\n"),
+  );
+}
+
+// The --prompt query, paired with the languages of the current directory
+async function relevanceQuery(
+  options: Options,
+): Promise<RelevanceQuery | undefined> {
+  return options.prompt === undefined
+    ? undefined
+    : {
+        prompt: options.prompt,
+        languages: await detectWorktreeLanguages(process.cwd()),
+      };
+}
+
+async function learnings(
+  projection: Projection,
+  options: Options,
+): Promise<void> {
+  const all = rankLearnings(projection, readRankingConfig(), {
+    repo: normalizeRemoteUrl(options.repo ?? ""),
+    now: new Date(),
+    query: await relevanceQuery(options),
+  });
+  const ranked = (
+    options.path === undefined
+      ? all
+      : learningsForPath(projection, all, options.path)
+  ).slice(0, options.limit);
+  print(options, ranked, () =>
+    formatTable(
+      ["ID", "LEVEL", "CONF", "EFFECTIVE", "SCOPE", "EVIDENCE", "INSIGHT"],
+      ranked.map((learning) => [
+        learning.id,
+        String(learning.level),
+        learning.confidence.toFixed(2),
+        learning.effective_confidence.toFixed(2),
+        learning.scope,
+        String(learning.evidence_count),
+        withStore(learning.insight, learning),
+      ]),
+    ),
+  );
+}
+
+function stats(projection: Projection, options: Options): void {
+  const summary = storeStats(projection);
+  print(options, summary, () =>
+    [
+      formatTable(
+        ["STORE", ""],
+        [
+          ["boxes", String(summary.boxes)],
+          ["learnings", String(summary.learnings)],
+          ["evidence links", String(summary.evidence_links)],
+          ["first box", summary.first_box_ts ?? "-"],
+          ["last box", summary.last_box_ts ?? "-"],
+          ["last analysis", summary.last_analysis_ts ?? "-"],
+          ["incomplete", String(summary.incomplete)],
+          ["malformed", String(summary.malformed)],
+        ],
+      ),
+      formatCounts("TYPE", summary.by_type),
+      formatCounts("AGENT", summary.by_agent),
+      formatCounts("REPO", summary.by_repo),
+      formatCounts("MALFORMED", summary.malformed_by_type),
+    ].join(""),
+  );
+}
+
+const options = parseArgs(process.argv.slice(2));
+const root = await resolveWorktreeRoot(process.cwd());
+const layers = storeLayers(root);
+const layered = await readLayeredProjection(layers);
+if (layered === null) {
+  process.stderr.write(
+    `[response-boxes] no event store at ${layers.map((layer) => layer.storeFile).join(" or ")}\n`,
+  );
+  process.exit(1);
+}
+// The other store is still listed and injected, as the plugin does
+for (const { layer, error } of layered.unreadable) {
+  process.stderr.write(
+    `[response-boxes] skipped ${layer.storeFile}: ${error instanceof Error ? error.message : String(error)}\n`,
+  );
+}
+
+if (options.command === "context") {
+  const repo = options.repo ?? (await resolveGitContext(process.cwd())).remote;
+  // The plugin injects nothing where .response-boxes.json says "inject": false
+  const { inject } = await readRepoPolicy(root);
+  const context = inject
+    ? layeredContextFor(layered, {
+        repo: normalizeRemoteUrl(repo),
+        now: new Date(),
+        query: await relevanceQuery(options),
+        config: readRankingConfig(),
+        registry: await readBoxTypeRegistry(),
+      })
+    : null;
+  print(options, { repo: normalizeRemoteUrl(repo), inject, context }, () =>
+    !inject
+      ? "(injection is turned off by this repository's .response-boxes.json)\n"
+      : context === null
+        ? "(nothing would be injected)\n"
+        : `${context}\n`,
+  );
+} else {
+  const { unsupportedCount, newestSchemaVersion } =
+    layeredSchemaStatus(layered);
+  if (unsupportedCount > 0) {
+    process.stderr.write(
+      `[response-boxes] skipped ${unsupportedCount} event(s) with schema_version ${newestSchemaVersion} (supported: ${SUPPORTED_SCHEMA_VERSION}); update agent-response-boxes\n`,
+    );
+  }
+
+  const commands: Record<
+    string,
+    (p: Projection, o: Options) => void | Promise<void>
+  > = {
+    list,
+    show,
+    learnings,
+    stats,
+  };
+  await commands[options.command](layered.projection, options);
+}
@@ -39,6 +39,37 @@ PROJECT_CLAUDE_DIR="./.claude"
 
 USER_OPENCODE_PLUGIN_DIR="${HOME}/.config/opencode/plugin"
 
+# The vendored @response-boxes/core modules imported by the OpenCode plugin
+# (installed next to it in a subdirectory so OpenCode does not load them as
+# plugins themselves).
+OPENCODE_PLUGIN_MODULES=(
+    "index.ts"
+    "activity.ts"
+    "capture.ts"
+    "compaction.ts"
+    "context.ts"
+    "encryption.ts"
+    "events.ts"
+    "git.ts"
+    "parser.ts"
+    "projection.ts"
+    "projection-cache.ts"
+    "proposals.ts"
+    "query.ts"
+    "ranking.ts"
+    "redaction.ts"
+    "registry.ts"
+    "repo-policy.ts"
+    "retrieval.ts"
+    "box-types.json"
+    "schema.ts"
+    "store.ts"
+    "store-encryption.ts"
+    "store-layers.ts"
+    "synthesis.ts"
+    "validation.ts"
+)
+
 INSTALL_SCOPE="user"
 CLAUDE_DIR="${USER_CLAUDE_DIR}"
 UNINSTALL=false
@@ -233,6 +264,14 @@ file_looks_managed() {
         SKILL.md)
             grep -q "^name: analyze-boxes$" "$file" 2>/dev/null && return 0
             ;;
+        box-types.default.json)
+            return 0
+            ;;
+        box-types.json)
+            # Only the plugin's vendored copy; ~/.response-boxes/box-types.json
+            # holds the user's own types
+            [[ "$(dirname "$file")" == "${USER_OPENCODE_PLUGIN_DIR}/response-boxes" ]] && return 0
+            ;;
     esac
 
     grep -q "agent-response-boxes" "$file" 2>/dev/null && return 0
@@ -532,11 +571,19 @@ install_rules() {
     install_managed_file "agents/claude-code/references/response-boxes.md" "${CLAUDE_DIR}/references/response-boxes.md"
 }
 
+# The built-in box types read by every bash hook; custom types belong in
+# ~/.response-boxes/box-types.json, which the installer never touches
+install_box_types() {
+    install_managed_file "outputs/opencode/.opencode/plugins/response-boxes/box-types.json" "${HOME}/.response-boxes/box-types.default.json"
+}
+
 install_hooks() {
     log "Installing hooks..."
     install_managed_file "outputs/claude/.claude/hooks/inject-context.sh" "${USER_CLAUDE_DIR}/hooks/inject-context.sh" "+x"
 
     install_managed_file "outputs/claude/.claude/hooks/session-processor.sh" "${USER_CLAUDE_DIR}/hooks/session-processor.sh" "+x"
+
+    install_box_types
 }
 
 install_skills() {
@@ -700,6 +747,11 @@ install_opencode_plugin() {
 
     log "Installing OpenCode plugin..."
     install_managed_file "outputs/opencode/.opencode/plugins/response-boxes.plugin.ts" "${USER_OPENCODE_PLUGIN_DIR}/response-boxes.plugin.ts"
+
+    local module
+    for module in "${OPENCODE_PLUGIN_MODULES[@]}"; do
+        install_managed_file "outputs/opencode/.opencode/plugins/response-boxes/${module}" "${USER_OPENCODE_PLUGIN_DIR}/response-boxes/${module}"
+    done
 }
 
 install_windsurf_basic() {
@@ -799,6 +851,7 @@ install_cursor_enhanced() {
 
     # Install the collector hook script
     install_managed_file "outputs/cursor/.cursor/hooks/cursor-collector.sh" "${cursor_hooks_dir}/cursor-collector.sh" "+x"
+    install_box_types
 
     # Cursor hooks.json needs to be in project-level .cursor/hooks/
     # We'll install the template to the response-boxes directory for reference
@@ -837,6 +890,7 @@ install_windsurf_full() {
 
     # Install the collector hook script
     install_managed_file "outputs/windsurf/.windsurf/hooks/windsurf-collector.sh" "${windsurf_hooks_dir}/windsurf-collector.sh" "+x"
+    install_box_types
 
     # Install hooks.json and workflow to each Windsurf config location that exists
     for config_dir in "${windsurf_config_dirs[@]}"; do
@@ -901,7 +955,13 @@ uninstall() {
             "${USER_CLAUDE_DIR}/skills/analyze-boxes/skill.md"
             "${USER_CLAUDE_DIR}/skills/analyze-boxes/SKILL.md"
             "${USER_OPENCODE_PLUGIN_DIR}/response-boxes.plugin.ts"
+            "${HOME}/.response-boxes/box-types.default.json"
         )
+
+        local module
+        for module in "${OPENCODE_PLUGIN_MODULES[@]}"; do
+            files_to_remove+=("${USER_OPENCODE_PLUGIN_DIR}/response-boxes/${module}")
+        done
     fi
 
     for file in "${files_to_remove[@]}"; do
@@ -1,8 +1,42 @@
 import type { Plugin } from "@opencode-ai/plugin";
-import { promises as fs } from "fs";
-import * as crypto from "crypto";
-import * as os from "os";
-import * as path from "path";
+import {
+  type BoxCreatedEvent,
+  type BoxEvent,
+  type BoxTypeRegistry,
+  type GitContext,
+  type LayeredProjection,
+  type RedactionRule,
+  type RelevanceQuery,
+  type RepoPolicy,
+  EMPTY_TOOL_ACTIVITY,
+  SUPPORTED_SCHEMA_VERSION,
+  type ToolActivity,
+  activityContext,
+  appendToLayer,
+  applyRepoPolicy,
+  boxMalformedEvent,
+  calculateInitialScore,
+  detectWorktreeLanguages,
+  deterministicBoxId,
+  extractBoxesFromText,
+  isMessageComplete,
+  layeredCompactionContextFor,
+  layeredContextFor,
+  mergeToolActivity,
+  readBoxTypeRegistry,
+  readLayeredProjection,
+  readRankingConfig,
+  readRedactionRules,
+  readRepoPolicy,
+  redactBoxCreated,
+  repoPolicyCaptures,
+  resolveGitContext,
+  resolveWriteTarget,
+  storeLayers,
+  toolCallActivity,
+  validateBox,
+  writeLayer,
+} from "./response-boxes/index";
 
 interface MessagePart {
   readonly type: string;
@@ -10,9 +44,14 @@ interface MessagePart {
 }
 
 interface MessageInfo {
+  readonly id?: string;
   readonly role?: string;
   readonly parts?: MessagePart[];
   readonly sessionID?: string;
+  // The user message that started an assistant message's turn
+  readonly parentID?: string;
+  readonly time?: { readonly created?: number; readonly completed?: number };
+  readonly finish?: string;
 }
 
 interface EventLike {
@@ -24,303 +63,122 @@ interface EventLike {
   };
 }
 
-interface BoxSegment {
-  readonly boxType: string;
-  readonly fields: Record<string, string>;
-  readonly raw: string;
-}
-
-interface BoxCreatedEvent {
-  readonly event: "BoxCreated";
-  readonly id: string;
-  readonly ts: string;
-  readonly box_type: string;
-  readonly fields: Record<string, string>;
-  readonly context: Record<string, unknown>;
-  readonly initial_score: number;
-  readonly schema_version: number;
-}
-
-const DEFAULT_ANALYTICS_DIR = path.join(
-  os.homedir(),
-  ".response-boxes",
-  "analytics",
-);
-const DEFAULT_BOXES_FILE = path.join(DEFAULT_ANALYTICS_DIR, "boxes.jsonl");
-
-const BOXES_FILE = process.env.RESPONSE_BOXES_FILE ?? DEFAULT_BOXES_FILE;
-const SCHEMA_VERSION = 1;
-
-// Generate a unique ID using crypto for collision resistance
-function generateUniqueId(prefix: string): string {
-  const timestamp = Date.now().toString(36);
-  const random = crypto.randomBytes(4).toString("hex");
-  return `${prefix}_${timestamp}_${random}`;
-}
-
-// Calculate initial score based on box type (matches scoring in hooks)
-function calculateInitialScore(boxType: string): number {
-  const highValueTypes = ["Reflection", "Warning", "Pushback", "Assumption"];
-  const mediumValueTypes = [
-    "Choice",
-    "Completion",
-    "Concern",
-    "Confidence",
-    "Decision",
-  ];
-
-  if (highValueTypes.includes(boxType)) {
-    return 85;
-  }
-  if (mediumValueTypes.includes(boxType)) {
-    return 60;
-  }
-  return 40;
-}
-
-async function ensureAnalyticsDir(): Promise<void> {
-  const dir = path.dirname(BOXES_FILE);
-  await fs.mkdir(dir, { recursive: true });
-}
-
-function extractBoxesFromText(text: string): BoxSegment[] {
-  const segments: BoxSegment[] = [];
-
-  // Match headers like: "⚖️ Choice ─────────────" (emoji + type + dashes)
-  //
-  // IMPORTANT: do not allow newlines between groups. `\s` includes `\n`, which
-  // causes false matches like "**Reasoning:** ...\n──────".
-  const headerPattern =
-    /^([^\s]+)[ \t]+([A-Za-z][A-Za-z ]*)[ \t]+[-\u2500]{10,}[ \t]*$/gm;
-
-  const matches = Array.from(text.matchAll(headerPattern));
-  if (matches.length === 0) {
-    return segments;
-  }
-
-  for (let index = 0; index < matches.length; index += 1) {
-    const match = matches[index];
-    if (match.index === undefined) {
-      continue;
-    }
-
-    const start = match.index;
-    const end =
-      index + 1 < matches.length && matches[index + 1].index !== undefined
-        ? (matches[index + 1].index as number)
-        : text.length;
-
-    const block = text.slice(start, end).trim();
-    if (block.length === 0) {
-      continue;
-    }
-
-    const headerLineEnd = block.indexOf("\n");
-    const boxTypeRaw = match[2] ?? "";
-    const boxType = boxTypeRaw.trim();
-
-    const body =
-      headerLineEnd === -1 ? "" : block.slice(headerLineEnd + 1).trim();
-    const fields: Record<string, string> = {};
-
-    for (const line of body.split(/\r?\n/)) {
-      const matchField = /^\*\*([^*]+)\*\*(.*)$/.exec(line);
-      if (!matchField) {
-        continue;
-      }
-
-      let rawName = (matchField[1] ?? "").trim();
-      let remainder = (matchField[2] ?? "");
-
-      // Support both formats:
-      // - **Name:** value   (colon inside bold)
-      // - **Name**: value   (colon outside bold)
-      let value = remainder.trimStart();
-      if (rawName.endsWith(":")) {
-        rawName = rawName.slice(0, -1).trim();
-      } else if (value.startsWith(":")) {
-        value = value.slice(1).trimStart();
-      } else {
-        continue;
-      }
-
-      value = value.trim();
-      if (!rawName || value === "") {
-        continue;
-      }
-
-      const key = rawName.toLowerCase().replace(/\s+/g, "_");
-      if (!(key in fields)) {
-        fields[key] = value;
-      }
-    }
-
-    segments.push({
-      boxType,
-      fields,
-      raw: block,
-    });
-  }
-
-  return segments;
-}
-
-async function appendBoxEvents(events: BoxCreatedEvent[]): Promise<void> {
-  if (events.length === 0) {
-    return;
-  }
-
-  await ensureAnalyticsDir();
-
-  const json = events.map((event) => JSON.stringify(event)).join("\n");
-  const withNewline = `${json}\n`;
-
-  await fs.appendFile(BOXES_FILE, withNewline, { encoding: "utf8" });
-}
-
-async function projectContextFromEvents(): Promise<string | null> {
-  let raw: string;
-  try {
-    raw = await fs.readFile(BOXES_FILE, { encoding: "utf8" });
-  } catch {
-    return null;
-  }
-
-  const lines = raw.split(/\r?\n/);
-  const boxes: BoxCreatedEvent[] = [];
-  const learnings: { insight: string; confidence: number; ts: string }[] = [];
-
-  for (const line of lines) {
-    const trimmed = line.trim();
-    if (trimmed === "") {
-      continue;
-    }
+const plugin: Plugin = (context) => {
+  const { directory, worktree } = context;
 
-    let parsed: unknown;
-    try {
-      parsed = JSON.parse(trimmed);
-    } catch {
-      continue;
-    }
+  // Track which sessions have had context injected
+  const injectedSessions = new Set<string>();
 
-    if (typeof parsed !== "object" || parsed === null) {
-      continue;
-    }
+  // The worktree's .response-boxes/boxes.jsonl over the global store
+  const layers = storeLayers(worktree || directory);
+
+  // Indexed projection of the stores, merged. Refreshes are chained because
+  // each one extends the previous state in place.
+  let projectionRefresh: Promise<LayeredProjection | null> =
+    Promise.resolve(null);
+  const refreshProjection = (): Promise<LayeredProjection | null> => {
+    projectionRefresh = projectionRefresh
+      .catch(() => null)
+      .then((previous) => readLayeredProjection(layers, previous));
+    return projectionRefresh;
+  };
 
-    const record = parsed as Record<string, unknown>;
-    const eventType =
-      typeof record.event === "string" ? record.event : "BoxCreated";
-
-    if (eventType === "BoxCreated") {
-      const ts =
-        typeof record.ts === "string" ? record.ts : new Date(0).toISOString();
-      const boxType =
-        typeof record.box_type === "string"
-          ? record.box_type
-          : typeof record.type === "string"
-            ? record.type
-            : "Unknown";
-      const fields =
-        record.fields && typeof record.fields === "object"
-          ? (record.fields as Record<string, string>)
-          : {};
-
-      boxes.push({
-        event: "BoxCreated",
-        id: typeof record.id === "string" ? record.id : `oc_legacy_${ts}`,
-        ts,
-        box_type: boxType,
-        fields,
-        context:
-          record.context && typeof record.context === "object"
-            ? (record.context as Record<string, unknown>)
-            : {},
-        initial_score:
-          typeof record.initial_score === "number" ? record.initial_score : 50,
-        schema_version:
-          typeof record.schema_version === "number" ? record.schema_version : 0,
+  // BoxCreated IDs already written, so a plugin restart does not re-record
+  // boxes from messages OpenCode replays; seeded from the store on first
+  // capture. A failed read is forgotten so the next capture tries again.
+  // Another layer may be unreadable, but not the one boxes are written to.
+  let persistedBoxIds: Promise<Set<string>> | null = null;
+  const getPersistedBoxIds = (): Promise<Set<string>> => {
+    persistedBoxIds ??= Promise.all([refreshProjection(), getRepoPolicy()])
+      .then(([layered, policy]) => {
+        const target = writeLayer(layers, resolveWriteTarget(policy));
+        const failed = layered?.unreadable.find(
+          ({ layer }) => layer === target,
+        );
+        if (failed) {
+          throw failed.error;
+        }
+        return new Set(layered?.projection.boxes.map((box) => box.id) ?? []);
+      })
+      .catch((error: unknown) => {
+        persistedBoxIds = null;
+        throw error;
       });
-    } else if (eventType === "LearningCreated") {
-      const insight = typeof record.insight === "string" ? record.insight : "";
-      if (insight === "") {
-        continue;
-      }
-      const confidence =
-        typeof record.confidence === "number" ? record.confidence : 0.0;
-      const ts =
-        typeof record.ts === "string" ? record.ts : new Date(0).toISOString();
-      learnings.push({ insight, confidence, ts });
-    }
-  }
+    return persistedBoxIds;
+  };
 
-  if (boxes.length === 0 && learnings.length === 0) {
-    return null;
-  }
+  // Resolve the worktree's remote/branch once (local git config only)
+  let gitContext: Promise<GitContext> | null = null;
+  const getGitContext = (): Promise<GitContext> => {
+    gitContext ??= resolveGitContext(worktree || directory);
+    return gitContext;
+  };
 
-  const maxLearnings =
-    Number.parseInt(process.env.BOX_INJECT_LEARNINGS ?? "3", 10) || 3;
-  const maxBoxes =
-    Number.parseInt(process.env.BOX_INJECT_BOXES ?? "5", 10) || 5;
+  // Languages of the worktree, read once; part of the relevance query
+  let languages: Promise<string[]> | null = null;
+  const getLanguages = (): Promise<string[]> => {
+    languages ??= detectWorktreeLanguages(worktree || directory);
+    return languages;
+  };
 
-  // Sort learnings by confidence (desc), then by timestamp (desc)
-  learnings.sort((a, b) => {
-    if (b.confidence !== a.confidence) {
-      return b.confidence - a.confidence;
+  // Each session's first user prompt, which injection ranks against
+  const firstPrompts = new Map<string, string>();
+  const rememberPrompt = (sessionId: string, parts: MessagePart[]): void => {
+    const prompt = parts
+      .filter((part) => part.type === "text" && typeof part.text === "string")
+      .map((part) => part.text ?? "")
+      .join("\n\n")
+      .trim();
+    if (prompt !== "" && !firstPrompts.has(sessionId)) {
+      firstPrompts.set(sessionId, prompt);
     }
-    return (new Date(b.ts).getTime() || 0) - (new Date(a.ts).getTime() || 0);
-  });
+  };
 
-  // Sort boxes by timestamp (desc)
-  boxes.sort((a, b) => {
-    return (new Date(b.ts).getTime() || 0) - (new Date(a.ts).getTime() || 0);
+  // What a session's learnings are ranked against, at injection and again at
+  // compaction so the carried-over learnings are the injected ones
+  const sessionQuery = async (sessionId: string): Promise<RelevanceQuery> => ({
+    prompt: firstPrompts.get(sessionId) ?? "",
+    languages: await getLanguages(),
   });
 
-  const topLearnings = learnings.slice(0, maxLearnings);
-  const topBoxes = boxes.slice(0, maxBoxes);
-
-  const linesOut: string[] = [];
-  linesOut.push("PRIOR SESSION LEARNINGS (from Response Boxes):");
-  linesOut.push("");
-
-  if (topLearnings.length > 0) {
-    linesOut.push("Patterns (AI-synthesized learnings)");
-    for (const l of topLearnings) {
-      const conf = Number.isFinite(l.confidence)
-        ? l.confidence.toFixed(2)
-        : "--";
-      linesOut.push(`• [${conf}] ${l.insight}`);
+  // Files edited and commands run in each session's current turn, keyed by
+  // the user message that started it. Boxes captured in the turn carry them
+  // in context.files_touched and context.commands.
+  const turns = new Map<string, { turnId: string; activity: ToolActivity }>();
+  const startTurn = (sessionId: string, turnId: string): void => {
+    const turn = turns.get(sessionId);
+    if (turn?.turnId === "") {
+      // Tools ran before the turn's first message was seen
+      turns.set(sessionId, { ...turn, turnId });
+    } else if (turn?.turnId !== turnId) {
+      turns.set(sessionId, { turnId, activity: EMPTY_TOOL_ACTIVITY });
     }
-    linesOut.push("");
-  }
-
-  if (topBoxes.length > 0) {
-    linesOut.push("Recent notable boxes");
-    for (const box of topBoxes) {
-      const entries = Object.entries(box.fields);
-      const summaryValues = entries
-        .slice(0, 2)
-        .map(([key, value]) => `${key}: ${value}`);
-      const summary = summaryValues.join(" | ");
-      linesOut.push(`• ${box.box_type}: ${summary}`);
-    }
-    linesOut.push("");
-  }
-
-  linesOut.push(
-    "Apply relevant learnings using a 🔄 Reflection box in your response.",
-  );
+  };
 
-  return linesOut.join("\n");
-}
+  // Arguments of running tool calls, by call ID, for OpenCode releases whose
+  // tool.execute.after input has no args
+  const pendingArgs = new Map<string, unknown>();
 
-const plugin: Plugin = (context) => {
-  const { directory, worktree } = context;
+  // Built-in box types plus the team's custom ones, read once
+  let boxTypes: Promise<BoxTypeRegistry> | null = null;
+  const getBoxTypes = (): Promise<BoxTypeRegistry> => {
+    boxTypes ??= readBoxTypeRegistry();
+    return boxTypes;
+  };
 
-  // Track which sessions have had context injected
-  const injectedSessions = new Set<string>();
+  // Built-in redaction rules plus the team's, read once
+  let redactionRules: Promise<RedactionRule[]> | null = null;
+  const getRedactionRules = (): Promise<RedactionRule[]> => {
+    redactionRules ??= readRedactionRules();
+    return redactionRules;
+  };
 
-  // Track message counts per session for deduplication
-  const sessionMessageCounts = new Map<string, number>();
+  // The worktree's .response-boxes.json, read once
+  let repoPolicy: Promise<RepoPolicy> | null = null;
+  const getRepoPolicy = (): Promise<RepoPolicy> => {
+    repoPolicy ??= readRepoPolicy(worktree || directory);
+    return repoPolicy;
+  };
 
   return {
     // Unified event hook for message capture
@@ -334,10 +192,24 @@ const plugin: Plugin = (context) => {
       }
 
       const info = event.properties?.info;
-      if (!info || info.role !== "assistant") {
+      if (!info) {
         return;
       }
 
+      const sessionId = event.sessionID ?? info.sessionID ?? "unknown";
+      if (info.role === "user") {
+        rememberPrompt(sessionId, info.parts ?? []);
+        if (info.id) {
+          startTurn(sessionId, info.id);
+        }
+      }
+      if (info.role !== "assistant") {
+        return;
+      }
+      if (info.parentID) {
+        startTurn(sessionId, info.parentID);
+      }
+
       const parts = info.parts ?? [];
       const textParts = parts.filter(
         (part) => part.type === "text" && typeof part.text === "string",
@@ -352,47 +224,178 @@ const plugin: Plugin = (context) => {
         return;
       }
 
-      const boxes = extractBoxesFromText(fullText);
+      const policy = await getRepoPolicy();
+      if (!policy.capture) {
+        return;
+      }
+
+      const registry = await getBoxTypes();
+      const boxes = extractBoxesFromText(fullText, registry).filter((box) =>
+        repoPolicyCaptures(policy, box.boxType, registry),
+      );
       if (boxes.length === 0) {
         return;
       }
 
-      const nowIso = new Date().toISOString();
-      const sessionId = event.sessionID ?? info.sessionID ?? "unknown";
+      const messageId = info.id ?? "unknown";
+
+      // message.updated fires for every streamed chunk and again on
+      // completion. Only record a box once its closing rule has arrived (or
+      // the message is done), and only once per deterministic ID.
+      const messageComplete = isMessageComplete(info);
+      // Without the stored IDs a replayed box cannot be told from a new one,
+      // so an unreadable store skips this update; a later one retries
+      const persisted = await getPersistedBoxIds().catch(() => null);
+      if (!persisted) {
+        return;
+      }
+      const pending = boxes
+        .map((box, index) => ({
+          box,
+          index,
+          id: deterministicBoxId(sessionId, messageId, box, index),
+        }))
+        .filter(
+          ({ box, id }) =>
+            (messageComplete || box.complete) && !persisted.has(id),
+        );
+
+      if (pending.length === 0) {
+        return;
+      }
+
+      // Claim the IDs before any await so overlapping updates cannot race
+      for (const { id } of pending) {
+        persisted.add(id);
+      }
 
-      // Track message count for this session to create unique IDs
-      const currentCount = sessionMessageCounts.get(sessionId) ?? 0;
-      sessionMessageCounts.set(sessionId, currentCount + 1);
+      const nowIso = new Date().toISOString();
+      const git = await getGitContext();
+      const rules = await getRedactionRules();
 
       const baseContext: Record<string, unknown> = {
         source: "opencode_plugin",
         session_id: sessionId,
-        message_index: currentCount,
+        message_id: messageId,
         agent: "OpenCode",
         directory,
         worktree,
+        git_remote: git.remote,
+        git_branch: git.branch,
+        ...activityContext(
+          turns.get(sessionId)?.activity ?? EMPTY_TOOL_ACTIVITY,
+        ),
+      };
+
+      const eventsToWrite: BoxEvent[] = pending.flatMap(
+        ({ box, index, id }) => {
+          const { completeness, missing_fields } = validateBox(
+            box.boxType,
+            box.fields,
+            registry,
+          );
+          // Secrets and personal data never reach the store, not even in
+          // the BoxMalformed diagnostic that copies the context
+          const created: BoxCreatedEvent = redactBoxCreated(
+            applyRepoPolicy(
+              {
+                event: "BoxCreated",
+                id,
+                ts: nowIso,
+                box_type: box.boxType,
+                fields: box.fields,
+                context: { ...baseContext, box_index: index },
+                initial_score: calculateInitialScore(box.boxType, registry),
+                schema_version: SUPPORTED_SCHEMA_VERSION,
+                ...(box.complete ? {} : { incomplete: true as const }),
+                completeness,
+                ...(missing_fields.length > 0 ? { missing_fields } : {}),
+              },
+              policy,
+            ),
+            rules,
+          );
+          const malformed = boxMalformedEvent(created);
+          return malformed ? [created, malformed] : [created];
+        },
+      );
+
+      try {
+        await appendToLayer(
+          writeLayer(layers, resolveWriteTarget(policy)),
+          eventsToWrite,
+        );
+      } catch {
+        // A busy lock or a full disk must not reject an OpenCode hook.
+        // Release the claims so a later update retries the write.
+        for (const { id } of pending) {
+          persisted.delete(id);
+        }
+      }
+    },
+
+    // Tool lifecycle: remember each call's arguments, then record what it
+    // touched once it has run
+    "tool.execute.before": async (
+      input: { tool: string; sessionID: string; callID: string },
+      output: { args: unknown },
+    ) => {
+      if (process.env.RESPONSE_BOXES_DISABLED === "true") {
+        return;
+      }
+      pendingArgs.set(input.callID, output.args);
+    },
+
+    "tool.execute.after": async (input: {
+      tool: string;
+      sessionID: string;
+      callID: string;
+      args?: unknown;
+    }) => {
+      const args = input.args ?? pendingArgs.get(input.callID);
+      pendingArgs.delete(input.callID);
+      if (process.env.RESPONSE_BOXES_DISABLED === "true") {
+        return;
+      }
+
+      const activity = toolCallActivity(
+        input.tool,
+        args,
+        worktree || directory,
+      );
+      const turn = turns.get(input.sessionID) ?? {
+        turnId: "",
+        activity: EMPTY_TOOL_ACTIVITY,
       };
+      turns.set(input.sessionID, {
+        ...turn,
+        activity: mergeToolActivity(turn.activity, activity),
+      });
+    },
 
-      const eventsToWrite: BoxCreatedEvent[] = boxes.map((box, index) => ({
-        event: "BoxCreated",
-        id: generateUniqueId(`oc_${sessionId.slice(0, 8)}`),
-        ts: nowIso,
-        box_type: box.boxType,
-        fields: box.fields,
-        context: baseContext,
-        initial_score: calculateInitialScore(box.boxType),
-        schema_version: SCHEMA_VERSION,
-      }));
-
-      await appendBoxEvents(eventsToWrite);
+    // Incoming user message: remember the session's first prompt before the
+    // system transform runs for it
+    "chat.message": async (
+      input: { sessionID: string },
+      output: { parts: MessagePart[] },
+    ) => {
+      if (process.env.RESPONSE_BOXES_DISABLED === "true") {
+        return;
+      }
+      rememberPrompt(input.sessionID, output.parts);
     },
 
-    // System prompt transform: inject projected learnings/boxes
+    // System prompt transform: inject projected learnings/boxes, ranked
+    // towards the first prompt and the worktree's languages
     "experimental.chat.system.transform": async (
       input: { sessionID: string },
       output: { system: string[] },
     ) => {
-      if (process.env.RESPONSE_BOXES_DISABLED === "true") {
+      if (
+        process.env.RESPONSE_BOXES_DISABLED === "true" ||
+        process.env.BOX_INJECT_DISABLED === "true" ||
+        !(await getRepoPolicy()).inject
+      ) {
         return;
       }
 
@@ -401,7 +404,19 @@ const plugin: Plugin = (context) => {
         return;
       }
 
-      const contextText = await projectContextFromEvents();
+      const git = await getGitContext();
+      // An unreadable store (corrupt, or encrypted with a missing key)
+      // injects nothing rather than failing the prompt
+      const layered = await refreshProjection().catch(() => null);
+      const contextText = layered
+        ? layeredContextFor(layered, {
+            repo: git.remote,
+            now: new Date(),
+            query: await sessionQuery(sessionID),
+            config: readRankingConfig(),
+            registry: await getBoxTypes(),
+          })
+        : null;
       if (!contextText) {
         return;
       }
@@ -410,11 +425,44 @@ const plugin: Plugin = (context) => {
       output.system.push(contextText);
     },
 
+    // Session compaction: the summary replaces the messages that held this
+    // session's boxes and the learnings injected at its start, so hand both
+    // to the compaction prompt
+    "experimental.session.compacting": async (
+      input: { sessionID: string },
+      output: { context: string[] },
+    ) => {
+      if (
+        process.env.RESPONSE_BOXES_DISABLED === "true" ||
+        process.env.BOX_INJECT_DISABLED === "true" ||
+        !(await getRepoPolicy()).inject
+      ) {
+        return;
+      }
+
+      const git = await getGitContext();
+      // As at session start, an unreadable store adds nothing
+      const layered = await refreshProjection().catch(() => null);
+      const contextText = layered
+        ? layeredCompactionContextFor(layered, {
+            sessionId: input.sessionID,
+            repo: git.remote,
+            now: new Date(),
+            query: await sessionQuery(input.sessionID),
+            config: readRankingConfig(),
+            registry: await getBoxTypes(),
+          })
+        : null;
+      if (contextText) {
+        output.context.push(contextText);
+      }
+    },
+
     // Optional: Use chat.headers for session correlation (stable API, Jan 2026)
     "chat.headers": (input: { sessionID: string }) => {
       return {
         "X-Response-Boxes-Session": input.sessionID,
-        "X-Response-Boxes-Version": SCHEMA_VERSION.toString(),
+        "X-Response-Boxes-Version": SUPPORTED_SCHEMA_VERSION.toString(),
       };
     },
   };
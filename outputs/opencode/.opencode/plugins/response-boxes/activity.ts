@@ -0,0 +1,132 @@
+// agent-response-boxes: tool activity recorded alongside captured boxes.
+//
+// The OpenCode plugin sees every tool call through tool.execute.before/after.
+// Files the agent edited and commands it ran during a turn are attached to
+// the BoxCreated.context of boxes captured in that turn (files_touched and
+// commands), so a box can be traced to the code it affected.
+
+import * as path from "path";
+
+export interface ToolActivity {
+  // Paths relative to the worktree when inside it, otherwise absolute
+  readonly files_touched: string[];
+  readonly commands: string[];
+}
+
+export const EMPTY_TOOL_ACTIVITY: ToolActivity = {
+  files_touched: [],
+  commands: [],
+};
+
+// Keeps a turn with many tool calls from bloating every box it produced
+const MAX_ACTIVITY_ITEMS = 50;
+const MAX_COMMAND_LENGTH = 200;
+
+// OpenCode's editing tools and the argument holding the file path
+const FILE_TOOLS: Readonly<Record<string, string>> = {
+  edit: "filePath",
+  multiedit: "filePath",
+  write: "filePath",
+};
+
+// Tools that take a patch in the "*** Update File: <path>" format
+const PATCH_TOOLS = new Set(["patch", "apply_patch"]);
+
+const COMMAND_TOOLS = new Set(["bash", "shell"]);
+
+const PATCH_FILE =
+  /^\*\*\* (?:Add|Update|Delete) File: (.+)$|^\*\*\* Move to: (.+)$/;
+
+function argument(args: unknown, key: string): string {
+  if (typeof args !== "object" || args === null) {
+    return "";
+  }
+  const value = (args as Record<string, unknown>)[key];
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function relativeTo(root: string, file: string): string {
+  if (root === "" || !path.isAbsolute(file)) {
+    return file;
+  }
+  const relative = path.relative(root, file);
+  return relative === "" ||
+    relative.startsWith("..") ||
+    path.isAbsolute(relative)
+    ? file
+    : relative;
+}
+
+function patchFiles(patch: string): string[] {
+  return patch
+    .split(/\r?\n/)
+    .map((line) => PATCH_FILE.exec(line.trim()))
+    .filter((match): match is RegExpExecArray => match !== null)
+    .map((match) => (match[1] ?? match[2]).trim());
+}
+
+function commandText(command: string): string {
+  const line = command.replace(/\s+/g, " ").trim();
+  return line.length > MAX_COMMAND_LENGTH
+    ? `${line.slice(0, MAX_COMMAND_LENGTH - 1)}…`
+    : line;
+}
+
+// What a single tool call did; read-only tools record nothing
+export function toolCallActivity(
+  tool: string,
+  args: unknown,
+  root = "",
+): ToolActivity {
+  const name = tool.toLowerCase();
+  if (name in FILE_TOOLS) {
+    const file = argument(args, FILE_TOOLS[name]);
+    return {
+      files_touched: file === "" ? [] : [relativeTo(root, file)],
+      commands: [],
+    };
+  }
+  if (PATCH_TOOLS.has(name)) {
+    return {
+      files_touched: patchFiles(argument(args, "patchText")).map((file) =>
+        relativeTo(root, file),
+      ),
+      commands: [],
+    };
+  }
+  if (COMMAND_TOOLS.has(name)) {
+    const command = argument(args, "command");
+    return {
+      files_touched: [],
+      commands: command === "" ? [] : [commandText(command)],
+    };
+  }
+  return EMPTY_TOOL_ACTIVITY;
+}
+
+function mergeList(a: string[], b: string[]): string[] {
+  return [...new Set([...a, ...b])].slice(0, MAX_ACTIVITY_ITEMS);
+}
+
+// Union in first-seen order, capped per list
+export function mergeToolActivity(
+  a: ToolActivity,
+  b: ToolActivity,
+): ToolActivity {
+  return {
+    files_touched: mergeList(a.files_touched, b.files_touched),
+    commands: mergeList(a.commands, b.commands),
+  };
+}
+
+// The BoxCreated.context keys for a turn's activity; empty lists are omitted
+export function activityContext(
+  activity: ToolActivity,
+): Record<string, string[]> {
+  return {
+    ...(activity.files_touched.length > 0
+      ? { files_touched: activity.files_touched }
+      : {}),
+    ...(activity.commands.length > 0 ? { commands: activity.commands } : {}),
+  };
+}
@@ -0,0 +1,317 @@
+// agent-response-boxes: the context block adapters inject at session start.
+
+import { fieldText } from "./parser";
+import type { IndexedProjection } from "./projection-cache";
+import type { Box, Projection } from "./projection";
+import {
+  type RankedLearning,
+  type RankingConfig,
+  type RankingContext,
+  rankBoxes,
+  rankLearnings,
+} from "./ranking";
+import {
+  type BoxTypeRegistry,
+  DEFAULT_BOX_TYPES,
+  findBoxType,
+  isCarriedOverBoxType,
+  isHiddenBoxType,
+} from "./registry";
+import { schemaUpdateNotice } from "./schema";
+import { type LayeredProjection, layeredSchemaStatus } from "./store-layers";
+import { isMalformedBox } from "./validation";
+
+export interface InjectionOptions extends RankingContext {
+  readonly config: RankingConfig;
+  // Defaults to the built-in box types
+  readonly registry?: BoxTypeRegistry;
+}
+
+export interface CompactionContextOptions extends InjectionOptions {
+  // The session being compacted; its own boxes are carried over
+  readonly sessionId: string;
+}
+
+// Boxes of the compacted session carried into the summary, newest kept
+const MAX_COMPACTION_BOXES = 10;
+
+// Long values are cut so one field or insight cannot crowd out the rest
+const MAX_FIELD_CHARS = 120;
+const MAX_INSIGHT_CHARS = 240;
+
+// Room kept for the omitted-items trailer
+const TRAILER_RESERVE = 80;
+
+function truncate(text: string, width: number): string {
+  return text.length > width ? `${text.slice(0, width - 1).trimEnd()}…` : text;
+}
+
+// Set only when the global and project stores were merged
+function storeLabel(item: { readonly store?: string }): string {
+  return item.store ? ` [${item.store}]` : "";
+}
+
+function boxLine(box: Box): string {
+  const summary = Object.entries(box.fields)
+    .slice(0, 2)
+    .map(
+      ([key, value]) =>
+        `${key}: ${truncate(fieldText(value), MAX_FIELD_CHARS)}`,
+    )
+    .join(" | ");
+  return `• ${box.box_type}: ${summary}${storeLabel(box)}`;
+}
+
+function learningLines(learnings: RankedLearning[]): string[] {
+  return learnings.map((l) => {
+    const conf = Number.isFinite(l.effective_confidence)
+      ? l.effective_confidence.toFixed(2)
+      : "--";
+    const scope = l.scope === "repo" ? " (repo-specific)" : "";
+    const insight = truncate(
+      l.insight.replace(/\s+/g, " ").trim(),
+      MAX_INSIGHT_CHARS,
+    );
+    return `• [${conf}] ${insight}${scope}${storeLabel(l)}`;
+  });
+}
+
+interface BudgetedSection {
+  readonly lines: string[];
+  readonly omitted: number;
+  readonly used: number;
+}
+
+// Keeps lines in rank order while they fit; a kept section also pays for its
+// heading and the blank line after it
+function fitSection(
+  heading: string,
+  lines: string[],
+  budget: number,
+): BudgetedSection {
+  const kept: string[] = [];
+  let used = 0;
+  for (const line of lines) {
+    const cost = line.length + 1 + (kept.length === 0 ? heading.length + 2 : 0);
+    if (used + cost <= budget) {
+      kept.push(line);
+      used += cost;
+    }
+  }
+  return {
+    lines: kept.length > 0 ? [heading, ...kept, ""] : [],
+    omitted: lines.length - kept.length,
+    used,
+  };
+}
+
+function counted(count: number, one: string, many: string): string {
+  return `${count} ${count === 1 ? one : many}`;
+}
+
+export function formatInjectedContext(
+  projection: Projection,
+  options: InjectionOptions,
+): string | null {
+  if (projection.boxes.length === 0 && projection.learnings.length === 0) {
+    return null;
+  }
+
+  // Rank with the same effective-confidence formula as inject-context.sh
+  const { config } = options;
+  const topLearnings = rankLearnings(projection, config, options).slice(
+    0,
+    config.maxLearnings,
+  );
+  const topBoxes = rankBoxes(
+    projection,
+    config,
+    options,
+    options.registry,
+  ).slice(0, config.maxBoxes);
+
+  if (topLearnings.length === 0 && topBoxes.length === 0) {
+    return null;
+  }
+
+  const title = "PRIOR SESSION LEARNINGS (from Response Boxes):";
+  const footer =
+    "Apply relevant learnings using a 🔄 Reflection box in your response.";
+
+  // Learnings first, then boxes, each greedily in rank order
+  let budget =
+    config.maxChars - (title.length + 2) - footer.length - TRAILER_RESERVE;
+  const learnings = fitSection(
+    "Patterns (AI-synthesized learnings)",
+    learningLines(topLearnings),
+    budget,
+  );
+  budget -= learnings.used;
+  const boxes = fitSection(
+    "Recent notable boxes",
+    topBoxes.map(boxLine),
+    budget,
+  );
+
+  if (learnings.lines.length === 0 && boxes.lines.length === 0) {
+    return null;
+  }
+
+  const linesOut: string[] = [title, "", ...learnings.lines, ...boxes.lines];
+
+  const omitted = [
+    ...(learnings.omitted > 0
+      ? [counted(learnings.omitted, "learning", "learnings")]
+      : []),
+    ...(boxes.omitted > 0 ? [counted(boxes.omitted, "box", "boxes")] : []),
+  ];
+  if (omitted.length > 0) {
+    linesOut.push(
+      `(${omitted.join(" and ")} left out to fit ${config.maxChars} characters)`,
+      "",
+    );
+  }
+
+  linesOut.push(footer);
+
+  return linesOut.join("\n");
+}
+
+// Refuses to project a store written by a newer schema than we understand
+export function injectedContextFor(
+  indexed: IndexedProjection,
+  options: InjectionOptions,
+): string | null {
+  const updateNotice = schemaUpdateNotice({
+    newestSchemaVersion: indexed.cache.newest_schema_version,
+    unsupportedCount: indexed.cache.unsupported_count,
+  });
+  return updateNotice ?? formatInjectedContext(indexed.projection, options);
+}
+
+// injectedContextFor over every layer: any layer from a newer schema blocks
+// the merged projection
+export function layeredContextFor(
+  layered: LayeredProjection,
+  options: InjectionOptions,
+): string | null {
+  const updateNotice = schemaUpdateNotice(layeredSchemaStatus(layered));
+  return updateNotice ?? formatInjectedContext(layered.projection, options);
+}
+
+// A later box of the same type resolves an earlier one it restates: each
+// response's closing box (Follow Ups) replaces the previous response's, and
+// an inline box replaces one with the same leading field, i.e. the same
+// assumption or risk
+function resolutionKey(box: Box, registry: BoxTypeRegistry): string {
+  const type = findBoxType(registry, box.box_type);
+  if (!type || type.placement === "end") {
+    return box.box_type;
+  }
+  const field = type.required_fields[0];
+  const value = field ? fieldText(box.fields[field] ?? "") : "";
+  return `${type.name}\n${value.replace(/\s+/g, " ").trim().toLowerCase()}`;
+}
+
+// The session's carried-over boxes that no later box resolved, newest first
+function openSessionBoxes(
+  projection: Projection,
+  sessionId: string,
+  registry: BoxTypeRegistry,
+): Box[] {
+  const seen = new Set<string>();
+  const open: Box[] = [];
+  for (const box of [...projection.boxes].reverse()) {
+    if (
+      box.context.session_id !== sessionId ||
+      !isCarriedOverBoxType(registry, box.box_type) ||
+      isHiddenBoxType(registry, box.box_type) ||
+      isMalformedBox(box.box_type, box.fields, registry)
+    ) {
+      continue;
+    }
+    const key = resolutionKey(box, registry);
+    if (!seen.has(key)) {
+      seen.add(key);
+      open.push(box);
+    }
+  }
+  return open;
+}
+
+// What OpenCode should keep when it compacts a session: the session's open
+// boxes (assumptions, warnings and follow-ups, per the registry's
+// carry_over) and the learnings that were injected at its start, which are
+// otherwise lost with the old messages. Pass the query injection ranked
+// against so the same learnings come first. Stays within config.maxChars.
+export function formatCompactionContext(
+  projection: Projection,
+  options: CompactionContextOptions,
+): string | null {
+  const { config } = options;
+  const sessionBoxes = openSessionBoxes(
+    projection,
+    options.sessionId,
+    options.registry ?? DEFAULT_BOX_TYPES,
+  ).slice(0, MAX_COMPACTION_BOXES);
+  const topLearnings = rankLearnings(projection, config, options).slice(
+    0,
+    config.maxLearnings,
+  );
+
+  if (sessionBoxes.length === 0 && topLearnings.length === 0) {
+    return null;
+  }
+
+  const title = "RESPONSE BOXES TO CARRY OVER (keep these in the summary):";
+  const footer =
+    "Unresolved assumptions, warnings and follow-ups above still apply after compaction.";
+
+  // The session's own boxes first, then learnings, each in order while they
+  // fit
+  let budget =
+    config.maxChars - (title.length + 2) - footer.length - TRAILER_RESERVE;
+  const boxes = fitSection(
+    "Boxes from this session (newest first)",
+    sessionBoxes.map(boxLine),
+    budget,
+  );
+  budget -= boxes.used;
+  const learnings = fitSection(
+    "Prior session learnings",
+    learningLines(topLearnings),
+    budget,
+  );
+
+  if (boxes.lines.length === 0 && learnings.lines.length === 0) {
+    return null;
+  }
+
+  const linesOut: string[] = [title, "", ...boxes.lines, ...learnings.lines];
+
+  const omitted = [
+    ...(boxes.omitted > 0 ? [counted(boxes.omitted, "box", "boxes")] : []),
+    ...(learnings.omitted > 0
+      ? [counted(learnings.omitted, "learning", "learnings")]
+      : []),
+  ];
+  if (omitted.length > 0) {
+    linesOut.push(
+      `(${omitted.join(" and ")} left out to fit ${config.maxChars} characters)`,
+      "",
+    );
+  }
+
+  linesOut.push(footer);
+
+  return linesOut.join("\n");
+}
+
+// formatCompactionContext behind the same schema check as layeredContextFor
+export function layeredCompactionContextFor(
+  layered: LayeredProjection,
+  options: CompactionContextOptions,
+): string | null {
+  const updateNotice = schemaUpdateNotice(layeredSchemaStatus(layered));
+  return updateNotice ?? formatCompactionContext(layered.projection, options);
+}
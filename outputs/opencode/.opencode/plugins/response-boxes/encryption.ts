@@ -0,0 +1,191 @@
+// agent-response-boxes: optional encryption at rest for the event store.
+//
+// When ~/.response-boxes/store.key ($RESPONSE_BOXES_KEY_FILE) exists, every
+// line the TypeScript writers append is sealed with AES-256-GCM into an
+// envelope that is itself a JSON line:
+//
+//   {"event":"Encrypted","alg":"aes-256-gcm","key_id":"…","iv":"…","tag":"…","data":"…"}
+//
+// Lines stay independent, so the append protocol, byte-offset projection and
+// compaction work unchanged, and plaintext lines (older events, the bash
+// collectors) can sit between envelopes. Readers that predate encryption skip
+// the unknown event type. An envelope that cannot be opened fails the read
+// instead of being skipped, so a missing key never looks like an empty store.
+
+import { promises as fs } from "fs";
+import * as crypto from "crypto";
+import * as os from "os";
+import * as path from "path";
+
+export const STORE_CIPHER = "aes-256-gcm";
+
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+// Binds envelopes to this format so they cannot be replayed elsewhere
+const ASSOCIATED_DATA = Buffer.from("agent-response-boxes:v1", "utf8");
+
+export interface StoreKey {
+  // First 8 hex characters of the key's SHA-256; names the key in envelopes
+  readonly id: string;
+  readonly key: Buffer;
+}
+
+export interface EncryptedLine {
+  readonly event: "Encrypted";
+  readonly alg: typeof STORE_CIPHER;
+  readonly key_id: string;
+  readonly iv: string;
+  readonly tag: string;
+  readonly data: string;
+}
+
+export class StoreKeyError extends Error {
+  constructor(readonly keyFile: string) {
+    super(
+      `${keyFile} is not a store key (expected ${KEY_BYTES} bytes, base64)`,
+    );
+    this.name = "StoreKeyError";
+  }
+}
+
+export class StoreDecryptionError extends Error {
+  constructor(readonly keyId: string) {
+    super(
+      `Cannot decrypt event store line sealed with key ${keyId}: the key in ${resolveStoreKeyFile()} is missing or different`,
+    );
+    this.name = "StoreDecryptionError";
+  }
+}
+
+export function resolveStoreKeyFile(
+  env: NodeJS.ProcessEnv = process.env,
+): string {
+  return (
+    env.RESPONSE_BOXES_KEY_FILE ??
+    path.join(os.homedir(), ".response-boxes", "store.key")
+  );
+}
+
+export function storeKeyFromBytes(key: Buffer): StoreKey {
+  return {
+    id: crypto.createHash("sha256").update(key).digest("hex").slice(0, 8),
+    key,
+  };
+}
+
+// The configured key; null when the file does not exist (plaintext mode)
+export async function readStoreKey(
+  file: string = resolveStoreKeyFile(),
+): Promise<StoreKey | null> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(file, { encoding: "utf8" });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException | null)?.code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+
+  const key = Buffer.from(raw.trim(), "base64");
+  if (key.length !== KEY_BYTES) {
+    throw new StoreKeyError(file);
+  }
+  return storeKeyFromBytes(key);
+}
+
+// Writes a new random key readable only by the owner; fails if one exists
+export async function createStoreKey(
+  file: string = resolveStoreKeyFile(),
+): Promise<StoreKey> {
+  const key = crypto.randomBytes(KEY_BYTES);
+  await fs.mkdir(path.dirname(file), { recursive: true, mode: 0o700 });
+  await fs.writeFile(file, `${key.toString("base64")}\n`, {
+    flag: "wx",
+    mode: 0o600,
+  });
+  return storeKeyFromBytes(key);
+}
+
+export function isEncryptedRecord(
+  record: Record<string, unknown>,
+): record is Record<string, unknown> & EncryptedLine {
+  return (
+    record.event === "Encrypted" &&
+    record.alg === STORE_CIPHER &&
+    typeof record.key_id === "string" &&
+    typeof record.iv === "string" &&
+    typeof record.tag === "string" &&
+    typeof record.data === "string"
+  );
+}
+
+// Seals one store line (without its newline) into an envelope line
+export function encryptLine(line: string, key: StoreKey): string {
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv(STORE_CIPHER, key.key, iv);
+  cipher.setAAD(ASSOCIATED_DATA);
+  const data = Buffer.concat([cipher.update(line, "utf8"), cipher.final()]);
+  const envelope: EncryptedLine = {
+    event: "Encrypted",
+    alg: STORE_CIPHER,
+    key_id: key.id,
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    data: data.toString("base64"),
+  };
+  return JSON.stringify(envelope);
+}
+
+// The line an envelope seals; throws StoreDecryptionError without the right
+// key or when the envelope was tampered with
+export function decryptRecord(
+  record: EncryptedLine,
+  key: StoreKey | null,
+): string {
+  if (key === null || key.id !== record.key_id) {
+    throw new StoreDecryptionError(record.key_id);
+  }
+  try {
+    const decipher = crypto.createDecipheriv(
+      STORE_CIPHER,
+      key.key,
+      Buffer.from(record.iv, "base64"),
+    );
+    decipher.setAAD(ASSOCIATED_DATA);
+    decipher.setAuthTag(Buffer.from(record.tag, "base64"));
+    return Buffer.concat([
+      decipher.update(Buffer.from(record.data, "base64")),
+      decipher.final(),
+    ]).toString("utf8");
+  } catch {
+    throw new StoreDecryptionError(record.key_id);
+  }
+}
+
+function parseObject(line: string): Record<string, unknown> | null {
+  try {
+    const parsed: unknown = JSON.parse(line);
+    return typeof parsed === "object" &&
+      parsed !== null &&
+      !Array.isArray(parsed)
+      ? (parsed as Record<string, unknown>)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+export function isEncryptedLine(line: string): boolean {
+  const record = parseObject(line.trim());
+  return record !== null && isEncryptedRecord(record);
+}
+
+// The plaintext of a store line: envelopes are opened, anything else is
+// returned unchanged
+export function decryptLine(line: string, key: StoreKey | null): string {
+  const record = parseObject(line.trim());
+  return record !== null && isEncryptedRecord(record)
+    ? decryptRecord(record, key)
+    : line;
+}
@@ -0,0 +1,496 @@
+// agent-response-boxes: event types shared by the TypeScript adapters.
+//
+// Mirrors the schemas in docs/architecture.md. normalizeEvent is lenient and
+// only understands the current schema; older records are upgraded first by
+// the versioned reader in schema.ts.
+
+// Readers map a missing or unrecognised relationship to "unknown", which
+// carries no weight (the bash injector's `else 0`)
+export type EvidenceRelationship =
+  "supports" | "contradicts" | "tangential" | "unknown";
+
+export type LearningRelationship = "synthesizes" | "refines" | "supersedes";
+
+// A box field is text, or a list when its value is a bullet or numbered list
+export type FieldValue = string | string[];
+
+export interface BoxCreatedEvent {
+  readonly event: "BoxCreated";
+  readonly id: string;
+  readonly ts: string;
+  readonly box_type: string;
+  readonly fields: Record<string, FieldValue>;
+  readonly context: Record<string, unknown>;
+  readonly initial_score: number;
+  readonly schema_version: number;
+  // Set when the box had no closing rule when it was captured
+  readonly incomplete?: true;
+  // Share of the type's required fields present (see validation.ts); absent
+  // on boxes captured before validation
+  readonly completeness?: number;
+  // Required fields with no value; absent when none are missing
+  readonly missing_fields?: string[];
+  // Secrets and personal data replaced before the event was written (see
+  // redaction.ts); absent on boxes captured without redaction
+  readonly redactions?: number;
+}
+
+// Diagnostic written next to a BoxCreated that is missing required fields.
+// Projections ignore it; it records how often agents break the box format.
+export interface BoxMalformedEvent {
+  readonly event: "BoxMalformed";
+  readonly id: string;
+  readonly ts: string;
+  readonly box_id: string;
+  readonly box_type: string;
+  readonly missing_fields: string[];
+  readonly completeness: number;
+  readonly context: Record<string, unknown>;
+  readonly schema_version: number;
+}
+
+export interface LearningCreatedEvent {
+  readonly event: "LearningCreated";
+  readonly id: string;
+  readonly ts: string;
+  readonly insight: string;
+  readonly confidence: number;
+  readonly scope: string;
+  readonly tags: string[];
+  readonly level: number;
+  readonly schema_version: number;
+}
+
+export interface EvidenceLinkedEvent {
+  readonly event: "EvidenceLinked";
+  readonly id: string;
+  readonly ts: string;
+  readonly learning_id: string;
+  readonly box_id: string;
+  readonly strength: number;
+  readonly relationship: EvidenceRelationship;
+  readonly schema_version: number;
+}
+
+export interface LearningLinkedEvent {
+  readonly event: "LearningLinked";
+  readonly id: string;
+  readonly ts: string;
+  readonly parent_learning_id: string;
+  readonly child_learning_id: string;
+  readonly relationship: LearningRelationship;
+  readonly schema_version: number;
+}
+
+export interface BoxEnrichedEvent {
+  readonly event: "BoxEnriched";
+  readonly id: string;
+  readonly ts: string;
+  readonly box_id: string;
+  readonly updates: Record<string, unknown>;
+  readonly schema_version: number;
+}
+
+export interface LearningUpdatedEvent {
+  readonly event: "LearningUpdated";
+  readonly id: string;
+  readonly ts: string;
+  readonly learning_id: string;
+  readonly updates: Record<string, unknown>;
+  readonly schema_version: number;
+}
+
+export interface ProposedEvidence {
+  readonly box_id: string;
+  readonly strength: number;
+  readonly relationship: EvidenceRelationship;
+}
+
+// A learning awaiting review. Accepting it appends the LearningCreated and
+// EvidenceLinked events it describes; until then it is not injected.
+export interface LearningProposedEvent {
+  readonly event: "LearningProposed";
+  readonly id: string;
+  readonly ts: string;
+  // ID the learning gets when accepted
+  readonly learning_id: string;
+  readonly insight: string;
+  readonly confidence: number;
+  readonly scope: string;
+  readonly tags: string[];
+  readonly level: number;
+  readonly evidence: ProposedEvidence[];
+  // Who proposed it, e.g. "synthesizer" or "analyze-boxes"
+  readonly source: string;
+  readonly schema_version: number;
+}
+
+export interface ProposalAcceptedEvent {
+  readonly event: "ProposalAccepted";
+  readonly id: string;
+  readonly ts: string;
+  readonly proposal_id: string;
+  readonly learning_id: string;
+  // Fields the reviewer changed before accepting
+  readonly edits: Record<string, unknown>;
+  readonly schema_version: number;
+}
+
+export interface ProposalRejectedEvent {
+  readonly event: "ProposalRejected";
+  readonly id: string;
+  readonly ts: string;
+  readonly proposal_id: string;
+  readonly reason: string;
+  readonly schema_version: number;
+}
+
+export interface AnalysisCompletedEvent {
+  readonly event: "AnalysisCompleted";
+  readonly id: string;
+  readonly ts: string;
+  readonly through_ts: string;
+  readonly stats: Record<string, unknown>;
+  readonly schema_version: number;
+}
+
+// Written by store compaction in place of the lines it rotated into
+// archives; `events` are folded as if they appeared at the snapshot's line
+export interface SnapshotEvent {
+  readonly event: "Snapshot";
+  readonly id: string;
+  readonly ts: string;
+  // Compacted lines were all older than this
+  readonly through_ts: string;
+  readonly events: SnapshotEntry[];
+  // Archive file names (relative to the store) holding the rotated lines
+  readonly archives: string[];
+  readonly schema_version: number;
+}
+
+export type SnapshotEntry =
+  | BoxCreatedEvent
+  | LearningCreatedEvent
+  | EvidenceLinkedEvent
+  | LearningLinkedEvent
+  | BoxEnrichedEvent
+  | LearningUpdatedEvent
+  | AnalysisCompletedEvent
+  | BoxMalformedEvent
+  | LearningProposedEvent
+  | ProposalAcceptedEvent
+  | ProposalRejectedEvent;
+
+export type BoxEvent = SnapshotEntry | SnapshotEvent;
+
+export type BoxEventType = BoxEvent["event"];
+
+const EPOCH_ISO = new Date(0).toISOString();
+
+function asString(value: unknown, fallback: string): string {
+  return typeof value === "string" ? value : fallback;
+}
+
+function asNumber(value: unknown, fallback: number): number {
+  return typeof value === "number" && Number.isFinite(value) ? value : fallback;
+}
+
+function asObject(value: unknown): Record<string, unknown> {
+  return value && typeof value === "object" && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+}
+
+function asStringList(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === "string")
+    : [];
+}
+
+function asFieldRecord(value: unknown): Record<string, FieldValue> {
+  const out: Record<string, FieldValue> = {};
+  for (const [key, raw] of Object.entries(asObject(value))) {
+    if (typeof raw === "string") {
+      out[key] = raw;
+    } else if (Array.isArray(raw)) {
+      out[key] = raw
+        .filter((item) => item !== null && item !== undefined)
+        .map((item) => (typeof item === "string" ? item : String(item)));
+    } else if (raw !== null && raw !== undefined) {
+      out[key] = String(raw);
+    }
+  }
+  return out;
+}
+
+// Same fallback ID scheme as normalize_box in inject-context.sh, so that
+// BoxEnriched/EvidenceLinked events written against legacy boxes still match.
+export function legacyBoxId(record: Record<string, unknown>): string {
+  const context = asObject(record.context);
+  const sessionId = context.session_id;
+  const turn = context.turn_number;
+  if (
+    sessionId !== undefined &&
+    sessionId !== null &&
+    String(sessionId) !== "" &&
+    turn !== undefined &&
+    turn !== null
+  ) {
+    return `sess_${String(sessionId)}_${String(turn)}`;
+  }
+
+  const type = asString(record.type, asString(record.box_type, "Unknown"));
+  const rawTs = asString(record.ts, "");
+  return `legacy_${`${rawTs}_${type}`.replace(/[^A-Za-z0-9_]+/g, "_")}`;
+}
+
+function normalizeBoxCreated(record: Record<string, unknown>): BoxCreatedEvent {
+  return {
+    event: "BoxCreated",
+    id: typeof record.id === "string" ? record.id : legacyBoxId(record),
+    ts: asString(record.ts, EPOCH_ISO),
+    box_type: asString(record.box_type, asString(record.type, "Unknown")),
+    fields: asFieldRecord(record.fields),
+    context: asObject(record.context),
+    initial_score: asNumber(record.initial_score, 50),
+    schema_version: asNumber(record.schema_version, 1),
+    ...(record.incomplete === true ? { incomplete: true as const } : {}),
+    ...(typeof record.completeness === "number" &&
+    Number.isFinite(record.completeness)
+      ? { completeness: record.completeness }
+      : {}),
+    ...(asStringList(record.missing_fields).length > 0
+      ? { missing_fields: asStringList(record.missing_fields) }
+      : {}),
+    ...(typeof record.redactions === "number" &&
+    Number.isFinite(record.redactions)
+      ? { redactions: record.redactions }
+      : {}),
+  };
+}
+
+function normalizeRelationship<T extends string>(
+  value: unknown,
+  allowed: readonly T[],
+  fallback: T,
+): T {
+  return allowed.includes(value as T) ? (value as T) : fallback;
+}
+
+export function normalizeEvent(parsed: unknown): BoxEvent | null {
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    return null;
+  }
+
+  const record = parsed as Record<string, unknown>;
+  const eventType = typeof record.event === "string" ? record.event : "";
+  const ts = asString(record.ts, EPOCH_ISO);
+  const id = asString(record.id, "");
+  const schemaVersion = asNumber(record.schema_version, 1);
+
+  switch (eventType) {
+    case "BoxCreated":
+      return normalizeBoxCreated(record);
+    case "LearningCreated": {
+      const insight = asString(record.insight, "");
+      if (insight === "") {
+        return null;
+      }
+      return {
+        event: "LearningCreated",
+        id:
+          id !== ""
+            ? id
+            : `legacy_learning_${ts.replace(/[^A-Za-z0-9_]+/g, "_")}`,
+        ts,
+        insight,
+        // inject-context.sh treats a missing confidence as 0.5
+        confidence: asNumber(record.confidence, 0.5),
+        scope: asString(record.scope, "global"),
+        tags: asStringList(record.tags),
+        level: asNumber(record.level, 0),
+        schema_version: schemaVersion,
+      };
+    }
+    case "EvidenceLinked": {
+      const learningId = asString(record.learning_id, "");
+      const boxId = asString(record.box_id, "");
+      if (learningId === "" || boxId === "") {
+        return null;
+      }
+      return {
+        event: "EvidenceLinked",
+        id,
+        ts,
+        learning_id: learningId,
+        box_id: boxId,
+        strength: asNumber(record.strength, 0),
+        relationship: normalizeRelationship<EvidenceRelationship>(
+          record.relationship,
+          ["supports", "contradicts", "tangential"],
+          "unknown",
+        ),
+        schema_version: schemaVersion,
+      };
+    }
+    case "LearningLinked": {
+      const parentId = asString(record.parent_learning_id, "");
+      const childId = asString(record.child_learning_id, "");
+      if (parentId === "" || childId === "") {
+        return null;
+      }
+      return {
+        event: "LearningLinked",
+        id,
+        ts,
+        parent_learning_id: parentId,
+        child_learning_id: childId,
+        relationship: normalizeRelationship<LearningRelationship>(
+          record.relationship,
+          ["synthesizes", "refines", "supersedes"],
+          "synthesizes",
+        ),
+        schema_version: schemaVersion,
+      };
+    }
+    case "BoxEnriched": {
+      const boxId = asString(record.box_id, "");
+      if (boxId === "") {
+        return null;
+      }
+      return {
+        event: "BoxEnriched",
+        id,
+        ts,
+        box_id: boxId,
+        updates: asObject(record.updates),
+        schema_version: schemaVersion,
+      };
+    }
+    case "LearningUpdated": {
+      const learningId = asString(record.learning_id, "");
+      if (learningId === "") {
+        return null;
+      }
+      return {
+        event: "LearningUpdated",
+        id,
+        ts,
+        learning_id: learningId,
+        updates: asObject(record.updates),
+        schema_version: schemaVersion,
+      };
+    }
+    case "BoxMalformed": {
+      const boxId = asString(record.box_id, "");
+      if (boxId === "") {
+        return null;
+      }
+      return {
+        event: "BoxMalformed",
+        id,
+        ts,
+        box_id: boxId,
+        box_type: asString(record.box_type, "Unknown"),
+        missing_fields: asStringList(record.missing_fields),
+        completeness: asNumber(record.completeness, 0),
+        context: asObject(record.context),
+        schema_version: schemaVersion,
+      };
+    }
+    case "LearningProposed": {
+      // Decisions refer to the proposal by ID, so one without is unusable
+      const insight = asString(record.insight, "");
+      if (id === "" || insight === "") {
+        return null;
+      }
+      return {
+        event: "LearningProposed",
+        id,
+        ts,
+        learning_id: asString(record.learning_id, `learning_${id}`),
+        insight,
+        confidence: asNumber(record.confidence, 0.5),
+        scope: asString(record.scope, "global"),
+        tags: asStringList(record.tags),
+        level: asNumber(record.level, 0),
+        evidence: (Array.isArray(record.evidence) ? record.evidence : [])
+          .map(asObject)
+          .filter((link) => typeof link.box_id === "string")
+          .map((link) => ({
+            box_id: link.box_id as string,
+            strength: asNumber(link.strength, 0),
+            relationship: normalizeRelationship<EvidenceRelationship>(
+              link.relationship,
+              ["supports", "contradicts", "tangential"],
+              "unknown",
+            ),
+          })),
+        source: asString(record.source, ""),
+        schema_version: schemaVersion,
+      };
+    }
+    case "ProposalAccepted": {
+      const proposalId = asString(record.proposal_id, "");
+      if (proposalId === "") {
+        return null;
+      }
+      return {
+        event: "ProposalAccepted",
+        id,
+        ts,
+        proposal_id: proposalId,
+        learning_id: asString(record.learning_id, ""),
+        edits: asObject(record.edits),
+        schema_version: schemaVersion,
+      };
+    }
+    case "ProposalRejected": {
+      const proposalId = asString(record.proposal_id, "");
+      if (proposalId === "") {
+        return null;
+      }
+      return {
+        event: "ProposalRejected",
+        id,
+        ts,
+        proposal_id: proposalId,
+        reason: asString(record.reason, ""),
+        schema_version: schemaVersion,
+      };
+    }
+    case "AnalysisCompleted":
+      return {
+        event: "AnalysisCompleted",
+        id,
+        ts,
+        through_ts: asString(record.through_ts, ts),
+        stats: asObject(record.stats),
+        schema_version: schemaVersion,
+      };
+    case "Snapshot": {
+      const entries = Array.isArray(record.events) ? record.events : [];
+      return {
+        event: "Snapshot",
+        id,
+        ts,
+        through_ts: asString(record.through_ts, ts),
+        // Snapshots never nest
+        events: entries
+          .map(normalizeEvent)
+          .filter(
+            (entry): entry is SnapshotEntry =>
+              entry !== null && entry.event !== "Snapshot",
+          ),
+        archives: Array.isArray(record.archives)
+          ? record.archives.filter(
+              (name): name is string => typeof name === "string",
+            )
+          : [],
+        schema_version: schemaVersion,
+      };
+    }
+    default:
+      return null;
+  }
+}
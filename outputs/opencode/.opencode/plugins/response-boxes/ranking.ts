@@ -0,0 +1,233 @@
+// agent-response-boxes: effective-confidence ranking for injection.
+//
+// TypeScript port of project_learnings / project_boxes in inject-context.sh.
+// Both agents must pick the same top learnings and boxes from the same store,
+// so the weights, decay and tie-breaking here follow the hook exactly. The
+// prompt relevance blend (see retrieval.ts) only applies when a query is
+// given, which the hook never has at SessionStart.
+
+import type { EvidenceRelationship } from "./events";
+import { normalizeRemoteUrl } from "./git";
+import type { Box, Learning, Projection } from "./projection";
+import {
+  type BoxTypeRegistry,
+  DEFAULT_BOX_TYPES,
+  isHiddenBoxType,
+} from "./registry";
+import {
+  type RelevanceQuery,
+  bm25Scores,
+  boxDocument,
+  learningDocument,
+  queryTerms,
+} from "./retrieval";
+import { isMalformedBox } from "./validation";
+
+export interface RankingConfig {
+  readonly maxLearnings: number;
+  readonly maxBoxes: number;
+  // Weekly decay factor applied as decay^weeks
+  readonly recencyDecay: number;
+  // Boxes below this effective score are not injected
+  readonly minBoxScore: number;
+  // Character budget for the injected block (roughly 4 per token)
+  readonly maxChars: number;
+  // How much prompt relevance can lift a score: a best match is multiplied
+  // by 1 + relevanceWeight; 0 disables the blend
+  readonly relevanceWeight: number;
+}
+
+export interface RankingContext {
+  // Normalized git remote of the current worktree ("" when unknown); see
+  // normalizeRemoteUrl
+  readonly repo: string;
+  readonly now: Date;
+  // What the session is about; without it ranking ignores prompt relevance
+  readonly query?: RelevanceQuery;
+}
+
+export interface RankedLearning extends Learning {
+  readonly evidence_count: number;
+  readonly effective_confidence: number;
+  // BM25 match against the query, normalized to [0, 1]
+  readonly prompt_relevance: number;
+  readonly relevance_score: number;
+}
+
+export interface RankedBox extends Box {
+  readonly effective_score: number;
+  readonly prompt_relevance: number;
+  readonly relevance_score: number;
+  readonly age_weeks: number;
+}
+
+export const RELATIONSHIP_WEIGHTS: Readonly<
+  Record<EvidenceRelationship, number>
+> = {
+  supports: 1.0,
+  tangential: 0.3,
+  contradicts: -0.5,
+  unknown: 0,
+};
+
+export const REPO_BOOST = 1.5;
+
+const WEEK_SECONDS = 604800;
+
+function positiveInt(value: string | undefined, fallback: number): number {
+  const parsed = Number.parseInt(value ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+export function readRankingConfig(
+  env: NodeJS.ProcessEnv = process.env,
+): RankingConfig {
+  const decay = Number.parseFloat(env.BOX_RECENCY_DECAY ?? "");
+  const weight = Number.parseFloat(env.BOX_RELEVANCE_WEIGHT ?? "");
+  return {
+    maxLearnings: positiveInt(env.BOX_INJECT_LEARNINGS, 3),
+    maxBoxes: positiveInt(env.BOX_INJECT_BOXES, 5),
+    recencyDecay: Number.isFinite(decay) && decay > 0 ? decay : 0.95,
+    minBoxScore: 60,
+    maxChars: positiveInt(env.BOX_INJECT_MAX_CHARS, 2000),
+    relevanceWeight: Number.isFinite(weight) && weight >= 0 ? weight : 1.0,
+  };
+}
+
+export function weeksSince(ts: string, now: Date): number {
+  // The hook strips fractional seconds before fromdateiso8601
+  const time = new Date(ts.replace(/\.[0-9]+/, "")).getTime();
+  const epochSeconds = Number.isFinite(time) ? time / 1000 : 0;
+  return (now.getTime() / 1000 - epochSeconds) / WEEK_SECONDS;
+}
+
+export function recencyFactor(ts: string, now: Date, decay: number): number {
+  return Math.pow(decay, weeksSince(ts, now));
+}
+
+export function evidenceFactor(learning: Learning): number {
+  if (learning.evidence.length === 0) {
+    return 0.5;
+  }
+
+  const total = learning.evidence.reduce(
+    (sum, link) =>
+      sum + link.strength * RELATIONSHIP_WEIGHTS[link.relationship],
+    0,
+  );
+  return total / learning.evidence.length;
+}
+
+// Bash collectors record the raw `remote.origin.url`, so normalize on read
+export function boxRepo(box: Box | undefined): string {
+  const remote = box?.context.git_remote;
+  return typeof remote === "string" ? normalizeRemoteUrl(remote) : "";
+}
+
+// Normalized BM25 score of each document against the context's query
+function promptRelevance(
+  documents: string[],
+  config: RankingConfig,
+  context: RankingContext,
+): number[] {
+  const terms =
+    context.query && config.relevanceWeight > 0
+      ? queryTerms(context.query)
+      : [];
+  return bm25Scores(documents, terms);
+}
+
+function relevanceBlend(config: RankingConfig, relevance: number): number {
+  return 1 + config.relevanceWeight * relevance;
+}
+
+export function rankLearnings(
+  projection: Projection,
+  config: RankingConfig,
+  context: RankingContext,
+): RankedLearning[] {
+  const boxesById = new Map(projection.boxes.map((box) => [box.id, box]));
+  const relevance = promptRelevance(
+    projection.learnings.map(learningDocument),
+    config,
+    context,
+  );
+
+  const ranked = projection.learnings.map((learning, index): RankedLearning => {
+    const effective =
+      learning.confidence *
+      (0.5 + evidenceFactor(learning) * 0.5) *
+      recencyFactor(learning.ts, context.now, config.recencyDecay);
+
+    const repoMatch =
+      learning.scope === "repo" &&
+      context.repo !== "" &&
+      learning.evidence.some(
+        (link) => boxRepo(boxesById.get(link.box_id)) === context.repo,
+      );
+
+    return {
+      ...learning,
+      evidence_count: learning.evidence.length,
+      effective_confidence: effective,
+      prompt_relevance: relevance[index],
+      relevance_score:
+        effective *
+        (repoMatch ? REPO_BOOST : 1.0) *
+        relevanceBlend(config, relevance[index]),
+    };
+  });
+
+  // Meta-learnings first, then by relevance
+  return ranked.sort(
+    (a, b) => b.level - a.level || b.relevance_score - a.relevance_score,
+  );
+}
+
+// Hidden registry types (e.g. Sycophancy, an internal protocol since v0.6.0)
+// may still exist in older stores but are never injected, and neither are
+// boxes missing a required field of their type
+export function rankBoxes(
+  projection: Projection,
+  config: RankingConfig,
+  context: RankingContext,
+  registry: BoxTypeRegistry = DEFAULT_BOX_TYPES,
+): RankedBox[] {
+  const candidates = projection.boxes
+    .filter(
+      (box) =>
+        !isHiddenBoxType(registry, box.box_type) &&
+        !isMalformedBox(box.box_type, box.fields, registry),
+    )
+    .map((box) => {
+      const ageWeeks = weeksSince(box.ts, context.now);
+      return {
+        box,
+        ageWeeks,
+        effective: box.score * Math.pow(config.recencyDecay, ageWeeks),
+      };
+    })
+    .filter(({ effective }) => effective >= config.minBoxScore);
+  const relevance = promptRelevance(
+    candidates.map(({ box }) => boxDocument(box)),
+    config,
+    context,
+  );
+
+  return candidates
+    .map(({ box, ageWeeks, effective }, index): RankedBox => {
+      const repoMatch = context.repo !== "" && boxRepo(box) === context.repo;
+
+      return {
+        ...box,
+        effective_score: effective,
+        prompt_relevance: relevance[index],
+        relevance_score:
+          effective *
+          (repoMatch ? REPO_BOOST : 1.0) *
+          relevanceBlend(config, relevance[index]),
+        age_weeks: ageWeeks,
+      };
+    })
+    .sort((a, b) => b.relevance_score - a.relevance_score);
+}
@@ -0,0 +1,216 @@
+// agent-response-boxes: the box-type registry shared by the parser, scorer
+// and injector.
+//
+// box-types.json defines the documented types; the bash hooks read the same
+// file (installed as ~/.response-boxes/box-types.default.json). Teams add or
+// override types in ~/.response-boxes/box-types.json ($RESPONSE_BOXES_BOX_TYPES)
+// using the same layout; entries are matched to defaults by name.
+
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import defaultBoxTypes from "./box-types.json";
+
+export type BoxPlacement = "inline" | "end";
+
+export interface BoxTypeDefinition {
+  readonly name: string;
+  readonly emoji: string;
+  // Other header spellings, e.g. "Follow Ups" for FollowUps
+  readonly aliases: string[];
+  readonly placement: BoxPlacement;
+  readonly default_score: number;
+  // Field keys as stored in BoxCreated.fields (lowercase, underscored)
+  readonly required_fields: string[];
+  readonly optional_fields: string[];
+  // Recorded but never injected (e.g. the retired Sycophancy box)
+  readonly hidden: boolean;
+  // Still open when a session is compacted (assumptions, warnings, follow-ups)
+  readonly carry_over: boolean;
+}
+
+export interface BoxTypeRegistry {
+  readonly types: BoxTypeDefinition[];
+  // Score for box types the registry does not define
+  readonly unknown_score: number;
+}
+
+type RawRecord = Record<string, unknown>;
+
+function isRecord(value: unknown): value is RawRecord {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function stringList(value: unknown): string[] | undefined {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === "string")
+    : undefined;
+}
+
+// Matches parser field keys: "Follow Ups" and "follow_ups" name the same field
+export function fieldKey(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, "_");
+}
+
+// Type names compare without case, spaces or punctuation
+function typeKey(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+function hasName(type: BoxTypeDefinition, name: string): boolean {
+  const key = typeKey(name);
+  return [type.name, ...type.aliases].some((alias) => typeKey(alias) === key);
+}
+
+// Emoji compare with and without the U+FE0F presentation selector
+function emojiKey(emoji: string): string {
+  return emoji.replace(/\uFE0F/g, "");
+}
+
+function withOverrides(
+  base: BoxTypeDefinition | undefined,
+  raw: RawRecord,
+  unknownScore: number,
+): BoxTypeDefinition | null {
+  const name = typeof raw.name === "string" ? raw.name.trim() : "";
+  const emoji =
+    typeof raw.emoji === "string" && raw.emoji.trim() !== ""
+      ? raw.emoji.trim()
+      : base?.emoji;
+  if (name === "" || !emoji) {
+    return null;
+  }
+
+  const score = raw.default_score;
+  return {
+    name: base?.name ?? name,
+    emoji,
+    aliases: stringList(raw.aliases) ?? base?.aliases ?? [],
+    placement:
+      raw.placement === "inline" || raw.placement === "end"
+        ? raw.placement
+        : (base?.placement ?? "inline"),
+    default_score:
+      typeof score === "number" && Number.isFinite(score)
+        ? score
+        : (base?.default_score ?? unknownScore),
+    required_fields: (
+      stringList(raw.required_fields) ??
+      base?.required_fields ??
+      []
+    ).map(fieldKey),
+    optional_fields: (
+      stringList(raw.optional_fields) ??
+      base?.optional_fields ??
+      []
+    ).map(fieldKey),
+    hidden:
+      typeof raw.hidden === "boolean" ? raw.hidden : (base?.hidden ?? false),
+    carry_over:
+      typeof raw.carry_over === "boolean"
+        ? raw.carry_over
+        : (base?.carry_over ?? false),
+  };
+}
+
+// Applies a registry file on top of `base`: entries with a known name or
+// alias override that type field by field, other entries add new types.
+// Malformed entries are skipped.
+export function mergeBoxTypes(
+  base: BoxTypeRegistry,
+  raw: unknown,
+): BoxTypeRegistry {
+  if (!isRecord(raw)) {
+    return base;
+  }
+
+  const unknownScore =
+    typeof raw.unknown_score === "number" && Number.isFinite(raw.unknown_score)
+      ? raw.unknown_score
+      : base.unknown_score;
+  const types = [...base.types];
+
+  for (const entry of Array.isArray(raw.types) ? raw.types : []) {
+    if (!isRecord(entry) || typeof entry.name !== "string") {
+      continue;
+    }
+    const name = entry.name;
+    const index = types.findIndex((type) => hasName(type, name));
+    const merged = withOverrides(types[index], entry, unknownScore);
+    if (merged === null) {
+      continue;
+    }
+    if (index === -1) {
+      types.push(merged);
+    } else {
+      types[index] = merged;
+    }
+  }
+
+  return { types, unknown_score: unknownScore };
+}
+
+export const DEFAULT_BOX_TYPES: BoxTypeRegistry = mergeBoxTypes(
+  { types: [], unknown_score: 40 },
+  defaultBoxTypes,
+);
+
+export function resolveBoxTypesFile(
+  env: NodeJS.ProcessEnv = process.env,
+): string {
+  return (
+    env.RESPONSE_BOXES_BOX_TYPES ??
+    path.join(os.homedir(), ".response-boxes", "box-types.json")
+  );
+}
+
+// Defaults plus the team's custom types; a missing or unreadable file
+// leaves the defaults in place
+export async function readBoxTypeRegistry(
+  file: string = resolveBoxTypesFile(),
+): Promise<BoxTypeRegistry> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(file, { encoding: "utf8" });
+  } catch {
+    return DEFAULT_BOX_TYPES;
+  }
+
+  try {
+    return mergeBoxTypes(DEFAULT_BOX_TYPES, JSON.parse(raw));
+  } catch {
+    return DEFAULT_BOX_TYPES;
+  }
+}
+
+// Looks a header up by type name or alias first, then by emoji
+export function findBoxType(
+  registry: BoxTypeRegistry,
+  name: string,
+  emoji = "",
+): BoxTypeDefinition | null {
+  const byName = registry.types.find((type) => hasName(type, name));
+  if (byName) {
+    return byName;
+  }
+  return (
+    registry.types.find(
+      (type) => emoji !== "" && emojiKey(type.emoji) === emojiKey(emoji),
+    ) ?? null
+  );
+}
+
+export function isHiddenBoxType(
+  registry: BoxTypeRegistry,
+  name: string,
+): boolean {
+  return findBoxType(registry, name)?.hidden ?? false;
+}
+
+export function isCarriedOverBoxType(
+  registry: BoxTypeRegistry,
+  name: string,
+): boolean {
+  return findBoxType(registry, name)?.carry_over ?? false;
+}
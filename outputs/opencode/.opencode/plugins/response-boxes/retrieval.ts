@@ -0,0 +1,197 @@
+// agent-response-boxes: prompt-relevant retrieval for injection.
+//
+// Scores learnings (insight and tags) and boxes (type and field values)
+// against the user's first prompt and the worktree's languages with Okapi
+// BM25, computed locally over the candidates being ranked. ranking.ts blends
+// the normalized score into relevance_score, so with no query the ranking is
+// exactly the confidence/recency one the bash hook uses.
+
+import { readdir } from "fs/promises";
+
+import { fieldText } from "./parser";
+import type { Box, Learning } from "./projection";
+
+export interface RelevanceQuery {
+  // The first user prompt of the session ("" when not known yet)
+  readonly prompt: string;
+  // Languages of the worktree, see detectWorktreeLanguages
+  readonly languages: readonly string[];
+}
+
+// Standard BM25 parameters
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const STOP_WORDS = new Set([
+  "a",
+  "an",
+  "and",
+  "are",
+  "as",
+  "at",
+  "be",
+  "but",
+  "by",
+  "can",
+  "do",
+  "for",
+  "from",
+  "how",
+  "i",
+  "if",
+  "in",
+  "is",
+  "it",
+  "me",
+  "my",
+  "of",
+  "on",
+  "or",
+  "please",
+  "so",
+  "that",
+  "the",
+  "this",
+  "to",
+  "we",
+  "what",
+  "when",
+  "with",
+  "you",
+]);
+
+// Marker files at the worktree root and the language they imply
+const LANGUAGE_MARKERS = new Map<string, string>([
+  ["Cargo.toml", "rust"],
+  ["Gemfile", "ruby"],
+  ["build.gradle", "java"],
+  ["composer.json", "php"],
+  ["go.mod", "go"],
+  ["package.json", "javascript"],
+  ["pom.xml", "java"],
+  ["pyproject.toml", "python"],
+  ["requirements.txt", "python"],
+  ["tsconfig.json", "typescript"],
+]);
+
+const LANGUAGE_EXTENSIONS = new Map<string, string>([
+  ["go", "go"],
+  ["java", "java"],
+  ["js", "javascript"],
+  ["kt", "kotlin"],
+  ["php", "php"],
+  ["py", "python"],
+  ["rb", "ruby"],
+  ["rs", "rust"],
+  ["sh", "bash"],
+  ["swift", "swift"],
+  ["ts", "typescript"],
+  ["tsx", "typescript"],
+]);
+
+// Extra query terms per language, so "index.ts" in a box field matches a
+// TypeScript worktree
+const LANGUAGE_ALIASES = new Map<string, readonly string[]>([
+  ["javascript", ["js", "node"]],
+  ["python", ["py"]],
+  ["rust", ["rs", "cargo"]],
+  ["typescript", ["ts", "tsx"]],
+]);
+
+function stem(token: string): string {
+  return token.length > 3 && token.endsWith("s") && !token.endsWith("ss")
+    ? token.slice(0, -1)
+    : token;
+}
+
+// Lower-cased alphanumeric words without stop words, plurals folded
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+/g) ?? [])
+    .filter((token) => !STOP_WORDS.has(token))
+    .map(stem);
+}
+
+export function queryTerms(query: RelevanceQuery): string[] {
+  const languages = query.languages.flatMap((language) => [
+    language,
+    ...(LANGUAGE_ALIASES.get(language) ?? []),
+  ]);
+  return [
+    ...new Set([...tokenize(query.prompt), ...tokenize(languages.join(" "))]),
+  ];
+}
+
+export function learningDocument(learning: Learning): string {
+  return [learning.insight, ...learning.tags].join(" ");
+}
+
+export function boxDocument(box: Box): string {
+  return [box.box_type, ...Object.values(box.fields).map(fieldText)].join(" ");
+}
+
+// BM25 score of each document for the query terms, divided by the best score
+// so results fall in [0, 1]; all zeros when nothing matches
+export function bm25Scores(documents: string[], terms: string[]): number[] {
+  if (terms.length === 0 || documents.length === 0) {
+    return documents.map(() => 0);
+  }
+
+  const tokenized = documents.map(tokenize);
+  const averageLength =
+    tokenized.reduce((sum, tokens) => sum + tokens.length, 0) /
+      tokenized.length || 1;
+  const documentFrequency = new Map<string, number>();
+  for (const tokens of tokenized) {
+    for (const token of new Set(tokens)) {
+      documentFrequency.set(token, (documentFrequency.get(token) ?? 0) + 1);
+    }
+  }
+
+  const scores = tokenized.map((tokens) => {
+    const frequency = new Map<string, number>();
+    for (const token of tokens) {
+      frequency.set(token, (frequency.get(token) ?? 0) + 1);
+    }
+    return terms.reduce((score, term) => {
+      const tf = frequency.get(term) ?? 0;
+      if (tf === 0) {
+        return score;
+      }
+      const df = documentFrequency.get(term) ?? 0;
+      const idf = Math.log(1 + (documents.length - df + 0.5) / (df + 0.5));
+      const norm =
+        BM25_K1 * (1 - BM25_B + (BM25_B * tokens.length) / averageLength);
+      return score + (idf * tf * (BM25_K1 + 1)) / (tf + norm);
+    }, 0);
+  });
+
+  const best = Math.max(...scores);
+  return best > 0 ? scores.map((score) => score / best) : scores;
+}
+
+// Languages suggested by marker files and source files at the worktree root,
+// sorted; empty when the directory cannot be read
+export async function detectWorktreeLanguages(dir: string): Promise<string[]> {
+  if (!dir) {
+    return [];
+  }
+
+  let names: string[];
+  try {
+    names = await readdir(dir);
+  } catch {
+    return [];
+  }
+
+  const languages = new Set<string>();
+  for (const name of names) {
+    const extension = /\.([A-Za-z0-9]+)$/.exec(name)?.[1] ?? "";
+    const language =
+      LANGUAGE_MARKERS.get(name) ??
+      LANGUAGE_EXTENSIONS.get(extension.toLowerCase());
+    if (language !== undefined) {
+      languages.add(language);
+    }
+  }
+  return [...languages].sort();
+}
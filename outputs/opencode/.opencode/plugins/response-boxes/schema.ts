@@ -0,0 +1,194 @@
+// agent-response-boxes: versioned reader for the event store.
+//
+// Every raw line is upgraded one schema version at a time until it reaches
+// SUPPORTED_SCHEMA_VERSION, then normalized into a typed event. Lines written
+// by a newer agent (schema_version > SUPPORTED_SCHEMA_VERSION) are never
+// projected: adapters inject an update notice instead of guessing. Encrypted
+// lines are opened with the store key first (see encryption.ts).
+
+import { type StoreKey, decryptRecord, isEncryptedRecord } from "./encryption";
+import { type BoxEvent, legacyBoxId, normalizeEvent } from "./events";
+
+export const SUPPORTED_SCHEMA_VERSION = 1;
+
+type RawRecord = Record<string, unknown>;
+
+type Upgrade = (record: RawRecord) => RawRecord;
+
+// v0: pre-v4 analytics lines without `event`/`id`/`box_type`
+function upgradeV0ToV1(record: RawRecord): RawRecord {
+  const hasEvent = typeof record.event === "string" && record.event !== "";
+  if (hasEvent && record.event !== "BoxCreated") {
+    return { ...record, schema_version: 1 };
+  }
+
+  return {
+    event: "BoxCreated",
+    // Event-less lines always get the hook's derived ID so enrichments match
+    id:
+      hasEvent && typeof record.id === "string"
+        ? record.id
+        : legacyBoxId(record),
+    ts: record.ts,
+    box_type: record.box_type ?? record.type,
+    fields: record.fields,
+    context: record.context,
+    initial_score: record.initial_score,
+    schema_version: 1,
+  };
+}
+
+// UPGRADES[n] converts a version-n record into a version-(n + 1) record.
+// Bump SUPPORTED_SCHEMA_VERSION together with adding UPGRADES[1] for v2.
+const UPGRADES: Readonly<Record<number, Upgrade>> = {
+  0: upgradeV0ToV1,
+};
+
+export function detectSchemaVersion(record: RawRecord): number {
+  if (typeof record.schema_version === "number") {
+    return record.schema_version;
+  }
+  // inject-context.sh treats event-less lines as legacy and anything else
+  // without a version as v1
+  return typeof record.event === "string" && record.event !== "" ? 1 : 0;
+}
+
+export type UpgradeResult =
+  | { readonly ok: true; readonly record: RawRecord }
+  | { readonly ok: false; readonly version: number };
+
+export function upgradeRecord(record: RawRecord): UpgradeResult {
+  let version = detectSchemaVersion(record);
+  if (version > SUPPORTED_SCHEMA_VERSION) {
+    return { ok: false, version };
+  }
+
+  let current = record;
+  while (version < SUPPORTED_SCHEMA_VERSION) {
+    const upgrade = UPGRADES[Math.max(0, Math.floor(version))];
+    if (!upgrade) {
+      // No path forward from this version; treat the line as current
+      break;
+    }
+    current = upgrade(current);
+    version = detectSchemaVersion(current);
+  }
+
+  return { ok: true, record: current };
+}
+
+export interface StoreReadResult {
+  readonly events: BoxEvent[];
+  // Highest schema_version seen on any parseable line
+  readonly newestSchemaVersion: number;
+  // Lines skipped because they are newer than SUPPORTED_SCHEMA_VERSION
+  readonly unsupportedCount: number;
+}
+
+function parseRecord(line: string): RawRecord | null {
+  const trimmed = line.trim();
+  if (trimmed === "") {
+    return null;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(trimmed);
+  } catch {
+    return null;
+  }
+
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    return null;
+  }
+  return parsed as RawRecord;
+}
+
+export type StoreLine =
+  | {
+      readonly kind: "event";
+      readonly schemaVersion: number;
+      readonly event: BoxEvent;
+    }
+  // Newer than SUPPORTED_SCHEMA_VERSION
+  | { readonly kind: "unsupported"; readonly schemaVersion: number }
+  // Blank, malformed or unknown; schemaVersion is set when the line is JSON
+  | { readonly kind: "skipped"; readonly schemaVersion: number | null };
+
+// Throws StoreDecryptionError for an encrypted line without the right key
+export function readStoreLine(
+  line: string,
+  key: StoreKey | null = null,
+): StoreLine {
+  const parsed = parseRecord(line);
+  const record =
+    parsed && isEncryptedRecord(parsed)
+      ? parseRecord(decryptRecord(parsed, key))
+      : parsed;
+  if (!record) {
+    return { kind: "skipped", schemaVersion: null };
+  }
+
+  const schemaVersion = detectSchemaVersion(record);
+  const upgraded = upgradeRecord(record);
+  if (!upgraded.ok) {
+    return { kind: "unsupported", schemaVersion };
+  }
+
+  const event = normalizeEvent(upgraded.record);
+  return event
+    ? { kind: "event", schemaVersion, event }
+    : { kind: "skipped", schemaVersion };
+}
+
+export function parseEventLine(line: string): BoxEvent | null {
+  const parsed = readStoreLine(line);
+  return parsed.kind === "event" ? parsed.event : null;
+}
+
+export function readEventStore(
+  raw: string,
+  key: StoreKey | null = null,
+): StoreReadResult {
+  const events: BoxEvent[] = [];
+  let newestSchemaVersion = 0;
+  let unsupportedCount = 0;
+
+  for (const line of raw.split(/\r?\n/)) {
+    const parsed = readStoreLine(line, key);
+    if (parsed.schemaVersion !== null) {
+      newestSchemaVersion = Math.max(newestSchemaVersion, parsed.schemaVersion);
+    }
+
+    if (parsed.kind === "unsupported") {
+      unsupportedCount += 1;
+    } else if (parsed.kind === "event") {
+      events.push(parsed.event);
+    }
+  }
+
+  return { events, newestSchemaVersion, unsupportedCount };
+}
+
+export function parseEvents(
+  raw: string,
+  key: StoreKey | null = null,
+): BoxEvent[] {
+  return readEventStore(raw, key).events;
+}
+
+export function schemaUpdateNotice(
+  result: Pick<StoreReadResult, "newestSchemaVersion" | "unsupportedCount">,
+): string | null {
+  if (result.unsupportedCount === 0) {
+    return null;
+  }
+
+  return [
+    "RESPONSE BOXES: update required.",
+    "",
+    `The event store contains ${result.unsupportedCount} event(s) with schema_version ${result.newestSchemaVersion}, but this OpenCode plugin only supports schema_version ${SUPPORTED_SCHEMA_VERSION}.`,
+    "Prior learnings were NOT injected to avoid projecting them incorrectly.",
+    "Please update the plugin (re-run install.sh --install-opencode) to restore cross-session learnings.",
+  ].join("\n");
+}
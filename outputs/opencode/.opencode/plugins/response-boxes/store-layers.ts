@@ -0,0 +1,277 @@
+// agent-response-boxes: layered global and project-local event stores.
+//
+// Besides the personal store (~/.response-boxes/analytics/boxes.jsonl), a
+// repository may commit a shared store at .response-boxes/boxes.jsonl, for
+// example to hold the team's learnings. Readers project each store on its own
+// and merge the results: the project store takes precedence, so an ID it
+// defines hides the same ID in the global store. When both stores exist,
+// merged learnings and boxes record the store they came from in `store`.
+//
+// Captured boxes go to one store, the write target: the global store unless
+// the repository's policy (`write_target`) or RESPONSE_BOXES_WRITE_TARGET
+// selects the project store. The project store is shared, so it is never
+// encrypted with a personal key, and its projection cache lives next to the
+// global store instead of in the repository.
+
+import { promises as fs } from "fs";
+import * as crypto from "crypto";
+import * as path from "path";
+
+import { type Projection, type Proposal, timeOf } from "./projection";
+import {
+  type IndexedProjection,
+  projectionCachePath,
+  readIndexedProjection,
+} from "./projection-cache";
+import type { RepoPolicy } from "./repo-policy";
+import { appendEvents, resolveStoreFile } from "./store";
+
+export type StoreSource = "project" | "global";
+
+export const PROJECT_STORE_FILE = path.join(".response-boxes", "boxes.jsonl");
+
+export interface StoreLayer {
+  readonly source: StoreSource;
+  readonly storeFile: string;
+  readonly cacheFile: string;
+  // Committed and shared with the team: read and written without the key
+  readonly shared: boolean;
+}
+
+export interface LayerProjection {
+  readonly source: StoreSource;
+  readonly projection: Projection;
+}
+
+export interface LayeredProjection {
+  // Layers whose store exists, in precedence order
+  readonly layers: {
+    readonly layer: StoreLayer;
+    readonly indexed: IndexedProjection;
+  }[];
+  // Layers whose store exists but could not be read (a corrupt line, or a
+  // missing key); the projection is merged from the others
+  readonly unreadable: {
+    readonly layer: StoreLayer;
+    readonly error: unknown;
+  }[];
+  readonly projection: Projection;
+}
+
+// The project store's cache, named after the store's path so each checkout
+// has its own
+function projectCachePath(storeFile: string, globalStoreFile: string): string {
+  const hash = crypto
+    .createHash("sha256")
+    .update(path.resolve(storeFile))
+    .digest("hex")
+    .slice(0, 12);
+  return path.join(
+    path.dirname(globalStoreFile),
+    "project-caches",
+    `${hash}.projection.json`,
+  );
+}
+
+// The project store of the worktree at `root` (when given) and the global
+// store, in precedence order
+export function storeLayers(
+  root: string | null,
+  env: NodeJS.ProcessEnv = process.env,
+): StoreLayer[] {
+  const globalStoreFile = resolveStoreFile(env);
+  const global: StoreLayer = {
+    source: "global",
+    storeFile: globalStoreFile,
+    cacheFile: projectionCachePath(globalStoreFile),
+    shared: false,
+  };
+  if (!root) {
+    return [global];
+  }
+
+  const projectStoreFile = path.join(root, PROJECT_STORE_FILE);
+  // RESPONSE_BOXES_FILE may point into the worktree; read it only once
+  if (path.resolve(projectStoreFile) === path.resolve(globalStoreFile)) {
+    return [global];
+  }
+  return [
+    {
+      source: "project",
+      storeFile: projectStoreFile,
+      cacheFile: projectCachePath(projectStoreFile, globalStoreFile),
+      shared: true,
+    },
+    global,
+  ];
+}
+
+// RESPONSE_BOXES_WRITE_TARGET overrides the repository's policy
+export function resolveWriteTarget(
+  policy: RepoPolicy,
+  env: NodeJS.ProcessEnv = process.env,
+): StoreSource {
+  const override = env.RESPONSE_BOXES_WRITE_TARGET;
+  return override === "project" || override === "global"
+    ? override
+    : policy.writeTarget;
+}
+
+// The layer captured events go to; the global layer when `target` has none
+export function writeLayer(
+  layers: readonly StoreLayer[],
+  target: StoreSource,
+): StoreLayer {
+  return (
+    layers.find((layer) => layer.source === target) ??
+    layers.find((layer) => layer.source === "global") ??
+    layers[0]
+  );
+}
+
+export async function appendToLayer(
+  layer: StoreLayer,
+  events: readonly object[],
+): Promise<void> {
+  await appendEvents(
+    layer.storeFile,
+    events,
+    undefined,
+    layer.shared ? null : undefined,
+  );
+}
+
+// The first item per ID across layers, with the layer it came from
+function firstById<T extends { readonly id: string }>(
+  layers: readonly LayerProjection[],
+  items: (projection: Projection) => readonly T[],
+): { readonly source: StoreSource; readonly item: T }[] {
+  const seen = new Set<string>();
+  const merged: { readonly source: StoreSource; readonly item: T }[] = [];
+  for (const { source, projection } of layers) {
+    for (const item of items(projection)) {
+      if (!seen.has(item.id)) {
+        seen.add(item.id);
+        merged.push({ source, item });
+      }
+    }
+  }
+  return merged;
+}
+
+// Merges projections in precedence order: boxes, learnings and proposals of
+// earlier layers hide those with the same ID in later ones, and the latest
+// analysis of any layer wins. Boxes, learnings and proposals are labelled
+// with their layer; a single layer is returned unlabelled.
+export function mergeProjections(
+  layers: readonly LayerProjection[],
+): Projection {
+  if (layers.length === 1) {
+    return layers[0].projection;
+  }
+
+  const analyses = layers
+    .map(({ projection }) => projection.lastAnalysis)
+    .filter((analysis) => analysis !== null)
+    .sort((a, b) => timeOf(b.ts) - timeOf(a.ts));
+  return {
+    boxes: firstById(layers, (projection) => projection.boxes).map(
+      ({ source, item }) => ({ ...item, store: source }),
+    ),
+    learnings: firstById(layers, (projection) => projection.learnings).map(
+      ({ source, item }) => ({ ...item, store: source }),
+    ),
+    proposals: firstById(layers, (projection) => projection.proposals).map(
+      ({ source, item }) => ({ ...item, store: source }),
+    ),
+    lastAnalysis: analyses[0] ?? null,
+  };
+}
+
+// Events no layer could read because a newer schema wrote them, and the
+// newest schema version seen in any layer
+export function layeredSchemaStatus(layered: LayeredProjection): {
+  readonly unsupportedCount: number;
+  readonly newestSchemaVersion: number;
+} {
+  const caches = layered.layers.map(({ indexed }) => indexed.cache);
+  return {
+    unsupportedCount: caches.reduce(
+      (sum, cache) => sum + cache.unsupported_count,
+      0,
+    ),
+    newestSchemaVersion: Math.max(
+      ...caches.map((cache) => cache.newest_schema_version),
+    ),
+  };
+}
+
+// The layer a proposal was read from, where decisions on it belong
+export function proposalLayer(
+  layered: LayeredProjection,
+  proposal: Proposal,
+): StoreLayer {
+  return (
+    layered.layers.find(({ layer }) => layer.source === proposal.store)
+      ?.layer ?? layered.layers[0].layer
+  );
+}
+
+// Reads every layer through its cache. `previous` is the result of an
+// earlier call in this process; null when no layer's store exists. A layer
+// that cannot be read is listed in `unreadable` and left out of the merge;
+// when no layer can be read, the first layer's error is thrown.
+export async function readLayeredProjection(
+  layers: readonly StoreLayer[],
+  previous: LayeredProjection | null = null,
+): Promise<LayeredProjection | null> {
+  const read: LayeredProjection["layers"] = [];
+  const unreadable: LayeredProjection["unreadable"] = [];
+  for (const layer of layers) {
+    const before =
+      previous?.layers.find((entry) => entry.layer.source === layer.source)
+        ?.indexed ?? null;
+    if (before === null && layer.shared) {
+      // The cache directory is outside the repository and may not exist yet
+      await fs
+        .mkdir(path.dirname(layer.cacheFile), { recursive: true })
+        .catch(() => undefined);
+    }
+    try {
+      const indexed = await readIndexedProjection(
+        layer.storeFile,
+        before,
+        layer.cacheFile,
+        layer.shared ? null : undefined,
+      );
+      if (indexed) {
+        read.push({ layer, indexed });
+      }
+    } catch (error) {
+      unreadable.push({ layer, error });
+    }
+  }
+  if (read.length === 0) {
+    if (unreadable.length > 0) {
+      throw unreadable[0].error;
+    }
+    return null;
+  }
+
+  const unchanged =
+    previous !== null &&
+    previous.layers.length === read.length &&
+    read.every(({ indexed }) => indexed.mode === "unchanged");
+  return {
+    layers: read,
+    unreadable,
+    projection: unchanged
+      ? previous.projection
+      : mergeProjections(
+          read.map(({ layer, indexed }) => ({
+            source: layer.source,
+            projection: indexed.projection,
+          })),
+        ),
+  };
+}
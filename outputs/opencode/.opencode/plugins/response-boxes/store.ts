@@ -0,0 +1,312 @@
+// agent-response-boxes: cross-process safe appends to the event store.
+//
+// Claude Code, OpenCode, Cursor and Windsurf all append to the same JSONL file.
+// Writers agree on an advisory lock file next to the store so a large batch
+// can never interleave with another writer's line. The bash collectors
+// implement the same protocol (see "Concurrent Writers" in
+// docs/architecture.md); change both together.
+//
+//   1. Write the batch to <store>.<pid>.<random>.tmp
+//   2. Create <store>.lock exclusively, containing "<pid> <host> <epoch>"
+//   3. Rename the temp file to <store>.wal.<store size> (the write-ahead file)
+//   4. Append the write-ahead file to the store, then delete it
+//   5. Delete the lock if it is still ours
+//
+// A lock held by a dead process on this host, or older than the stale
+// threshold, is taken over through <store>.lock.takeover and any write-ahead
+// file it left behind is rolled forward, so a crashed append is completed
+// rather than left torn.
+//
+// With a store key configured, each line is encrypted before it is written
+// (see encryption.ts); the protocol is the same for envelopes.
+
+import { promises as fs } from "fs";
+import * as crypto from "crypto";
+import * as os from "os";
+import * as path from "path";
+
+import { type StoreKey, encryptLine, readStoreKey } from "./encryption";
+
+export interface StoreLockConfig {
+  // Locks older than this are considered abandoned
+  readonly staleSeconds: number;
+  // How long a writer waits for the lock before giving up
+  readonly timeoutSeconds: number;
+  readonly retryMs: number;
+}
+
+export class StoreLockTimeoutError extends Error {
+  constructor(readonly lockPath: string) {
+    super(`Timed out waiting for event store lock ${lockPath}`);
+    this.name = "StoreLockTimeoutError";
+  }
+}
+
+function positiveNumber(value: string | undefined, fallback: number): number {
+  const parsed = Number.parseFloat(value ?? "");
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+export function readStoreLockConfig(
+  env: NodeJS.ProcessEnv = process.env,
+): StoreLockConfig {
+  return {
+    staleSeconds: positiveNumber(env.RESPONSE_BOXES_LOCK_STALE_SECONDS, 30),
+    timeoutSeconds: positiveNumber(env.RESPONSE_BOXES_LOCK_TIMEOUT_SECONDS, 10),
+    retryMs: 50,
+  };
+}
+
+// The event store every agent shares; RESPONSE_BOXES_FILE overrides it
+export function resolveStoreFile(env: NodeJS.ProcessEnv = process.env): string {
+  return (
+    env.RESPONSE_BOXES_FILE ??
+    path.join(os.homedir(), ".response-boxes", "analytics", "boxes.jsonl")
+  );
+}
+
+export function storeLockPath(storeFile: string): string {
+  return `${storeFile}.lock`;
+}
+
+function errorCode(error: unknown): string | undefined {
+  return (error as NodeJS.ErrnoException | null)?.code;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function fileSize(file: string): Promise<number> {
+  try {
+    return (await fs.stat(file)).size;
+  } catch (error) {
+    if (errorCode(error) === "ENOENT") {
+      return 0;
+    }
+    throw error;
+  }
+}
+
+function ownerLine(): string {
+  return `${process.pid} ${os.hostname()} ${Math.floor(Date.now() / 1000)}`;
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return errorCode(error) === "EPERM";
+  }
+}
+
+// Creates the file with the owner line; false if it already exists
+async function createLockFile(file: string, owner: string): Promise<boolean> {
+  try {
+    await fs.writeFile(file, `${owner}\n`, { flag: "wx" });
+    return true;
+  } catch (error) {
+    if (errorCode(error) === "EEXIST") {
+      return false;
+    }
+    throw error;
+  }
+}
+
+export async function isLockStale(
+  lockPath: string,
+  config: StoreLockConfig,
+  now: Date = new Date(),
+): Promise<boolean> {
+  let content: string;
+  let mtimeMs: number;
+  try {
+    content = await fs.readFile(lockPath, { encoding: "utf8" });
+    mtimeMs = (await fs.stat(lockPath)).mtimeMs;
+  } catch (error) {
+    if (errorCode(error) === "ENOENT") {
+      return false;
+    }
+    throw error;
+  }
+
+  const [pidRaw = "", host = "", epochRaw = ""] = content.trim().split(/\s+/);
+  const pid = Number(pidRaw);
+  const epoch = Number(epochRaw);
+  const nowSeconds = now.getTime() / 1000;
+
+  if (!/^[0-9]+$/.test(pidRaw) || !/^[0-9]+$/.test(epochRaw)) {
+    // Owner line not written yet (or lost): judge by the file's age
+    return nowSeconds - mtimeMs / 1000 > config.staleSeconds;
+  }
+
+  if (host === os.hostname() && !isProcessAlive(pid)) {
+    return true;
+  }
+
+  return nowSeconds - epoch > config.staleSeconds;
+}
+
+async function walFiles(storeFile: string): Promise<string[]> {
+  const prefix = `${path.basename(storeFile)}.wal.`;
+  let entries: string[];
+  try {
+    entries = await fs.readdir(path.dirname(storeFile));
+  } catch (error) {
+    if (errorCode(error) === "ENOENT") {
+      return [];
+    }
+    throw error;
+  }
+
+  return entries
+    .filter(
+      (entry) =>
+        entry.startsWith(prefix) && /^[0-9]+$/.test(entry.slice(prefix.length)),
+    )
+    .map((entry) => path.join(path.dirname(storeFile), entry));
+}
+
+// Completes appends whose writer died after recording a write-ahead file.
+// Must only be called while holding the lock.
+export async function rollForwardStore(storeFile: string): Promise<void> {
+  for (const wal of await walFiles(storeFile)) {
+    const offset = Number(wal.slice(wal.lastIndexOf(".") + 1));
+    const payload = await fs.readFile(wal);
+    const written = Math.max(0, (await fileSize(storeFile)) - offset);
+
+    if (written < payload.length) {
+      await fs.appendFile(storeFile, payload.subarray(written));
+    }
+    await fs.rm(wal, { force: true });
+  }
+}
+
+async function takeOverStaleLock(
+  lockPath: string,
+  owner: string,
+  config: StoreLockConfig,
+): Promise<boolean> {
+  const takeover = `${lockPath}.takeover`;
+  if (await isLockStale(takeover, config)) {
+    await fs.rm(takeover, { force: true });
+  }
+  if (!(await createLockFile(takeover, owner))) {
+    return false;
+  }
+
+  try {
+    // Re-check while holding the takeover marker so a live writer that
+    // acquired the lock in the meantime is never evicted
+    if (!(await isLockStale(lockPath, config))) {
+      return false;
+    }
+    const replacement = `${lockPath}.${process.pid}`;
+    await fs.writeFile(replacement, `${owner}\n`);
+    await fs.rename(replacement, lockPath);
+    return true;
+  } finally {
+    await fs.rm(takeover, { force: true });
+  }
+}
+
+async function acquireStoreLock(
+  storeFile: string,
+  owner: string,
+  config: StoreLockConfig,
+): Promise<void> {
+  const lockPath = storeLockPath(storeFile);
+  const deadline = Date.now() + config.timeoutSeconds * 1000;
+
+  for (;;) {
+    if (
+      (await createLockFile(lockPath, owner)) ||
+      ((await isLockStale(lockPath, config)) &&
+        (await takeOverStaleLock(lockPath, owner, config)))
+    ) {
+      await rollForwardStore(storeFile);
+      return;
+    }
+
+    if (Date.now() >= deadline) {
+      throw new StoreLockTimeoutError(lockPath);
+    }
+    await sleep(config.retryMs);
+  }
+}
+
+async function releaseStoreLock(
+  storeFile: string,
+  owner: string,
+): Promise<void> {
+  const lockPath = storeLockPath(storeFile);
+  let content: string;
+  try {
+    content = await fs.readFile(lockPath, { encoding: "utf8" });
+  } catch {
+    return;
+  }
+
+  // A writer that stalled past the stale threshold may have lost its lock
+  if (content.trim() === owner) {
+    await fs.rm(lockPath, { force: true });
+  }
+}
+
+// Runs fn while holding the shared store lock (after rolling forward any
+// write-ahead file a crashed writer left behind)
+export async function withStoreLock<T>(
+  storeFile: string,
+  fn: () => Promise<T>,
+  config: StoreLockConfig = readStoreLockConfig(),
+): Promise<T> {
+  // Owner lines must be unique per writer, including concurrent writers in
+  // this process, so release never removes another writer's lock
+  const owner = `${ownerLine()} ${crypto.randomBytes(4).toString("hex")}`;
+  await acquireStoreLock(storeFile, owner, config);
+  try {
+    return await fn();
+  } finally {
+    await releaseStoreLock(storeFile, owner);
+  }
+}
+
+// Appends one JSON line per event under the shared store lock, encrypted
+// when a store key is configured (`key` defaults to the configured one)
+export async function appendEvents(
+  storeFile: string,
+  events: readonly object[],
+  config: StoreLockConfig = readStoreLockConfig(),
+  key?: StoreKey | null,
+): Promise<void> {
+  if (events.length === 0) {
+    return;
+  }
+
+  const storeKey = key === undefined ? await readStoreKey() : key;
+  await fs.mkdir(path.dirname(storeFile), { recursive: true });
+
+  const payload = events
+    .map((event) => JSON.stringify(event))
+    .map((line) => `${storeKey ? encryptLine(line, storeKey) : line}\n`)
+    .join("");
+  const tmp = `${storeFile}.${process.pid}.${crypto.randomBytes(4).toString("hex")}.tmp`;
+  await fs.writeFile(tmp, payload, { encoding: "utf8" });
+
+  try {
+    await withStoreLock(
+      storeFile,
+      async () => {
+        const wal = `${storeFile}.wal.${await fileSize(storeFile)}`;
+        await fs.rename(tmp, wal);
+        await fs.appendFile(storeFile, await fs.readFile(wal));
+        await fs.rm(wal, { force: true });
+      },
+      config,
+    );
+  } finally {
+    // Only still present when the lock could not be acquired
+    await fs.rm(tmp, { force: true });
+  }
+}
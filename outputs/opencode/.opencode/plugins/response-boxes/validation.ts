@@ -0,0 +1,74 @@
+// agent-response-boxes: per-type field validation.
+//
+// A box is well formed when every required field of its registry type has a
+// value. Capture records the result on BoxCreated (completeness and
+// missing_fields) and appends a BoxMalformed diagnostic for boxes that fall
+// short; ranking re-validates so that boxes captured before validation
+// existed are not injected either.
+
+import type { BoxCreatedEvent, BoxMalformedEvent, FieldValue } from "./events";
+import { fieldText } from "./parser";
+import {
+  type BoxTypeRegistry,
+  DEFAULT_BOX_TYPES,
+  findBoxType,
+} from "./registry";
+
+export interface BoxValidation {
+  // Required fields with no value, in registry order
+  readonly missing_fields: string[];
+  // Share of required fields present, rounded to two decimals; 1 for types
+  // without required fields and for unregistered types
+  readonly completeness: number;
+}
+
+export function validateBox(
+  boxType: string,
+  fields: Record<string, FieldValue>,
+  registry: BoxTypeRegistry = DEFAULT_BOX_TYPES,
+): BoxValidation {
+  const required = findBoxType(registry, boxType)?.required_fields ?? [];
+  const missing = required.filter((key) => {
+    const value = fields[key];
+    return value === undefined || fieldText(value) === "";
+  });
+  return {
+    missing_fields: missing,
+    completeness:
+      required.length === 0
+        ? 1
+        : Math.round(
+            ((required.length - missing.length) / required.length) * 100,
+          ) / 100,
+  };
+}
+
+export function isMalformedBox(
+  boxType: string,
+  fields: Record<string, FieldValue>,
+  registry: BoxTypeRegistry = DEFAULT_BOX_TYPES,
+): boolean {
+  return validateBox(boxType, fields, registry).missing_fields.length > 0;
+}
+
+// The diagnostic written next to a BoxCreated that is missing required
+// fields; null for well-formed boxes
+export function boxMalformedEvent(
+  created: BoxCreatedEvent,
+): BoxMalformedEvent | null {
+  const missing = created.missing_fields ?? [];
+  if (missing.length === 0) {
+    return null;
+  }
+  return {
+    event: "BoxMalformed",
+    id: `${created.id}_malformed`,
+    ts: created.ts,
+    box_id: created.id,
+    box_type: created.box_type,
+    missing_fields: missing,
+    completeness: created.completeness ?? 0,
+    context: created.context,
+    schema_version: created.schema_version,
+  };
+}
@@ -0,0 +1,90 @@
+// agent-response-boxes: idempotent box capture for streaming messages.
+//
+// OpenCode fires message.updated repeatedly while a message streams and again
+// when it completes. Box IDs are derived from the message ID, the box's
+// position in the message and its content, so every replay of the same box
+// maps to the same BoxCreated ID while two identical boxes stay distinct.
+
+import * as crypto from "crypto";
+
+import {
+  type BoxTypeRegistry,
+  DEFAULT_BOX_TYPES,
+  findBoxType,
+} from "./registry";
+
+export interface BoxContent {
+  readonly boxType: string;
+  readonly raw: string;
+}
+
+export interface MessageTiming {
+  readonly time?: { readonly completed?: number };
+  readonly finish?: string;
+}
+
+// Closing rule of a box: a line made only of dashes (or box-drawing dashes)
+export const CLOSING_RULE = /^[ \t]*[-─]{10,}[ \t]*$/;
+
+// The body lines between the header and the closing rule. Prose that streams
+// in after the rule must not change the hash of an already-complete box, and
+// neither may the rules themselves: a box counts as complete at 10 dashes, so
+// a rule still streaming in would otherwise give the same box a second ID.
+function closedBody(box: BoxContent): string {
+  const lines = box.raw.split(/\r?\n/).map((line) => line.trimEnd());
+  const closing = lines.findIndex(
+    (line, index) => index > 0 && CLOSING_RULE.test(line),
+  );
+  return (closing === -1 ? lines.slice(1) : lines.slice(1, closing))
+    .join("\n")
+    .trim();
+}
+
+export function boxContentHash(box: BoxContent): string {
+  return crypto
+    .createHash("sha256")
+    .update(`${box.boxType}\n${closedBody(box)}`)
+    .digest("hex")
+    .slice(0, 16);
+}
+
+// `index` is the box's ordinal within the message. Boxes only ever stream in
+// after the ones before them, so it is stable across replays.
+export function deterministicBoxId(
+  sessionId: string,
+  messageId: string,
+  box: BoxContent,
+  index: number,
+): string {
+  const messageKey = crypto
+    .createHash("sha256")
+    .update(`${sessionId}\n${messageId}`)
+    .digest("hex")
+    .slice(0, 8);
+  const boxKey = crypto
+    .createHash("sha256")
+    .update(`${index}\n${boxContentHash(box)}`)
+    .digest("hex")
+    .slice(0, 16);
+  return `oc_${sessionId.slice(0, 8)}_${messageKey}_${boxKey}`;
+}
+
+// A box is complete once its closing rule has streamed in
+export function isBoxComplete(box: BoxContent): boolean {
+  const lines = box.raw.split(/\r?\n/);
+  return lines.slice(1).some((line) => CLOSING_RULE.test(line));
+}
+
+// Initial score by box type (the hooks read the same registry)
+export function calculateInitialScore(
+  boxType: string,
+  registry: BoxTypeRegistry = DEFAULT_BOX_TYPES,
+): number {
+  return (
+    findBoxType(registry, boxType)?.default_score ?? registry.unknown_score
+  );
+}
+
+export function isMessageComplete(info: MessageTiming): boolean {
+  return typeof info.time?.completed === "number" || Boolean(info.finish);
+}
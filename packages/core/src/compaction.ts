@@ -0,0 +1,441 @@
+// agent-response-boxes: store compaction, snapshots and monthly rotation.
+//
+// Compaction replaces the analysed prefix of the store (every line before the
+// first event at or after the cutoff) with a single Snapshot event. Its nested
+// events are the projected boxes of that prefix: the first BoxCreated per ID
+// and one merged BoxEnriched per box. The replaced lines are rotated into
+// <store>-YYYY-MM.jsonl archives next to the store.
+//
+// Learning events, EvidenceLinked events, proposals and their review
+// decisions, the raw events of every box a learning links to and the latest
+// AnalysisCompleted stay in the store verbatim, so /analyze-boxes still sees
+// each evidence chain, rejected proposals stay remembered and the projection
+// (and therefore the injected context) does not change. In an encrypted store
+// lines keep their envelopes and the snapshot is encrypted with the store key.
+
+import { promises as fs } from "fs";
+import * as path from "path";
+
+import { type StoreKey, encryptLine, readStoreKey } from "./encryption";
+import type {
+  AnalysisCompletedEvent,
+  BoxCreatedEvent,
+  BoxEnrichedEvent,
+  BoxEvent,
+  SnapshotEntry,
+  SnapshotEvent,
+} from "./events";
+import { byTimestamp, timeOf } from "./projection";
+import { SUPPORTED_SCHEMA_VERSION, readStoreLine } from "./schema";
+import {
+  type StoreLockConfig,
+  readStoreLockConfig,
+  withStoreLock,
+} from "./store";
+
+export interface CompactionOptions {
+  // Compact lines older than this (default: start of the current UTC month).
+  // Never goes past the through_ts of the latest AnalysisCompleted.
+  readonly before?: Date;
+  readonly now?: Date;
+}
+
+export interface CompactionPlan {
+  // Effective cutoff; null when there is nothing to compact
+  readonly throughTs: string | null;
+  readonly snapshot: SnapshotEvent | null;
+  // Lines that follow the snapshot in the compacted store
+  readonly keptLines: string[];
+  // Archive file name -> lines rotated into it
+  readonly archives: Map<string, string[]>;
+}
+
+export interface CompactionResult {
+  readonly throughTs: string | null;
+  readonly snapshotEvents: number;
+  readonly keptLines: number;
+  readonly archivedLines: number;
+  // Archive files appended to by this run
+  readonly archives: string[];
+}
+
+export class UnsupportedStoreSchemaError extends Error {
+  constructor(
+    readonly unsupportedCount: number,
+    readonly newestSchemaVersion: number,
+  ) {
+    super(
+      `Refusing to compact: the store contains ${unsupportedCount} event(s) with schema_version ${newestSchemaVersion} (supported: ${SUPPORTED_SCHEMA_VERSION})`,
+    );
+    this.name = "UnsupportedStoreSchemaError";
+  }
+}
+
+interface PrefixEvent {
+  readonly event: SnapshotEntry;
+  // Index into the store's lines; null for events nested in a snapshot
+  readonly line: number | null;
+}
+
+export function startOfMonth(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
+
+function monthOf(time: number): string {
+  return new Date(time).toISOString().slice(0, 7);
+}
+
+export function archiveName(storeFile: string, month: string): string {
+  return `${path.basename(storeFile).replace(/\.jsonl$/, "")}-${month}.jsonl`;
+}
+
+function storeLines(raw: string): string[] {
+  const lines = raw.split("\n");
+  if (lines[lines.length - 1] === "") {
+    lines.pop();
+  }
+  return lines;
+}
+
+function latestAnalysis(events: BoxEvent[]): AnalysisCompletedEvent | null {
+  let latest: AnalysisCompletedEvent | null = null;
+  for (const event of events) {
+    if (
+      event.event === "AnalysisCompleted" &&
+      (!latest || timeOf(event.ts) >= timeOf(latest.ts))
+    ) {
+      latest = event;
+    }
+  }
+  return latest;
+}
+
+// Merges a box's enrichments the way projectBox does; the result carries the
+// ID and timestamp of the last one applied
+function mergeEnrichments(enrichments: BoxEnrichedEvent[]): BoxEnrichedEvent {
+  const ordered = byTimestamp(enrichments);
+  const last = ordered[ordered.length - 1];
+  const updates: Record<string, unknown> = {};
+  for (const enrichment of ordered) {
+    Object.assign(updates, enrichment.updates);
+  }
+  return {
+    event: "BoxEnriched",
+    id: last.id,
+    ts: last.ts,
+    box_id: last.box_id,
+    updates,
+    schema_version: SUPPORTED_SCHEMA_VERSION,
+  };
+}
+
+export function planCompaction(
+  storeFile: string,
+  raw: string,
+  options: CompactionOptions = {},
+  key: StoreKey | null = null,
+): CompactionPlan {
+  const now = options.now ?? new Date();
+  const lines = storeLines(raw);
+  const parsed = lines.map((line) => readStoreLine(line, key));
+  const events = parsed.flatMap((line) =>
+    line.kind === "event" ? [line.event] : [],
+  );
+  const nothing: CompactionPlan = {
+    throughTs: null,
+    snapshot: null,
+    keptLines: lines,
+    archives: new Map(),
+  };
+
+  const unsupported = parsed.filter((line) => line.kind === "unsupported");
+  if (unsupported.length > 0) {
+    throw new UnsupportedStoreSchemaError(
+      unsupported.length,
+      Math.max(...unsupported.map((line) => line.schemaVersion ?? 0)),
+    );
+  }
+
+  // Boxes newer than the last analysis must stay visible to /analyze-boxes
+  const analysis = latestAnalysis(events);
+  if (!analysis) {
+    return nothing;
+  }
+  const cutoff = Math.min(
+    (options.before ?? startOfMonth(now)).getTime(),
+    timeOf(analysis.through_ts),
+  );
+
+  // The prefix ends at the first event at or after the cutoff. Earlier
+  // snapshots always belong to it; their own ts is when they were written.
+  let end = 0;
+  while (end < lines.length) {
+    const line = parsed[end];
+    if (
+      line.kind === "event" &&
+      line.event.event !== "Snapshot" &&
+      timeOf(line.event.ts) >= cutoff
+    ) {
+      break;
+    }
+    end += 1;
+  }
+
+  const prefix: PrefixEvent[] = [];
+  const previousArchives: string[] = [];
+  for (let index = 0; index < end; index += 1) {
+    const line = parsed[index];
+    if (line.kind !== "event") {
+      continue;
+    }
+    if (line.event.event === "Snapshot") {
+      prefix.push(...line.event.events.map((event) => ({ event, line: null })));
+      previousArchives.push(...line.event.archives);
+    } else {
+      prefix.push({ event: line.event, line: index });
+    }
+  }
+
+  // Boxes any learning links to, anywhere in the store
+  const linkedBoxes = new Set<string>();
+  for (const event of events) {
+    if (event.event === "EvidenceLinked") {
+      linkedBoxes.add(event.box_id);
+    } else if (event.event === "Snapshot") {
+      for (const nested of event.events) {
+        if (nested.event === "EvidenceLinked") {
+          linkedBoxes.add(nested.box_id);
+        }
+      }
+    }
+  }
+
+  // First creation wins, exactly as in materializeProjection
+  const boxes = new Map<string, BoxCreatedEvent>();
+  const enrichments = new Map<string, BoxEnrichedEvent[]>();
+  for (const item of prefix) {
+    if (item.event.event === "BoxCreated" && !boxes.has(item.event.id)) {
+      boxes.set(item.event.id, item.event);
+    } else if (item.event.event === "BoxEnriched") {
+      const group = enrichments.get(item.event.box_id) ?? [];
+      group.push(item.event);
+      enrichments.set(item.event.box_id, group);
+    }
+  }
+
+  // Enrichments after the prefix that sort before the last prefix enrichment
+  // would interleave with the merged update, so those boxes keep theirs apart
+  const laterEnrichment = new Map<string, number>();
+  for (let index = end; index < lines.length; index += 1) {
+    const line = parsed[index];
+    if (line.kind === "event" && line.event.event === "BoxEnriched") {
+      const time = timeOf(line.event.ts);
+      const boxId = line.event.box_id;
+      laterEnrichment.set(
+        boxId,
+        Math.min(laterEnrichment.get(boxId) ?? Infinity, time),
+      );
+    }
+  }
+
+  // Earlier snapshots only hold boxes, but carry anything else along as is
+  const snapshotEvents: SnapshotEntry[] = prefix
+    .filter(
+      (item) =>
+        item.line === null &&
+        item.event.event !== "BoxCreated" &&
+        item.event.event !== "BoxEnriched",
+    )
+    .map((item) => item.event);
+  for (const created of boxes.values()) {
+    snapshotEvents.push(created);
+    const group = enrichments.get(created.id) ?? [];
+    if (group.length === 0) {
+      continue;
+    }
+    const merged = mergeEnrichments(group);
+    if (timeOf(merged.ts) <= (laterEnrichment.get(created.id) ?? Infinity)) {
+      snapshotEvents.push(merged);
+    } else {
+      snapshotEvents.push(...group);
+    }
+  }
+
+  const keep = new Set<number>();
+  const rawCreations = new Set<string>();
+  for (const item of prefix) {
+    if (item.line === null) {
+      continue;
+    }
+    const event = item.event;
+    switch (event.event) {
+      case "LearningCreated":
+      case "LearningUpdated":
+      case "LearningLinked":
+      case "EvidenceLinked":
+      case "LearningProposed":
+      case "ProposalAccepted":
+      case "ProposalRejected":
+        keep.add(item.line);
+        break;
+      case "AnalysisCompleted":
+        if (event === analysis) {
+          keep.add(item.line);
+        }
+        break;
+      case "BoxCreated":
+        // Linked boxes also keep their first raw creation; the snapshot copy
+        // still wins because it comes first
+        if (linkedBoxes.has(event.id) && !rawCreations.has(event.id)) {
+          keep.add(item.line);
+        }
+        rawCreations.add(event.id);
+        break;
+      case "BoxEnriched":
+        // Enrichments for boxes created after the prefix are not snapshotted
+        if (!boxes.has(event.box_id) || linkedBoxes.has(event.box_id)) {
+          keep.add(item.line);
+        }
+        break;
+    }
+  }
+
+  const archives = new Map<string, string[]>();
+  const keptLines: string[] = [];
+  let month = monthOf(cutoff);
+  let rotated = 0;
+  for (let index = 0; index < end; index += 1) {
+    const line = parsed[index];
+    const text = lines[index];
+    if (keep.has(index)) {
+      keptLines.push(text);
+      continue;
+    }
+    if (
+      text.trim() === "" ||
+      (line.kind === "event" && line.event.event === "Snapshot")
+    ) {
+      // Earlier snapshots are superseded; their lines were archived already
+      continue;
+    }
+
+    // Undated lines go with the line before them
+    const time = line.kind === "event" ? timeOf(line.event.ts) : 0;
+    if (time > 0) {
+      month = monthOf(time);
+    }
+    const name = archiveName(storeFile, month);
+    const archived = archives.get(name) ?? [];
+    archived.push(text);
+    archives.set(name, archived);
+    rotated += 1;
+  }
+  keptLines.push(...lines.slice(end));
+
+  if (rotated === 0) {
+    return nothing;
+  }
+
+  const throughTs = new Date(cutoff).toISOString();
+  return {
+    throughTs,
+    snapshot: {
+      event: "Snapshot",
+      id: `snapshot_${now
+        .toISOString()
+        .replace(/[^0-9]/g, "")
+        .slice(0, 14)}`,
+      ts: now.toISOString(),
+      through_ts: throughTs,
+      events: snapshotEvents,
+      archives: [...new Set([...previousArchives, ...archives.keys()])].sort(),
+      schema_version: SUPPORTED_SCHEMA_VERSION,
+    },
+    keptLines,
+    archives,
+  };
+}
+
+function summarize(storeFile: string, plan: CompactionPlan): CompactionResult {
+  return {
+    throughTs: plan.throughTs,
+    snapshotEvents: plan.snapshot?.events.length ?? 0,
+    keptLines: plan.keptLines.length,
+    archivedLines: [...plan.archives.values()].reduce(
+      (sum, lines) => sum + lines.length,
+      0,
+    ),
+    archives: [...plan.archives.keys()].map((name) =>
+      path.join(path.dirname(storeFile), name),
+    ),
+  };
+}
+
+async function readStore(storeFile: string): Promise<string | null> {
+  try {
+    return await fs.readFile(storeFile, { encoding: "utf8" });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException | null)?.code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+}
+
+// Compacts the store in place under the shared store lock. Archives are
+// appended before the compacted store replaces the original, so an
+// interrupted run can duplicate archived lines but never lose events.
+// `key` defaults to the configured store key.
+export async function compactStore(
+  storeFile: string,
+  options: CompactionOptions & { readonly dryRun?: boolean } = {},
+  config: StoreLockConfig = readStoreLockConfig(),
+  key?: StoreKey | null,
+): Promise<CompactionResult> {
+  const storeKey = key === undefined ? await readStoreKey() : key;
+  if (options.dryRun) {
+    const raw = await readStore(storeFile);
+    return summarize(
+      storeFile,
+      planCompaction(storeFile, raw ?? "", options, storeKey),
+    );
+  }
+
+  return withStoreLock(
+    storeFile,
+    async () => {
+      const raw = await readStore(storeFile);
+      const plan = planCompaction(storeFile, raw ?? "", options, storeKey);
+      if (!plan.snapshot) {
+        return summarize(storeFile, plan);
+      }
+
+      const dir = path.dirname(storeFile);
+      const tmp = `${storeFile}.compact.${process.pid}.tmp`;
+      const snapshot = JSON.stringify(plan.snapshot);
+      const body = [
+        storeKey ? encryptLine(snapshot, storeKey) : snapshot,
+        ...plan.keptLines,
+      ]
+        .map((line) => `${line}\n`)
+        .join("");
+      await fs.writeFile(tmp, body, { encoding: "utf8" });
+      try {
+        await fs.chmod(tmp, (await fs.stat(storeFile)).mode);
+        for (const [name, lines] of plan.archives) {
+          await fs.appendFile(
+            path.join(dir, name),
+            lines.map((line) => `${line}\n`).join(""),
+            { encoding: "utf8" },
+          );
+        }
+        await fs.rename(tmp, storeFile);
+      } finally {
+        await fs.rm(tmp, { force: true });
+      }
+
+      return summarize(storeFile, plan);
+    },
+    config,
+  );
+}
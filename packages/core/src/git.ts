@@ -0,0 +1,82 @@
+// agent-response-boxes: local git context for captured boxes.
+//
+// Only reads local repository config (no fetch/ls-remote), matching what
+// session-processor.sh records in BoxCreated.context.
+
+import { execFile } from "child_process";
+
+export interface GitContext {
+  // Normalized remote, e.g. "github.com/user/repo" ("" outside a repo)
+  readonly remote: string;
+  readonly branch: string;
+}
+
+const EMPTY_GIT_CONTEXT: GitContext = { remote: "", branch: "" };
+
+const GIT_TIMEOUT_MS = 2000;
+
+// Normalize ssh, scp-like and https remotes to "host/owner/repo" so the same
+// repository compares equal no matter how it was cloned:
+//   git@github.com:user/repo.git        -> github.com/user/repo
+//   https://token@github.com/user/repo  -> github.com/user/repo
+//   ssh://git@github.com:22/user/repo   -> github.com/user/repo
+export function normalizeRemoteUrl(url: string): string {
+  let value = url.trim();
+  if (value === "") {
+    return "";
+  }
+
+  value = value
+    .replace(/^[A-Za-z][A-Za-z0-9+.-]*:\/\//, "")
+    .replace(/^[^@/]*@/, "")
+    .replace(/^([^/:]+):[0-9]+\//, "$1/")
+    .replace(/^([^/:]+):/, "$1/")
+    .replace(/\.git\/?$/, "")
+    .replace(/\/+$/, "");
+
+  const slash = value.indexOf("/");
+  if (slash === -1) {
+    return value.toLowerCase();
+  }
+  return value.slice(0, slash).toLowerCase() + value.slice(slash);
+}
+
+function runGit(cwd: string, args: string[]): Promise<string> {
+  return new Promise((resolve) => {
+    execFile(
+      "git",
+      ["-C", cwd, ...args],
+      {
+        timeout: GIT_TIMEOUT_MS,
+        env: { ...process.env, GIT_TERMINAL_PROMPT: "0" },
+      },
+      (error, stdout) => {
+        resolve(error ? "" : String(stdout).trim());
+      },
+    );
+  });
+}
+
+// Top of the worktree containing `dir`, or `dir` itself outside git (where
+// the bash hooks look for .response-boxes.json)
+export async function resolveWorktreeRoot(dir: string): Promise<string> {
+  return (await runGit(dir, ["rev-parse", "--show-toplevel"])) || dir;
+}
+
+export async function resolveGitContext(dir: string): Promise<GitContext> {
+  if (!dir) {
+    return EMPTY_GIT_CONTEXT;
+  }
+
+  const inside = await runGit(dir, ["rev-parse", "--is-inside-work-tree"]);
+  if (inside !== "true") {
+    return EMPTY_GIT_CONTEXT;
+  }
+
+  const [remote, branch] = await Promise.all([
+    runGit(dir, ["config", "--get", "remote.origin.url"]),
+    runGit(dir, ["rev-parse", "--abbrev-ref", "HEAD"]),
+  ]);
+
+  return { remote: normalizeRemoteUrl(remote), branch };
+}
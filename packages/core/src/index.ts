@@ -0,0 +1,29 @@
+// agent-response-boxes: public API of @response-boxes/core.
+//
+// The box parser, event types, versioned store reader, locked store I/O and
+// projection shared by every TypeScript adapter (currently the OpenCode
+// plugin and the scripts in bin/).
+
+export * from "./activity";
+export * from "./capture";
+export * from "./compaction";
+export * from "./context";
+export * from "./encryption";
+export * from "./events";
+export * from "./git";
+export * from "./parser";
+export * from "./projection";
+export * from "./projection-cache";
+export * from "./proposals";
+export * from "./query";
+export * from "./ranking";
+export * from "./redaction";
+export * from "./registry";
+export * from "./repo-policy";
+export * from "./retrieval";
+export * from "./schema";
+export * from "./store";
+export * from "./store-encryption";
+export * from "./store-layers";
+export * from "./synthesis";
+export * from "./validation";
@@ -0,0 +1,206 @@
+// agent-response-boxes: extracts response boxes from assistant text.
+//
+// A box starts at a header line such as "⚖️ Choice ──────────" whose type
+// name, alias or emoji is in the box-type registry and ends at its closing
+// rule; text after the rule is outside the box. A box without a closing rule
+// runs until the next such header, fenced code block or blockquote (or the end
+// of the text) and is marked incomplete.
+// Headers inside fenced code, indented code or blockquotes are examples or
+// quotes, not boxes. Fields start at "**Name:** value" or "**Name**: value"
+// lines, are keyed by their lowercased, underscored name and take the lines
+// that follow until the next field or the closing rule; bullet lists become
+// string arrays.
+
+import { type BoxContent, CLOSING_RULE } from "./capture";
+import type { FieldValue } from "./events";
+import {
+  type BoxTypeRegistry,
+  DEFAULT_BOX_TYPES,
+  fieldKey,
+  findBoxType,
+} from "./registry";
+
+export interface BoxSegment extends BoxContent {
+  readonly fields: Record<string, FieldValue>;
+  // False when the box has no closing rule (yet): it ran into the next box,
+  // a code block or quote, or the end of the text
+  readonly complete: boolean;
+}
+
+// Emoji + type + dashes. Do not allow newlines between groups: `\s` includes
+// `\n`, which causes false matches like "**Reasoning:** ...\n──────".
+const HEADER_PATTERN =
+  /^([^\s]+)[ \t]+([A-Za-z][A-Za-z ]*)[ \t]+[-─]{10,}[ \t]*$/gm;
+
+// CommonMark fences: up to three spaces, then three or more backticks or
+// tildes. A backtick fence's info string may not contain backticks.
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})(.*)$/;
+const QUOTE_PATTERN = /^ {0,3}>/;
+
+// "- item", "* item", "+ item", "1. item" or "1) item"
+const LIST_ITEM = /^[ \t]*(?:[-*+]|[0-9]+[.)])[ \t]+/;
+
+// Offsets of the lines that belong to fenced code blocks or blockquotes, in
+// ascending order. Indented code needs no tracking: HEADER_PATTERN only
+// matches at the start of a line.
+function codeAndQuoteLineStarts(text: string): number[] {
+  const starts: number[] = [];
+  let fence: string | null = null;
+  let offset = 0;
+
+  for (const line of text.split("\n")) {
+    const fenceMatch = FENCE_PATTERN.exec(line);
+    if (fence !== null) {
+      starts.push(offset);
+      const [, marker = "", rest = ""] = fenceMatch ?? [];
+      if (
+        marker[0] === fence[0] &&
+        marker.length >= fence.length &&
+        rest.trim() === ""
+      ) {
+        fence = null;
+      }
+    } else if (
+      fenceMatch &&
+      !(fenceMatch[1].startsWith("`") && fenceMatch[2].includes("`"))
+    ) {
+      fence = fenceMatch[1];
+      starts.push(offset);
+    } else if (QUOTE_PATTERN.test(line)) {
+      starts.push(offset);
+    }
+    offset += line.length + 1;
+  }
+
+  return starts;
+}
+
+// "**Name:** value" or "**Name**: value"; null for any other line
+function fieldStart(line: string): { name: string; inline: string } | null {
+  const match = /^\*\*([^*]+)\*\*(.*)$/.exec(line);
+  if (!match) {
+    return null;
+  }
+
+  let name = (match[1] ?? "").trim();
+  let inline = (match[2] ?? "").trimStart();
+  if (name.endsWith(":")) {
+    name = name.slice(0, -1).trim();
+  } else if (inline.startsWith(":")) {
+    inline = inline.slice(1);
+  } else {
+    return null;
+  }
+  return name === "" ? null : { name, inline: inline.trim() };
+}
+
+// A field whose value starts on the next line with a bullet or numbered item
+// is a list; anything else is text, with continuation lines kept on their
+// own lines. Empty fields are dropped.
+function fieldValue(inline: string, continuation: string[]): FieldValue | null {
+  const lines = continuation.filter((line) => line.trim() !== "");
+
+  if (inline === "" && lines.length > 0 && LIST_ITEM.test(lines[0])) {
+    const items: string[] = [];
+    for (const line of lines) {
+      if (LIST_ITEM.test(line)) {
+        items.push(line.replace(LIST_ITEM, "").trim());
+      } else {
+        // A wrapped item continues on the next line
+        items[items.length - 1] = `${items[items.length - 1]} ${line.trim()}`;
+      }
+    }
+    const values = items.filter((item) => item !== "");
+    return values.length > 0 ? values : null;
+  }
+
+  const text = [inline, ...lines.map((line) => line.trim())]
+    .filter((line) => line !== "")
+    .join("\n");
+  return text === "" ? null : text;
+}
+
+// Each field runs until the next field or the closing rule
+function parseFields(body: string): Record<string, FieldValue> {
+  const fields: Record<string, FieldValue> = {};
+  let current: { key: string; inline: string; lines: string[] } | null = null;
+
+  const finish = (): void => {
+    // First occurrence wins
+    if (current !== null && !(current.key in fields)) {
+      const value = fieldValue(current.inline, current.lines);
+      if (value !== null) {
+        fields[current.key] = value;
+      }
+    }
+    current = null;
+  };
+
+  for (const line of body.split(/\r?\n/)) {
+    if (CLOSING_RULE.test(line)) {
+      break;
+    }
+    const start = fieldStart(line);
+    if (start !== null) {
+      finish();
+      current = { key: fieldKey(start.name), inline: start.inline, lines: [] };
+    } else if (current !== null) {
+      current.lines.push(line);
+    }
+  }
+  finish();
+
+  return fields;
+}
+
+// One-line text for summaries: list items joined with commas, whitespace
+// (including continuation line breaks) collapsed
+export function fieldText(value: FieldValue): string {
+  return (Array.isArray(value) ? value.join(", ") : value)
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+export function extractBoxesFromText(
+  text: string,
+  registry: BoxTypeRegistry = DEFAULT_BOX_TYPES,
+): BoxSegment[] {
+  const excluded = codeAndQuoteLineStarts(text);
+  const excludedSet = new Set(excluded);
+
+  // Look-alike headers with an unregistered type are ordinary text
+  const headers = Array.from(text.matchAll(HEADER_PATTERN)).flatMap((match) => {
+    const start = match.index ?? 0;
+    if (excludedSet.has(start)) {
+      return [];
+    }
+    const type = findBoxType(registry, (match[2] ?? "").trim(), match[1]);
+    return type ? [{ start, boxType: type.name }] : [];
+  });
+  const segments: BoxSegment[] = [];
+
+  for (let index = 0; index < headers.length; index += 1) {
+    const { start } = headers[index];
+    const nextHeader =
+      index + 1 < headers.length ? headers[index + 1].start : text.length;
+    const end = Math.min(
+      nextHeader,
+      excluded.find((lineStart) => lineStart > start) ?? text.length,
+    );
+
+    const [header, ...lines] = text.slice(start, end).split("\n");
+    const closing = lines.findIndex((line) => CLOSING_RULE.test(line));
+    const bodyLines = closing === -1 ? lines : lines.slice(0, closing);
+
+    segments.push({
+      boxType: headers[index].boxType,
+      fields: parseFields(bodyLines.join("\n")),
+      raw: [header, ...(closing === -1 ? lines : lines.slice(0, closing + 1))]
+        .join("\n")
+        .trim(),
+      complete: closing !== -1,
+    });
+  }
+
+  return segments;
+}
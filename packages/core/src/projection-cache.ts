@@ -0,0 +1,272 @@
+// agent-response-boxes: incremental, indexed projection of the event store.
+//
+// The cache remembers which file it indexed (device + inode), the byte offset
+// of the last complete line it folded, and hashes of the bytes around that
+// offset. Opening a session then only parses lines appended since. A changed
+// identity, a store shorter than the offset, or changed bytes before the
+// offset (rotation, truncation, compaction in place) force a full rebuild.
+// With a store key configured the cache is encrypted like the store, since it
+// holds the whole projection; a plaintext cache left from before the key
+// existed is deleted or rewritten encrypted.
+
+import { promises as fs } from "fs";
+import * as crypto from "crypto";
+
+import {
+  type StoreKey,
+  decryptLine,
+  encryptLine,
+  isEncryptedLine,
+  readStoreKey,
+} from "./encryption";
+import {
+  type Projection,
+  type ProjectionState,
+  emptyProjectionState,
+  foldEvents,
+  materializeProjection,
+} from "./projection";
+import { SUPPORTED_SCHEMA_VERSION, readEventStore } from "./schema";
+
+// Bump when ProjectionState or the cache layout changes
+export const PROJECTION_CACHE_VERSION = 3;
+
+// Rewrite the on-disk cache only after this many newly folded bytes; smaller
+// tails are cheap to re-fold on the next cold start
+const CHECKPOINT_BYTES = 1024 * 1024;
+
+// Bytes hashed at the start of the store and just before the indexed offset
+const FINGERPRINT_BYTES = 4096;
+
+export interface StoreIdentity {
+  readonly dev: number;
+  readonly ino: number;
+}
+
+export interface ProjectionCacheFile {
+  readonly version: number;
+  readonly schema_version: number;
+  readonly identity: StoreIdentity;
+  // Byte offset just past the last complete line folded into state
+  readonly offset: number;
+  readonly head_hash: string;
+  readonly tail_hash: string;
+  readonly newest_schema_version: number;
+  readonly unsupported_count: number;
+  readonly state: ProjectionState;
+}
+
+export interface IndexedProjection {
+  readonly cache: ProjectionCacheFile;
+  readonly projection: Projection;
+  // Offset of the cache as last written to disk
+  readonly persistedOffset: number;
+  // Whether the cache on disk is encrypted
+  readonly sealed: boolean;
+  // How this result was produced
+  readonly mode: "full" | "incremental" | "unchanged";
+}
+
+export function projectionCachePath(storeFile: string): string {
+  return `${storeFile}.projection.json`;
+}
+
+function errorCode(error: unknown): string | undefined {
+  return (error as NodeJS.ErrnoException | null)?.code;
+}
+
+async function readRange(
+  handle: fs.FileHandle,
+  start: number,
+  end: number,
+): Promise<Buffer> {
+  const length = Math.max(0, end - start);
+  const buffer = Buffer.alloc(length);
+  let read = 0;
+  while (read < length) {
+    const { bytesRead } = await handle.read(
+      buffer,
+      read,
+      length - read,
+      start + read,
+    );
+    if (bytesRead === 0) {
+      break;
+    }
+    read += bytesRead;
+  }
+  return buffer.subarray(0, read);
+}
+
+function hashBytes(bytes: Buffer): string {
+  return crypto.createHash("sha256").update(bytes).digest("hex").slice(0, 16);
+}
+
+async function fingerprint(
+  handle: fs.FileHandle,
+  offset: number,
+): Promise<{ head: string; tail: string }> {
+  const head = await readRange(handle, 0, Math.min(offset, FINGERPRINT_BYTES));
+  const tail = await readRange(
+    handle,
+    Math.max(0, offset - FINGERPRINT_BYTES),
+    offset,
+  );
+  return { head: hashBytes(head), tail: hashBytes(tail) };
+}
+
+// Null when the cache is missing, stale or cannot be decrypted with `key`.
+// With a key, a plaintext cache is deleted: it would keep the projection
+// readable next to an encrypted store.
+export async function readProjectionCache(
+  cacheFile: string,
+  key: StoreKey | null = null,
+): Promise<ProjectionCacheFile | null> {
+  try {
+    const raw = await fs.readFile(cacheFile, { encoding: "utf8" });
+    if (key !== null && !isEncryptedLine(raw)) {
+      await fs.rm(cacheFile, { force: true });
+      return null;
+    }
+    const parsed = JSON.parse(decryptLine(raw, key)) as ProjectionCacheFile;
+    return parsed.version === PROJECTION_CACHE_VERSION ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+async function writeProjectionCache(
+  cacheFile: string,
+  cache: ProjectionCacheFile,
+  key: StoreKey | null,
+): Promise<void> {
+  const tmp = `${cacheFile}.${process.pid}.tmp`;
+  const json = JSON.stringify(cache);
+  await fs.writeFile(tmp, key ? encryptLine(json, key) : json, {
+    encoding: "utf8",
+    mode: 0o600,
+  });
+  await fs.rename(tmp, cacheFile);
+}
+
+async function isCacheValid(
+  cache: ProjectionCacheFile,
+  handle: fs.FileHandle,
+  identity: StoreIdentity,
+  size: number,
+): Promise<boolean> {
+  if (
+    cache.version !== PROJECTION_CACHE_VERSION ||
+    cache.schema_version !== SUPPORTED_SCHEMA_VERSION ||
+    cache.identity.dev !== identity.dev ||
+    cache.identity.ino !== identity.ino ||
+    size < cache.offset
+  ) {
+    return false;
+  }
+
+  const { head, tail } = await fingerprint(handle, cache.offset);
+  return head === cache.head_hash && tail === cache.tail_hash;
+}
+
+// Reads the store through the cache. `previous` is the result of an earlier
+// call in this process (skips re-reading the cache file); null when the store
+// does not exist. `key` defaults to the configured store key; encrypted lines
+// it cannot open throw StoreDecryptionError.
+export async function readIndexedProjection(
+  storeFile: string,
+  previous: IndexedProjection | null = null,
+  cacheFile: string = projectionCachePath(storeFile),
+  key?: StoreKey | null,
+): Promise<IndexedProjection | null> {
+  const storeKey = key === undefined ? await readStoreKey() : key;
+  let handle: fs.FileHandle;
+  try {
+    handle = await fs.open(storeFile, "r");
+  } catch (error) {
+    if (errorCode(error) === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+
+  try {
+    const stat = await handle.stat();
+    const identity = { dev: stat.dev, ino: stat.ino };
+
+    const cached =
+      previous?.cache ?? (await readProjectionCache(cacheFile, storeKey));
+    const persistedOffset = previous
+      ? previous.persistedOffset
+      : (cached?.offset ?? 0);
+    const valid =
+      cached !== null &&
+      (await isCacheValid(cached, handle, identity, stat.size));
+    // The key appeared after this process last wrote the cache in plaintext
+    const unsealed = storeKey !== null && previous !== null && !previous.sealed;
+
+    if (valid && previous && cached.offset === stat.size && !unsealed) {
+      return { ...previous, mode: "unchanged" };
+    }
+
+    const start = valid ? cached.offset : 0;
+    const chunk = await readRange(handle, start, stat.size);
+
+    // Only fold complete lines; a line still being appended waits for the
+    // next read
+    const lastNewline = chunk.lastIndexOf(0x0a);
+    const complete = lastNewline === -1 ? 0 : lastNewline + 1;
+    const store = readEventStore(
+      chunk.subarray(0, complete).toString("utf8"),
+      storeKey,
+    );
+
+    // A previous in-process state is extended in place; a state parsed from
+    // disk is owned by this call
+    const state = foldEvents(
+      valid ? cached.state : emptyProjectionState(),
+      store.events,
+    );
+    const offset = start + complete;
+    const { head, tail } = await fingerprint(handle, offset);
+
+    const cache: ProjectionCacheFile = {
+      version: PROJECTION_CACHE_VERSION,
+      schema_version: SUPPORTED_SCHEMA_VERSION,
+      identity,
+      offset,
+      head_hash: head,
+      tail_hash: tail,
+      newest_schema_version: Math.max(
+        valid ? cached.newest_schema_version : 0,
+        store.newestSchemaVersion,
+      ),
+      unsupported_count:
+        (valid ? cached.unsupported_count : 0) + store.unsupportedCount,
+      state,
+    };
+
+    let written = valid ? persistedOffset : -1;
+    let sealed = previous?.sealed ?? storeKey !== null;
+    if (!valid || unsealed || offset - persistedOffset >= CHECKPOINT_BYTES) {
+      try {
+        await writeProjectionCache(cacheFile, cache, storeKey);
+        written = offset;
+        sealed = storeKey !== null;
+      } catch {
+        // The cache is an optimisation; a read-only directory only costs a
+        // rebuild next time
+      }
+    }
+
+    return {
+      cache,
+      projection: materializeProjection(state),
+      persistedOffset: written,
+      sealed,
+      mode: valid ? "incremental" : "full",
+    };
+  } finally {
+    await handle.close();
+  }
+}
@@ -0,0 +1,405 @@
+// agent-response-boxes: folds the event log into current Box/Learning state.
+//
+// TypeScript port of project_box / project_learning from docs/architecture.md.
+// Mutation events are applied in timestamp order (ties keep file order), and
+// relationship events may appear before or after the entities they reference.
+// A Snapshot left by compaction folds its nested events in its own position.
+
+import type {
+  AnalysisCompletedEvent,
+  BoxCreatedEvent,
+  BoxEnrichedEvent,
+  BoxEvent,
+  EvidenceLinkedEvent,
+  EvidenceRelationship,
+  FieldValue,
+  LearningCreatedEvent,
+  LearningLinkedEvent,
+  LearningRelationship,
+  LearningUpdatedEvent,
+  LearningProposedEvent,
+  ProposalAcceptedEvent,
+  ProposalRejectedEvent,
+  ProposedEvidence,
+} from "./events";
+import type { StoreSource } from "./store-layers";
+
+export interface EvidenceRef {
+  readonly learning_id: string;
+  readonly box_id: string;
+  readonly strength: number;
+  readonly relationship: EvidenceRelationship;
+  readonly ts: string;
+}
+
+export interface LearningRef {
+  readonly learning_id: string;
+  readonly relationship: LearningRelationship;
+}
+
+export interface Box {
+  readonly id: string;
+  readonly ts: string;
+  readonly box_type: string;
+  readonly fields: Record<string, FieldValue>;
+  readonly context: Record<string, unknown>;
+  readonly initial_score: number;
+  readonly schema_version: number;
+  // Captured without a closing rule
+  readonly incomplete: boolean;
+  // null when captured before field validation
+  readonly completeness: number | null;
+  readonly missing_fields: string[];
+  // Enriched score when present, otherwise initial_score
+  readonly score: number;
+  // Merged BoxEnriched updates (later events win)
+  readonly enrichments: Record<string, unknown>;
+  readonly linked_learnings: EvidenceRef[];
+  // Store the box was read from, set when global and project stores merge
+  readonly store?: StoreSource;
+}
+
+export interface Learning {
+  readonly id: string;
+  readonly ts: string;
+  readonly insight: string;
+  readonly confidence: number;
+  readonly scope: string;
+  readonly tags: string[];
+  readonly level: number;
+  // Timestamp of the most recent LearningUpdated, or ts when never updated
+  readonly updated_ts: string;
+  // Update keys that are not part of the typed schema
+  readonly attributes: Record<string, unknown>;
+  readonly evidence: EvidenceRef[];
+  readonly child_learnings: LearningRef[];
+  readonly parent_learnings: LearningRef[];
+  // Store the learning was read from, set when global and project stores merge
+  readonly store?: StoreSource;
+}
+
+export type ProposalStatus = "pending" | "accepted" | "rejected";
+
+export interface Proposal {
+  readonly id: string;
+  readonly ts: string;
+  readonly learning_id: string;
+  readonly insight: string;
+  readonly confidence: number;
+  readonly scope: string;
+  readonly tags: string[];
+  readonly level: number;
+  readonly evidence: ProposedEvidence[];
+  readonly source: string;
+  // The earliest decision wins; later ones are ignored
+  readonly status: ProposalStatus;
+  readonly decided_ts: string | null;
+  // Rejection reason ("" when none was given)
+  readonly reason: string;
+  // Reviewer edits applied on acceptance
+  readonly edits: Record<string, unknown>;
+  // Store the proposal was read from, set when global and project stores merge
+  readonly store?: StoreSource;
+}
+
+export interface Projection {
+  readonly boxes: Box[];
+  readonly learnings: Learning[];
+  // In file order, first LearningProposed per ID
+  readonly proposals: Proposal[];
+  readonly lastAnalysis: AnalysisCompletedEvent | null;
+}
+
+export function timeOf(ts: string): number {
+  return new Date(ts).getTime() || 0;
+}
+
+export function byTimestamp<T extends { readonly ts: string }>(
+  items: T[],
+): T[] {
+  return items
+    .map((item, index) => ({ item, index }))
+    .sort((a, b) => timeOf(a.item.ts) - timeOf(b.item.ts) || a.index - b.index)
+    .map(({ item }) => item);
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const id = key(item);
+    const group = groups.get(id);
+    if (group) {
+      group.push(item);
+    } else {
+      groups.set(id, [item]);
+    }
+  }
+  return groups;
+}
+
+function toEvidenceRef(link: EvidenceLinkedEvent): EvidenceRef {
+  return {
+    learning_id: link.learning_id,
+    box_id: link.box_id,
+    strength: link.strength,
+    relationship: link.relationship,
+    ts: link.ts,
+  };
+}
+
+export function projectBox(
+  created: BoxCreatedEvent,
+  enrichments: BoxEnrichedEvent[],
+  links: EvidenceLinkedEvent[],
+): Box {
+  const merged: Record<string, unknown> = {};
+  for (const enrichment of byTimestamp(enrichments)) {
+    Object.assign(merged, enrichment.updates);
+  }
+
+  const score =
+    typeof merged.score === "number" && Number.isFinite(merged.score)
+      ? merged.score
+      : created.initial_score;
+
+  return {
+    id: created.id,
+    ts: created.ts,
+    box_type: created.box_type,
+    fields: created.fields,
+    context: created.context,
+    initial_score: created.initial_score,
+    schema_version: created.schema_version,
+    incomplete: created.incomplete === true,
+    completeness: created.completeness ?? null,
+    missing_fields: created.missing_fields ?? [],
+    score,
+    enrichments: merged,
+    linked_learnings: links.map(toEvidenceRef),
+  };
+}
+
+export function projectProposal(
+  proposed: LearningProposedEvent,
+  decisions: (ProposalAcceptedEvent | ProposalRejectedEvent)[],
+): Proposal {
+  const [decision] = byTimestamp(decisions);
+  return {
+    id: proposed.id,
+    ts: proposed.ts,
+    learning_id: proposed.learning_id,
+    insight: proposed.insight,
+    confidence: proposed.confidence,
+    scope: proposed.scope,
+    tags: proposed.tags,
+    level: proposed.level,
+    evidence: proposed.evidence,
+    source: proposed.source,
+    status: !decision
+      ? "pending"
+      : decision.event === "ProposalAccepted"
+        ? "accepted"
+        : "rejected",
+    decided_ts: decision?.ts ?? null,
+    reason: decision?.event === "ProposalRejected" ? decision.reason : "",
+    edits: decision?.event === "ProposalAccepted" ? decision.edits : {},
+  };
+}
+
+export function projectLearning(
+  created: LearningCreatedEvent,
+  updates: LearningUpdatedEvent[],
+  evidence: EvidenceLinkedEvent[],
+  asParent: LearningLinkedEvent[],
+  asChild: LearningLinkedEvent[],
+): Learning {
+  let insight = created.insight;
+  let confidence = created.confidence;
+  let scope = created.scope;
+  let tags = created.tags;
+  let level = created.level;
+  let updatedTs = created.ts;
+  const attributes: Record<string, unknown> = {};
+
+  for (const update of byTimestamp(updates)) {
+    for (const [key, value] of Object.entries(update.updates)) {
+      if (key === "insight" && typeof value === "string" && value !== "") {
+        insight = value;
+      } else if (key === "confidence" && typeof value === "number") {
+        confidence = value;
+      } else if (key === "scope" && typeof value === "string") {
+        scope = value;
+      } else if (key === "level" && typeof value === "number") {
+        level = value;
+      } else if (key === "tags" && Array.isArray(value)) {
+        tags = value.filter((tag): tag is string => typeof tag === "string");
+      } else {
+        attributes[key] = value;
+      }
+    }
+    updatedTs = update.ts;
+  }
+
+  return {
+    id: created.id,
+    ts: created.ts,
+    insight,
+    confidence,
+    scope,
+    tags,
+    level,
+    updated_ts: updatedTs,
+    attributes,
+    evidence: evidence.map(toEvidenceRef),
+    child_learnings: asParent.map((link) => ({
+      learning_id: link.child_learning_id,
+      relationship: link.relationship,
+    })),
+    parent_learnings: asChild.map((link) => ({
+      learning_id: link.parent_learning_id,
+      relationship: link.relationship,
+    })),
+  };
+}
+
+// Events grouped by type, each list in file order. This is the serializable
+// state the projection cache persists; folding more events only appends, so
+// an incrementally folded state materializes exactly like a full replay.
+export interface ProjectionState {
+  boxesCreated: BoxCreatedEvent[];
+  learningsCreated: LearningCreatedEvent[];
+  enrichments: BoxEnrichedEvent[];
+  updates: LearningUpdatedEvent[];
+  evidence: EvidenceLinkedEvent[];
+  learningLinks: LearningLinkedEvent[];
+  proposals: LearningProposedEvent[];
+  decisions: (ProposalAcceptedEvent | ProposalRejectedEvent)[];
+  lastAnalysis: AnalysisCompletedEvent | null;
+}
+
+export function emptyProjectionState(): ProjectionState {
+  return {
+    boxesCreated: [],
+    learningsCreated: [],
+    enrichments: [],
+    updates: [],
+    evidence: [],
+    learningLinks: [],
+    proposals: [],
+    decisions: [],
+    lastAnalysis: null,
+  };
+}
+
+export function foldEvents(
+  state: ProjectionState,
+  events: BoxEvent[],
+): ProjectionState {
+  for (const event of events) {
+    switch (event.event) {
+      case "BoxCreated":
+        state.boxesCreated.push(event);
+        break;
+      case "LearningCreated":
+        state.learningsCreated.push(event);
+        break;
+      case "BoxEnriched":
+        state.enrichments.push(event);
+        break;
+      case "LearningUpdated":
+        state.updates.push(event);
+        break;
+      case "EvidenceLinked":
+        state.evidence.push(event);
+        break;
+      case "LearningLinked":
+        state.learningLinks.push(event);
+        break;
+      case "LearningProposed":
+        state.proposals.push(event);
+        break;
+      case "ProposalAccepted":
+      case "ProposalRejected":
+        state.decisions.push(event);
+        break;
+      case "AnalysisCompleted":
+        if (
+          !state.lastAnalysis ||
+          timeOf(event.ts) >= timeOf(state.lastAnalysis.ts)
+        ) {
+          state.lastAnalysis = event;
+        }
+        break;
+      case "Snapshot":
+        foldEvents(state, event.events);
+        break;
+    }
+  }
+  return state;
+}
+
+export function materializeProjection(state: ProjectionState): Projection {
+  const enrichmentsByBox = groupBy(state.enrichments, (e) => e.box_id);
+  const evidenceByBox = groupBy(state.evidence, (e) => e.box_id);
+  const evidenceByLearning = groupBy(state.evidence, (e) => e.learning_id);
+  const updatesByLearning = groupBy(state.updates, (e) => e.learning_id);
+  const linksByParent = groupBy(
+    state.learningLinks,
+    (e) => e.parent_learning_id,
+  );
+  const linksByChild = groupBy(state.learningLinks, (e) => e.child_learning_id);
+
+  // First creation event wins when an ID is reused
+  const seenBoxes = new Set<string>();
+  const boxes: Box[] = [];
+  for (const created of state.boxesCreated) {
+    if (seenBoxes.has(created.id)) {
+      continue;
+    }
+    seenBoxes.add(created.id);
+    boxes.push(
+      projectBox(
+        created,
+        enrichmentsByBox.get(created.id) ?? [],
+        evidenceByBox.get(created.id) ?? [],
+      ),
+    );
+  }
+
+  const seenLearnings = new Set<string>();
+  const learnings: Learning[] = [];
+  for (const created of state.learningsCreated) {
+    if (seenLearnings.has(created.id)) {
+      continue;
+    }
+    seenLearnings.add(created.id);
+    learnings.push(
+      projectLearning(
+        created,
+        updatesByLearning.get(created.id) ?? [],
+        evidenceByLearning.get(created.id) ?? [],
+        linksByParent.get(created.id) ?? [],
+        linksByChild.get(created.id) ?? [],
+      ),
+    );
+  }
+
+  const decisionsByProposal = groupBy(state.decisions, (e) => e.proposal_id);
+  const seenProposals = new Set<string>();
+  const proposals: Proposal[] = [];
+  for (const proposed of state.proposals) {
+    if (seenProposals.has(proposed.id)) {
+      continue;
+    }
+    seenProposals.add(proposed.id);
+    proposals.push(
+      projectProposal(proposed, decisionsByProposal.get(proposed.id) ?? []),
+    );
+  }
+
+  return { boxes, learnings, proposals, lastAnalysis: state.lastAnalysis };
+}
+
+export function projectEvents(events: BoxEvent[]): Projection {
+  return materializeProjection(foldEvents(emptyProjectionState(), events));
+}
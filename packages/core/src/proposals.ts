@@ -0,0 +1,274 @@
+// agent-response-boxes: the review queue for proposed learnings.
+//
+// The synthesiser and /analyze-boxes append LearningProposed events instead
+// of learnings. A reviewer accepts a proposal (optionally editing it), which
+// appends ProposalAccepted plus the LearningCreated and EvidenceLinked events
+// it describes, or rejects it. Rejections stay in the store, and a rejected
+// insight is not proposed again.
+
+import type {
+  BoxEvent,
+  EvidenceLinkedEvent,
+  LearningCreatedEvent,
+  LearningProposedEvent,
+  LearningUpdatedEvent,
+  ProposalAcceptedEvent,
+  ProposalRejectedEvent,
+} from "./events";
+import type { Learning, Projection, Proposal } from "./projection";
+import { tokenize } from "./retrieval";
+import { SUPPORTED_SCHEMA_VERSION } from "./schema";
+
+export interface ProposalEdits {
+  readonly insight?: string;
+  readonly confidence?: number;
+  readonly scope?: string;
+  readonly tags?: string[];
+}
+
+export interface ProposalChange {
+  readonly field: "insight" | "confidence" | "scope" | "tags" | "level";
+  // null when the learning does not exist yet
+  readonly from: unknown;
+  readonly to: unknown;
+}
+
+export interface ProposalDiff {
+  // The learning the proposal would update; null when it creates one
+  readonly target: Learning | null;
+  // Fields that differ from the target (every field when there is none)
+  readonly changes: ProposalChange[];
+  // Other learnings with a similar insight, most similar first
+  readonly similar: Learning[];
+}
+
+export class ProposalDecidedError extends Error {
+  constructor(readonly proposal: Proposal) {
+    super(`Proposal ${proposal.id} is already ${proposal.status}`);
+    this.name = "ProposalDecidedError";
+  }
+}
+
+// Share of insight words two learnings need in common to count as similar
+const SIMILAR_INSIGHT = 0.5;
+
+// Insights that differ only in case, spacing or punctuation are the same
+export function insightKey(insight: string): string {
+  return (insight.toLowerCase().match(/[a-z0-9]+/g) ?? []).join(" ");
+}
+
+export function proposalIdFor(learningId: string): string {
+  return `proposal_${learningId.replace(/^learning_/, "")}`;
+}
+
+// Replaces each LearningCreated (and the EvidenceLinked events for it) with
+// a LearningProposed; other events pass through unchanged
+export function toProposals(events: BoxEvent[], source: string): BoxEvent[] {
+  const links = new Map<string, EvidenceLinkedEvent[]>();
+  for (const event of events) {
+    if (event.event === "EvidenceLinked") {
+      links.set(event.learning_id, [
+        ...(links.get(event.learning_id) ?? []),
+        event,
+      ]);
+    }
+  }
+  const proposed = new Set(
+    events.flatMap((event) =>
+      event.event === "LearningCreated" ? [event.id] : [],
+    ),
+  );
+
+  return events.flatMap((event): BoxEvent[] => {
+    if (event.event === "LearningCreated") {
+      return [proposeLearning(event, links.get(event.id) ?? [], source)];
+    }
+    if (event.event === "EvidenceLinked" && proposed.has(event.learning_id)) {
+      return [];
+    }
+    return [event];
+  });
+}
+
+export function proposeLearning(
+  created: LearningCreatedEvent,
+  links: EvidenceLinkedEvent[],
+  source: string,
+): LearningProposedEvent {
+  return {
+    event: "LearningProposed",
+    id: proposalIdFor(created.id),
+    ts: created.ts,
+    learning_id: created.id,
+    insight: created.insight,
+    confidence: created.confidence,
+    scope: created.scope,
+    tags: created.tags,
+    level: created.level,
+    evidence: links.map((link) => ({
+      box_id: link.box_id,
+      strength: link.strength,
+      relationship: link.relationship,
+    })),
+    source,
+    schema_version: SUPPORTED_SCHEMA_VERSION,
+  };
+}
+
+// True when proposing this learning again would repeat a pending proposal or
+// one the reviewer already turned down
+export function isProposalBlocked(
+  projection: Projection,
+  learningId: string,
+  insight: string,
+): boolean {
+  const key = insightKey(insight);
+  return projection.proposals.some(
+    (proposal) =>
+      (proposal.learning_id === learningId && proposal.status !== "accepted") ||
+      (proposal.status === "rejected" && insightKey(proposal.insight) === key),
+  );
+}
+
+export function findProposal(
+  projection: Projection,
+  id: string,
+): Proposal | null {
+  return projection.proposals.find((proposal) => proposal.id === id) ?? null;
+}
+
+export function pendingProposals(projection: Projection): Proposal[] {
+  return projection.proposals.filter(
+    (proposal) => proposal.status === "pending",
+  );
+}
+
+function proposedValues(
+  proposal: Proposal,
+  edits: ProposalEdits,
+): Pick<Learning, "insight" | "confidence" | "scope" | "tags" | "level"> {
+  return {
+    insight: edits.insight ?? proposal.insight,
+    confidence: edits.confidence ?? proposal.confidence,
+    scope: edits.scope ?? proposal.scope,
+    tags: edits.tags ?? proposal.tags,
+    level: proposal.level,
+  };
+}
+
+function wordOverlap(a: string, b: string): number {
+  const left = new Set(tokenize(a));
+  const right = new Set(tokenize(b));
+  const shared = [...left].filter((token) => right.has(token)).length;
+  const total = new Set([...left, ...right]).size;
+  return total === 0 ? 0 : shared / total;
+}
+
+export function proposalDiff(
+  projection: Projection,
+  proposal: Proposal,
+  edits: ProposalEdits = {},
+): ProposalDiff {
+  const target =
+    projection.learnings.find(
+      (learning) => learning.id === proposal.learning_id,
+    ) ?? null;
+  const values = proposedValues(proposal, edits);
+  const changes = (Object.keys(values) as ProposalChange["field"][])
+    .map((field) => ({
+      field,
+      from: target ? target[field] : null,
+      to: values[field],
+    }))
+    .filter(
+      (change) => JSON.stringify(change.from) !== JSON.stringify(change.to),
+    );
+  const similar = projection.learnings
+    .filter((learning) => learning.id !== proposal.learning_id)
+    .map((learning) => ({
+      learning,
+      overlap: wordOverlap(learning.insight, values.insight),
+    }))
+    .filter(({ overlap }) => overlap >= SIMILAR_INSIGHT)
+    .sort((a, b) => b.overlap - a.overlap)
+    .map(({ learning }) => learning);
+  return { target, changes, similar };
+}
+
+// The events that accept a pending proposal: the decision, then the learning
+// (or an update of it when it already exists) and its evidence
+export function acceptProposal(
+  projection: Projection,
+  proposal: Proposal,
+  edits: ProposalEdits,
+  now: Date,
+): BoxEvent[] {
+  if (proposal.status !== "pending") {
+    throw new ProposalDecidedError(proposal);
+  }
+
+  const ts = now.toISOString();
+  const { target, changes } = proposalDiff(projection, proposal, edits);
+  const accepted: ProposalAcceptedEvent = {
+    event: "ProposalAccepted",
+    id: `${proposal.id}_accepted`,
+    ts,
+    proposal_id: proposal.id,
+    learning_id: proposal.learning_id,
+    edits: { ...edits },
+    schema_version: SUPPORTED_SCHEMA_VERSION,
+  };
+
+  const learning: LearningCreatedEvent | LearningUpdatedEvent | null = !target
+    ? {
+        event: "LearningCreated",
+        id: proposal.learning_id,
+        ts,
+        ...proposedValues(proposal, edits),
+        schema_version: SUPPORTED_SCHEMA_VERSION,
+      }
+    : changes.length > 0
+      ? {
+          event: "LearningUpdated",
+          id: `${proposal.id}_update`,
+          ts,
+          learning_id: proposal.learning_id,
+          updates: Object.fromEntries(
+            changes.map((change) => [change.field, change.to]),
+          ),
+          schema_version: SUPPORTED_SCHEMA_VERSION,
+        }
+      : null;
+
+  const linked = new Set(target?.evidence.map((link) => link.box_id) ?? []);
+  const links: EvidenceLinkedEvent[] = proposal.evidence
+    .filter((link) => !linked.has(link.box_id))
+    .map((link, index) => ({
+      event: "EvidenceLinked",
+      id: `${proposal.id}_link_${index + 1}`,
+      ts,
+      learning_id: proposal.learning_id,
+      ...link,
+      schema_version: SUPPORTED_SCHEMA_VERSION,
+    }));
+
+  return [accepted, ...(learning ? [learning] : []), ...links];
+}
+
+export function rejectProposal(
+  proposal: Proposal,
+  reason: string,
+  now: Date,
+): ProposalRejectedEvent {
+  if (proposal.status !== "pending") {
+    throw new ProposalDecidedError(proposal);
+  }
+  return {
+    event: "ProposalRejected",
+    id: `${proposal.id}_rejected`,
+    ts: now.toISOString(),
+    proposal_id: proposal.id,
+    reason,
+    schema_version: SUPPORTED_SCHEMA_VERSION,
+  };
+}
@@ -0,0 +1,212 @@
+// agent-response-boxes: read-only queries over a projection for the
+// response-boxes CLI (filters, box detail and store statistics).
+
+import { normalizeRemoteUrl } from "./git";
+import {
+  type Box,
+  type EvidenceRef,
+  type Learning,
+  type Projection,
+  timeOf,
+} from "./projection";
+import { boxRepo } from "./ranking";
+
+export interface BoxFilter {
+  readonly boxType?: string;
+  // Any remote form; compared after normalizeRemoteUrl
+  readonly repo?: string;
+  readonly agent?: string;
+  // A file or directory the box's turn touched (context.files_touched)
+  readonly path?: string;
+  // Inclusive lower and exclusive upper bound on the box timestamp
+  readonly since?: Date;
+  readonly until?: Date;
+}
+
+export interface BoxEvidence {
+  readonly link: EvidenceRef;
+  // null when the learning is not in the store (e.g. linked before creation)
+  readonly learning: Learning | null;
+}
+
+export interface BoxDetail {
+  readonly box: Box;
+  readonly agent: string;
+  readonly repo: string;
+  readonly files_touched: string[];
+  readonly commands: string[];
+  readonly evidence: BoxEvidence[];
+}
+
+export interface StoreStats {
+  readonly boxes: number;
+  readonly learnings: number;
+  readonly evidence_links: number;
+  readonly first_box_ts: string | null;
+  readonly last_box_ts: string | null;
+  readonly last_analysis_ts: string | null;
+  readonly by_type: Record<string, number>;
+  readonly by_agent: Record<string, number>;
+  // Keyed by normalized remote; "" collects boxes captured outside a repo
+  readonly by_repo: Record<string, number>;
+  // Boxes captured without a closing rule or missing required fields
+  readonly incomplete: number;
+  readonly malformed: number;
+  readonly malformed_by_type: Record<string, number>;
+}
+
+// Collectors that predate the `agent` context key
+const AGENT_BY_SOURCE: Readonly<Record<string, string>> = {
+  opencode_plugin: "OpenCode",
+  cursor_hook: "Cursor",
+  windsurf_hook: "Windsurf",
+};
+
+// session-processor.sh records neither `agent` nor `source`
+const DEFAULT_AGENT = "Claude Code";
+
+export function boxAgent(box: Box): string {
+  const { agent, source } = box.context;
+  if (typeof agent === "string" && agent !== "") {
+    return agent;
+  }
+  if (typeof source === "string" && source in AGENT_BY_SOURCE) {
+    return AGENT_BY_SOURCE[source];
+  }
+  return DEFAULT_AGENT;
+}
+
+function contextList(box: Box, key: string): string[] {
+  const value = box.context[key];
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === "string")
+    : [];
+}
+
+export function boxFiles(box: Box): string[] {
+  return contextList(box, "files_touched");
+}
+
+function pathKey(file: string): string {
+  return file.trim().replace(/^\.\//, "").replace(/\/+$/, "");
+}
+
+// True when the box's turn touched `target` or a file under it
+export function boxTouchesPath(box: Box, target: string): boolean {
+  const key = pathKey(target);
+  return boxFiles(box).some((file) => {
+    const touched = pathKey(file);
+    return touched === key || touched.startsWith(`${key}/`);
+  });
+}
+
+// Learnings with evidence from a box that touched `target`, in input order
+export function learningsForPath<T extends Learning>(
+  projection: Projection,
+  learnings: T[],
+  target: string,
+): T[] {
+  const boxes = new Set(
+    projection.boxes
+      .filter((box) => boxTouchesPath(box, target))
+      .map((box) => box.id),
+  );
+  return learnings.filter((learning) =>
+    learning.evidence.some((link) => boxes.has(link.box_id)),
+  );
+}
+
+// "claude-code", "Claude Code" and "claudecode" all name the same agent
+function agentKey(agent: string): string {
+  return agent.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+export function filterBoxes(projection: Projection, filter: BoxFilter): Box[] {
+  const boxType = filter.boxType?.toLowerCase();
+  const repo =
+    filter.repo === undefined ? undefined : normalizeRemoteUrl(filter.repo);
+  const agent = filter.agent === undefined ? undefined : agentKey(filter.agent);
+  const since = filter.since?.getTime();
+  const until = filter.until?.getTime();
+
+  const matches = projection.boxes.filter((box) => {
+    const time = timeOf(box.ts);
+    return (
+      (boxType === undefined || box.box_type.toLowerCase() === boxType) &&
+      (repo === undefined || boxRepo(box) === repo) &&
+      (agent === undefined || agentKey(boxAgent(box)) === agent) &&
+      (filter.path === undefined || boxTouchesPath(box, filter.path)) &&
+      (since === undefined || time >= since) &&
+      (until === undefined || time < until)
+    );
+  });
+
+  // Newest first; ties keep store order
+  return matches
+    .map((box, index) => ({ box, index }))
+    .sort((a, b) => timeOf(b.box.ts) - timeOf(a.box.ts) || a.index - b.index)
+    .map(({ box }) => box);
+}
+
+export function boxDetail(
+  projection: Projection,
+  id: string,
+): BoxDetail | null {
+  const box = projection.boxes.find((candidate) => candidate.id === id);
+  if (!box) {
+    return null;
+  }
+
+  const learningsById = new Map(
+    projection.learnings.map((learning) => [learning.id, learning]),
+  );
+  return {
+    box,
+    agent: boxAgent(box),
+    repo: boxRepo(box),
+    files_touched: boxFiles(box),
+    commands: contextList(box, "commands"),
+    evidence: box.linked_learnings.map((link) => ({
+      link,
+      learning: learningsById.get(link.learning_id) ?? null,
+    })),
+  };
+}
+
+function countBy<T>(
+  items: T[],
+  key: (item: T) => string,
+): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const item of items) {
+    const value = key(item);
+    counts[value] = (counts[value] ?? 0) + 1;
+  }
+  return counts;
+}
+
+export function storeStats(projection: Projection): StoreStats {
+  const { boxes, learnings } = projection;
+  const malformed = boxes.filter((box) => box.missing_fields.length > 0);
+  const times = boxes
+    .map((box) => box.ts)
+    .sort((a, b) => timeOf(a) - timeOf(b));
+
+  return {
+    boxes: boxes.length,
+    learnings: learnings.length,
+    evidence_links: learnings.reduce(
+      (sum, learning) => sum + learning.evidence.length,
+      0,
+    ),
+    first_box_ts: times[0] ?? null,
+    last_box_ts: times[times.length - 1] ?? null,
+    last_analysis_ts: projection.lastAnalysis?.ts ?? null,
+    by_type: countBy(boxes, (box) => box.box_type),
+    by_agent: countBy(boxes, boxAgent),
+    by_repo: countBy(boxes, (box) => boxRepo(box)),
+    incomplete: boxes.filter((box) => box.incomplete).length,
+    malformed: malformed.length,
+    malformed_by_type: countBy(malformed, (box) => box.box_type),
+  };
+}
@@ -0,0 +1,271 @@
+// agent-response-boxes: secret and PII redaction before events hit disk.
+//
+// Boxes quote whatever the agent saw: env files, tokens, customer emails,
+// paths under the user's home. The OpenCode plugin runs every BoxCreated
+// through these rules before appending it and records how many matches were
+// replaced in `redactions`, so the shared store is safe to sync or share.
+// Teams add rules, or disable or override built-in ones by name, in
+// ~/.response-boxes/redactions.json ($RESPONSE_BOXES_REDACTIONS).
+
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import type { BoxCreatedEvent, FieldValue } from "./events";
+
+export interface RedactionRule {
+  readonly name: string;
+  // Always global; replacement may refer to its groups ($1, $2, ...)
+  readonly pattern: RegExp;
+  readonly replacement: string;
+}
+
+export interface RedactionResult<T> {
+  readonly value: T;
+  readonly redactions: number;
+}
+
+function rule(
+  name: string,
+  pattern: RegExp,
+  replacement?: string,
+): RedactionRule {
+  return { name, pattern, replacement: replacement ?? `[REDACTED:${name}]` };
+}
+
+// Order matters: credentials inside URLs go before emails, JWTs before
+// bearer tokens, and the assignment rules skip values already redacted
+const BUILT_IN_RULES: readonly RedactionRule[] = [
+  rule(
+    "private_key",
+    /-----BEGIN [A-Z0-9 ]*PRIVATE KEY-----[\s\S]*?(?:-----END [A-Z0-9 ]*PRIVATE KEY-----|$)/g,
+  ),
+  rule(
+    "jwt",
+    /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g,
+  ),
+  rule("aws_access_key", /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g),
+  rule(
+    "github_token",
+    /\b(?:gh[opsur]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g,
+  ),
+  rule("slack_token", /\bxox[abprs]-[A-Za-z0-9-]{10,}/g),
+  rule("google_api_key", /\bAIza[0-9A-Za-z_-]{35}(?![0-9A-Za-z_-])/g),
+  rule(
+    "api_key",
+    /\b(?:sk-[A-Za-z0-9_-]{20,}|[rs]k_(?:live|test)_[A-Za-z0-9]{16,})/g,
+  ),
+  rule(
+    "bearer_token",
+    /\b(Bearer\s+)(?!\[REDACTED)[A-Za-z0-9._~+/-]{16,}=*/g,
+    "$1[REDACTED:bearer_token]",
+  ),
+  rule(
+    "url_credentials",
+    /\b([a-z][a-z0-9+.-]*:\/\/)[^\s:/@]+:[^\s/@]+@/gi,
+    "$1[REDACTED:url_credentials]@",
+  ),
+  // NAME=value where NAME looks like an env var holding a secret
+  rule(
+    "env_secret",
+    /\b([A-Z0-9_]*(?:SECRET|TOKEN|PASSWORD|PASSWD|CREDENTIALS?|_KEY)[A-Z0-9_]*\s*[=:]\s*)(["']?)(?!\[REDACTED)[^\s"'`]{6,}\2/g,
+    "$1$2[REDACTED:secret]$2",
+  ),
+  // Quoted values of secret-like keys in JSON, YAML or code
+  rule(
+    "config_secret",
+    /\b((?:password|passwd|secret|token|api[_-]?key|access[_-]?key|client[_-]?secret)["']?\s*[:=]\s*)(["'])(?!\[REDACTED)[^"'\s]{6,}\2/gi,
+    "$1$2[REDACTED:secret]$2",
+  ),
+  // Not the user part of an SSH remote (git@host:path, ssh://git@host/path)
+  rule(
+    "email",
+    /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}\b(?![:/])/g,
+  ),
+];
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// /Users/<name>, /home/<name> and C:\Users\<name> become ~, as does the
+// current home directory wherever it lives (e.g. /root)
+export function homePathRule(home: string = os.homedir()): RedactionRule {
+  const generic = String.raw`\/(?:Users|home)\/[^/\s"'\x60]+|[A-Za-z]:[\\/]Users[\\/][^\\/\s"'\x60]+`;
+  const own =
+    home === "" ||
+    home === path.sep ||
+    new RegExp(`^(?:${generic})$`).test(home)
+      ? ""
+      : `|${escapeRegExp(home)}${String.raw`(?![^/\\\s"'\x60])`}`;
+  return rule(
+    "home_path",
+    new RegExp(String.raw`(?<![\w.~/-])(?:${generic}${own})`, "g"),
+    "~",
+  );
+}
+
+export function defaultRedactionRules(
+  home: string = os.homedir(),
+): RedactionRule[] {
+  return [...BUILT_IN_RULES, homePathRule(home)];
+}
+
+type RawRecord = Record<string, unknown>;
+
+function isRecord(value: unknown): value is RawRecord {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// A rule from redactions.json; null when it is malformed, does not compile,
+// or matches the empty string
+function customRule(raw: unknown): RedactionRule | null {
+  if (
+    !isRecord(raw) ||
+    typeof raw.name !== "string" ||
+    raw.name === "" ||
+    typeof raw.pattern !== "string"
+  ) {
+    return null;
+  }
+  const flags = typeof raw.flags === "string" ? raw.flags : "";
+  if (!/^[imsu]*$/.test(flags)) {
+    return null;
+  }
+
+  let pattern: RegExp;
+  try {
+    pattern = new RegExp(raw.pattern, `${flags}g`);
+  } catch {
+    return null;
+  }
+  if (new RegExp(raw.pattern, flags).test("")) {
+    return null;
+  }
+  return rule(
+    raw.name,
+    pattern,
+    typeof raw.replacement === "string" ? raw.replacement : undefined,
+  );
+}
+
+// Applies a redactions.json file on top of `base`: names in `disable` are
+// dropped, rules with a known name replace that rule in place, and other
+// rules run after the built-in ones. Malformed rules are skipped.
+export function mergeRedactionRules(
+  base: readonly RedactionRule[],
+  raw: unknown,
+): RedactionRule[] {
+  if (!isRecord(raw)) {
+    return [...base];
+  }
+
+  const disabled = new Set(
+    Array.isArray(raw.disable)
+      ? raw.disable.filter((name): name is string => typeof name === "string")
+      : [],
+  );
+  const rules = [...base];
+  for (const entry of Array.isArray(raw.rules) ? raw.rules : []) {
+    const custom = customRule(entry);
+    if (custom === null) {
+      continue;
+    }
+    const index = rules.findIndex((existing) => existing.name === custom.name);
+    if (index === -1) {
+      rules.push(custom);
+    } else {
+      rules[index] = custom;
+    }
+  }
+  return rules.filter((existing) => !disabled.has(existing.name));
+}
+
+export function resolveRedactionsFile(
+  env: NodeJS.ProcessEnv = process.env,
+): string {
+  return (
+    env.RESPONSE_BOXES_REDACTIONS ??
+    path.join(os.homedir(), ".response-boxes", "redactions.json")
+  );
+}
+
+// Built-in rules plus the team's; a missing or unreadable file leaves the
+// built-in rules in place
+export async function readRedactionRules(
+  file: string = resolveRedactionsFile(),
+): Promise<RedactionRule[]> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(file, { encoding: "utf8" });
+  } catch {
+    return defaultRedactionRules();
+  }
+
+  try {
+    return mergeRedactionRules(defaultRedactionRules(), JSON.parse(raw));
+  } catch {
+    return defaultRedactionRules();
+  }
+}
+
+export function redactText(
+  text: string,
+  rules: readonly RedactionRule[],
+): RedactionResult<string> {
+  let value = text;
+  let redactions = 0;
+  for (const { pattern, replacement } of rules) {
+    const matches = [...value.matchAll(pattern)].length;
+    if (matches > 0) {
+      redactions += matches;
+      value = value.replace(pattern, replacement);
+    }
+  }
+  return { value, redactions };
+}
+
+// Redacts every string in a JSON-like value, keeping its shape
+function redactValue(
+  value: unknown,
+  rules: readonly RedactionRule[],
+): RedactionResult<unknown> {
+  if (typeof value === "string") {
+    return redactText(value, rules);
+  }
+  if (Array.isArray(value)) {
+    const items = value.map((item) => redactValue(item, rules));
+    return {
+      value: items.map((item) => item.value),
+      redactions: items.reduce((sum, item) => sum + item.redactions, 0),
+    };
+  }
+  if (isRecord(value)) {
+    const entries = Object.entries(value).map(
+      ([key, item]) => [key, redactValue(item, rules)] as const,
+    );
+    return {
+      value: Object.fromEntries(
+        entries.map(([key, item]) => [key, item.value]),
+      ),
+      redactions: entries.reduce((sum, [, item]) => sum + item.redactions, 0),
+    };
+  }
+  return { value, redactions: 0 };
+}
+
+// The event with its fields and context redacted and the number of
+// replacements recorded in `redactions` (0 when nothing matched)
+export function redactBoxCreated(
+  created: BoxCreatedEvent,
+  rules: readonly RedactionRule[],
+): BoxCreatedEvent {
+  const fields = redactValue(created.fields, rules);
+  const context = redactValue(created.context, rules);
+  return {
+    ...created,
+    fields: fields.value as Record<string, FieldValue>,
+    context: context.value as Record<string, unknown>,
+    redactions: fields.redactions + context.redactions,
+  };
+}
@@ -0,0 +1,166 @@
+// agent-response-boxes: per-repository capture and injection policy.
+//
+// RESPONSE_BOXES_DISABLED switches everything off for a process. A
+// .response-boxes.json at the root of a worktree narrows that per repository:
+//
+//   {"capture": true, "scope": "global", "box_types": ["Warning"],
+//    "keep_fields": false, "inject": false, "write_target": "project"}
+//
+// Every key is optional and defaults to today's behaviour. The bash hooks
+// apply the same rules (see "Repository Policy" in docs/architecture.md),
+// except write_target: they always write to the global store.
+// A policy file that cannot be read as a JSON object disables capture, so a
+// typo never records boxes from a repository that opted out.
+
+import { promises as fs } from "fs";
+import * as path from "path";
+
+import type { BoxCreatedEvent } from "./events";
+import { type BoxTypeRegistry, findBoxType } from "./registry";
+import type { StoreSource } from "./store-layers";
+
+export const REPO_POLICY_FILE = ".response-boxes.json";
+
+// "global" records boxes without repository context, so they can only
+// support global learnings
+export type CaptureScope = "repo" | "global";
+
+export interface RepoPolicy {
+  readonly capture: boolean;
+  readonly scope: CaptureScope;
+  // Box types (names or aliases) to record; null records every type
+  readonly boxTypes: readonly string[] | null;
+  // false records each box's type and context but not its field values
+  readonly keepFields: boolean;
+  readonly inject: boolean;
+  // Store captured boxes are appended to (see store-layers.ts)
+  readonly writeTarget: StoreSource;
+}
+
+export const DEFAULT_REPO_POLICY: RepoPolicy = {
+  capture: true,
+  scope: "repo",
+  boxTypes: null,
+  keepFields: true,
+  inject: true,
+  writeTarget: "global",
+};
+
+// Context keys that identify the repository or its files
+const REPO_CONTEXT_KEYS = [
+  "directory",
+  "worktree",
+  "git_remote",
+  "git_branch",
+  "files_touched",
+  "commands",
+];
+
+type RawRecord = Record<string, unknown>;
+
+function isRecord(value: unknown): value is RawRecord {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Unknown keys and values of the wrong type fall back to the defaults; a
+// value that is not an object disables capture
+export function parseRepoPolicy(raw: unknown): RepoPolicy {
+  if (!isRecord(raw)) {
+    return { ...DEFAULT_REPO_POLICY, capture: false };
+  }
+
+  return {
+    capture:
+      typeof raw.capture === "boolean"
+        ? raw.capture
+        : DEFAULT_REPO_POLICY.capture,
+    scope:
+      raw.scope === "repo" || raw.scope === "global"
+        ? raw.scope
+        : DEFAULT_REPO_POLICY.scope,
+    boxTypes: Array.isArray(raw.box_types)
+      ? raw.box_types.filter((name): name is string => typeof name === "string")
+      : DEFAULT_REPO_POLICY.boxTypes,
+    keepFields:
+      typeof raw.keep_fields === "boolean"
+        ? raw.keep_fields
+        : DEFAULT_REPO_POLICY.keepFields,
+    inject:
+      typeof raw.inject === "boolean" ? raw.inject : DEFAULT_REPO_POLICY.inject,
+    writeTarget:
+      raw.write_target === "project" || raw.write_target === "global"
+        ? raw.write_target
+        : DEFAULT_REPO_POLICY.writeTarget,
+  };
+}
+
+// The policy of the worktree at `root`; the defaults when it has none
+export async function readRepoPolicy(root: string): Promise<RepoPolicy> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(path.join(root, REPO_POLICY_FILE), {
+      encoding: "utf8",
+    });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException | null)?.code === "ENOENT") {
+      return DEFAULT_REPO_POLICY;
+    }
+    return parseRepoPolicy(null);
+  }
+
+  try {
+    return parseRepoPolicy(JSON.parse(raw));
+  } catch {
+    return parseRepoPolicy(null);
+  }
+}
+
+// Type names compare like registry names: without case, spaces or
+// punctuation, and aliases resolve to their type
+function typeKey(registry: BoxTypeRegistry, name: string): string {
+  return (findBoxType(registry, name)?.name ?? name)
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, "");
+}
+
+export function repoPolicyCaptures(
+  policy: RepoPolicy,
+  boxType: string,
+  registry: BoxTypeRegistry,
+): boolean {
+  if (!policy.capture) {
+    return false;
+  }
+  if (policy.boxTypes === null) {
+    return true;
+  }
+  const key = typeKey(registry, boxType);
+  return policy.boxTypes.some((name) => typeKey(registry, name) === key);
+}
+
+// The event as the policy records it: without field values (and so without
+// validation results) when keepFields is off, and without repository context
+// for the global scope
+export function applyRepoPolicy(
+  created: BoxCreatedEvent,
+  policy: RepoPolicy,
+): BoxCreatedEvent {
+  const context =
+    policy.scope === "global"
+      ? Object.fromEntries(
+          Object.entries(created.context).filter(
+            ([key]) => !REPO_CONTEXT_KEYS.includes(key),
+          ),
+        )
+      : created.context;
+  if (policy.keepFields) {
+    return { ...created, context };
+  }
+
+  const {
+    completeness: _completeness,
+    missing_fields: _missing,
+    ...rest
+  } = created;
+  return { ...rest, fields: {}, context };
+}
@@ -0,0 +1,156 @@
+// agent-response-boxes: encrypting or decrypting an existing store in place.
+//
+// Migration rewrites the store and its monthly archives line by line under
+// the shared store lock: `encrypt` seals plaintext lines (lines that already
+// are envelopes stay as they are), `decrypt` opens every envelope. All files
+// are converted in memory before any is replaced, so a line that cannot be
+// decrypted aborts the run without touching the store. The projection cache
+// is deleted because it mirrors the store in the old form.
+
+import { promises as fs } from "fs";
+import * as path from "path";
+
+import {
+  type StoreKey,
+  decryptLine,
+  encryptLine,
+  isEncryptedLine,
+} from "./encryption";
+import { projectionCachePath } from "./projection-cache";
+import {
+  type StoreLockConfig,
+  readStoreLockConfig,
+  withStoreLock,
+} from "./store";
+
+export type StoreEncryptionMode = "encrypt" | "decrypt";
+
+export interface StoreEncryptionResult {
+  // Files rewritten, the store first
+  readonly files: string[];
+  readonly convertedLines: number;
+}
+
+export interface StoreEncryptionStatus {
+  readonly files: string[];
+  readonly encryptedLines: number;
+  readonly plaintextLines: number;
+}
+
+function errorCode(error: unknown): string | undefined {
+  return (error as NodeJS.ErrnoException | null)?.code;
+}
+
+// The store followed by its archives (<store>-YYYY-MM.jsonl), oldest first
+export async function storeFiles(storeFile: string): Promise<string[]> {
+  const dir = path.dirname(storeFile);
+  const base = path.basename(storeFile).replace(/\.jsonl$/, "");
+  let entries: string[];
+  try {
+    entries = await fs.readdir(dir);
+  } catch (error) {
+    if (errorCode(error) === "ENOENT") {
+      return [];
+    }
+    throw error;
+  }
+
+  const archives = entries
+    .filter(
+      (entry) =>
+        entry.startsWith(`${base}-`) &&
+        /^[0-9]{4}-[0-9]{2}\.jsonl$/.test(entry.slice(base.length + 1)),
+    )
+    .sort()
+    .map((entry) => path.join(dir, entry));
+  return entries.includes(path.basename(storeFile))
+    ? [storeFile, ...archives]
+    : archives;
+}
+
+function storeLines(raw: string): string[] {
+  return raw.split("\n").filter((line) => line.trim() !== "");
+}
+
+export async function storeEncryptionStatus(
+  storeFile: string,
+): Promise<StoreEncryptionStatus> {
+  const files = await storeFiles(storeFile);
+  let encryptedLines = 0;
+  let plaintextLines = 0;
+  for (const file of files) {
+    for (const line of storeLines(
+      await fs.readFile(file, { encoding: "utf8" }),
+    )) {
+      if (isEncryptedLine(line)) {
+        encryptedLines += 1;
+      } else {
+        plaintextLines += 1;
+      }
+    }
+  }
+  return { files, encryptedLines, plaintextLines };
+}
+
+function convertLine(
+  line: string,
+  mode: StoreEncryptionMode,
+  key: StoreKey,
+): string {
+  if (mode === "decrypt") {
+    return decryptLine(line, key);
+  }
+  return isEncryptedLine(line) ? line : encryptLine(line, key);
+}
+
+// Converts the store and its archives; throws StoreDecryptionError (leaving
+// every file unchanged) when decrypting a line sealed with another key
+export async function convertStore(
+  storeFile: string,
+  mode: StoreEncryptionMode,
+  key: StoreKey,
+  config: StoreLockConfig = readStoreLockConfig(),
+): Promise<StoreEncryptionResult> {
+  // No store yet (and perhaps no directory to lock in): nothing to convert
+  if ((await storeFiles(storeFile)).length === 0) {
+    return { files: [], convertedLines: 0 };
+  }
+
+  return withStoreLock(
+    storeFile,
+    async () => {
+      const files = await storeFiles(storeFile);
+      const converted: { file: string; body: string }[] = [];
+      let convertedLines = 0;
+      for (const file of files) {
+        const lines = storeLines(await fs.readFile(file, { encoding: "utf8" }));
+        const next = lines.map((line) => convertLine(line, mode, key));
+        const changed = next.filter((line, index) => line !== lines[index]);
+        if (changed.length > 0) {
+          convertedLines += changed.length;
+          converted.push({
+            file,
+            body: next.map((line) => `${line}\n`).join(""),
+          });
+        }
+      }
+
+      for (const { file, body } of converted) {
+        const tmp = `${file}.${mode}.${process.pid}.tmp`;
+        await fs.writeFile(tmp, body, { encoding: "utf8" });
+        try {
+          await fs.chmod(tmp, (await fs.stat(file)).mode);
+          await fs.rename(tmp, file);
+        } finally {
+          await fs.rm(tmp, { force: true });
+        }
+      }
+      if (converted.length > 0) {
+        await fs.rm(projectionCachePath(storeFile), { force: true });
+      }
+
+      return { files: converted.map(({ file }) => file), convertedLines };
+    },
+    config,
+  );
+}
@@ -0,0 +1,254 @@
+// agent-response-boxes: deterministic learning synthesis.
+//
+// An offline baseline for /analyze-boxes: boxes whose key field repeats (the
+// same Choice.selected across sessions, the same Assumption.what within one
+// repo, ...) are clustered and proposed as LearningCreated plus one
+// EvidenceLinked per box. IDs and timestamps derive from the boxes, never the
+// clock, so the same store always yields the same proposals and a second run
+// only adds what changed since the first. New learnings go through the review
+// queue (proposals.ts); the LLM skill can then refine, link or supersede the
+// accepted ones (tagged "synthesized").
+
+import * as crypto from "crypto";
+
+import type {
+  BoxEvent,
+  EvidenceLinkedEvent,
+  LearningCreatedEvent,
+  LearningUpdatedEvent,
+} from "./events";
+import { fieldText } from "./parser";
+import { type Box, type Learning, type Projection, timeOf } from "./projection";
+import { isProposalBlocked } from "./proposals";
+import { boxRepo } from "./ranking";
+import {
+  type BoxTypeRegistry,
+  DEFAULT_BOX_TYPES,
+  isHiddenBoxType,
+} from "./registry";
+import { SUPPORTED_SCHEMA_VERSION } from "./schema";
+import { isMalformedBox } from "./validation";
+
+export interface SynthesisRule {
+  readonly box_type: string;
+  readonly field: string;
+  // "global" clusters across sessions; "repo" clusters within one repository
+  readonly scope: "global" | "repo";
+  // Insight for a cluster; `value` is the field as first written
+  readonly insight: (value: string) => string;
+}
+
+export interface SynthesisOptions {
+  readonly rules?: readonly SynthesisRule[];
+  // Boxes a cluster needs; global clusters need them from distinct sessions
+  readonly minSupport?: number;
+  readonly registry?: BoxTypeRegistry;
+}
+
+export type SynthesizedEvent =
+  LearningCreatedEvent | EvidenceLinkedEvent | LearningUpdatedEvent;
+
+export const SYNTHESIS_TAG = "synthesized";
+
+export const DEFAULT_SYNTHESIS_RULES: readonly SynthesisRule[] = [
+  {
+    box_type: "Choice",
+    field: "selected",
+    scope: "global",
+    insight: (value) => `Repeatedly chooses ${value}`,
+  },
+  {
+    box_type: "Assumption",
+    field: "what",
+    scope: "repo",
+    insight: (value) => `Repeatedly assumes ${value} in this repo`,
+  },
+  {
+    box_type: "Warning",
+    field: "risk",
+    scope: "repo",
+    insight: (value) => `Recurring risk in this repo: ${value}`,
+  },
+];
+
+const DEFAULT_MIN_SUPPORT = 2;
+
+// Confidence grows with support (2 boxes: 0.5, 4: 0.67, 8: 0.8) and stays
+// below what a reviewed learning can reach
+const MAX_SYNTHESIS_CONFIDENCE = 0.9;
+
+export function synthesisConfidence(support: number): number {
+  return Math.min(
+    MAX_SYNTHESIS_CONFIDENCE,
+    Math.round((support / (support + 2)) * 100) / 100,
+  );
+}
+
+// Values that differ only in case, spacing or trailing punctuation cluster
+function valueKey(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .replace(/[.,;:!]+$/, "")
+    .trim();
+}
+
+function hashKey(...parts: string[]): string {
+  return crypto
+    .createHash("sha256")
+    .update(parts.join("\n"))
+    .digest("hex")
+    .slice(0, 12);
+}
+
+function boxSession(box: Box): string {
+  const session = box.context.session_id;
+  return typeof session === "string" && session !== "" ? session : box.id;
+}
+
+interface Cluster {
+  readonly rule: SynthesisRule;
+  readonly learningId: string;
+  readonly repo: string;
+  // Oldest first
+  readonly boxes: Box[];
+}
+
+function byBoxTime(a: Box, b: Box): number {
+  return timeOf(a.ts) - timeOf(b.ts) || a.id.localeCompare(b.id);
+}
+
+function clusters(
+  projection: Projection,
+  rules: readonly SynthesisRule[],
+  registry: BoxTypeRegistry,
+): Cluster[] {
+  const boxes = projection.boxes
+    .filter(
+      (box) =>
+        !isHiddenBoxType(registry, box.box_type) &&
+        !isMalformedBox(box.box_type, box.fields, registry),
+    )
+    .sort(byBoxTime);
+
+  const found = new Map<string, Cluster>();
+  for (const rule of rules) {
+    for (const box of boxes) {
+      const value = box.fields[rule.field];
+      const key = value === undefined ? "" : valueKey(fieldText(value));
+      const repo = rule.scope === "repo" ? boxRepo(box) : "";
+      if (
+        box.box_type !== rule.box_type ||
+        key === "" ||
+        (rule.scope === "repo" && repo === "")
+      ) {
+        continue;
+      }
+      const learningId = `learning_syn_${hashKey(rule.box_type, rule.field, rule.scope, repo, key)}`;
+      const cluster = found.get(learningId) ?? {
+        rule,
+        learningId,
+        repo,
+        boxes: [],
+      };
+      cluster.boxes.push(box);
+      found.set(learningId, cluster);
+    }
+  }
+  return [...found.values()];
+}
+
+function support(cluster: Cluster): number {
+  return cluster.rule.scope === "global"
+    ? new Set(cluster.boxes.map(boxSession)).size
+    : cluster.boxes.length;
+}
+
+// Events that bring the store's synthesised learnings up to date with its
+// boxes: new clusters become learnings, new boxes of known clusters become
+// evidence, and grown support raises the confidence. Clusters with a pending
+// or rejected proposal are skipped. Empty when the store is already up to
+// date. Confidence is never lowered, so a learning the skill or a reviewer
+// lowered keeps its value until support outgrows it.
+export function synthesizeLearnings(
+  projection: Projection,
+  options: SynthesisOptions = {},
+): SynthesizedEvent[] {
+  const rules = options.rules ?? DEFAULT_SYNTHESIS_RULES;
+  const minSupport = options.minSupport ?? DEFAULT_MIN_SUPPORT;
+  const registry = options.registry ?? DEFAULT_BOX_TYPES;
+  const learnings = new Map<string, Learning>(
+    projection.learnings.map((learning) => [learning.id, learning]),
+  );
+
+  const events: SynthesizedEvent[] = [];
+  for (const cluster of clusters(projection, rules, registry)) {
+    const count = support(cluster);
+    if (count < minSupport) {
+      continue;
+    }
+
+    const { rule, learningId, boxes } = cluster;
+    const existing = learnings.get(learningId);
+    const insight = rule.insight(fieldText(boxes[0].fields[rule.field]));
+    if (!existing && isProposalBlocked(projection, learningId, insight)) {
+      continue;
+    }
+    const linked = new Set(existing?.evidence.map((link) => link.box_id) ?? []);
+    const newBoxes = boxes.filter((box) => !linked.has(box.id));
+    const confidence = synthesisConfidence(count);
+    // The newest box in the cluster dates the events it leads to
+    const ts = boxes[boxes.length - 1].ts;
+
+    if (!existing) {
+      events.push({
+        event: "LearningCreated",
+        id: learningId,
+        ts,
+        insight,
+        confidence,
+        scope: rule.scope,
+        tags: [rule.box_type.toLowerCase(), rule.field, SYNTHESIS_TAG],
+        level: 0,
+        schema_version: SUPPORTED_SCHEMA_VERSION,
+      });
+    } else if (newBoxes.length > 0 && confidence > existing.confidence) {
+      events.push({
+        event: "LearningUpdated",
+        id: `lupdate_syn_${hashKey(learningId, String(count))}`,
+        ts,
+        learning_id: learningId,
+        updates: { confidence },
+        schema_version: SUPPORTED_SCHEMA_VERSION,
+      });
+    }
+
+    for (const box of newBoxes) {
+      events.push({
+        event: "EvidenceLinked",
+        id: `link_syn_${hashKey(learningId, box.id)}`,
+        ts,
+        learning_id: learningId,
+        box_id: box.id,
+        strength: 1,
+        relationship: "supports",
+        schema_version: SUPPORTED_SCHEMA_VERSION,
+      });
+    }
+  }
+  return events;
+}
+
+// Events synthesised per kind, for CLI summaries; new learnings count
+// whether created directly or queued as proposals
+export function synthesisSummary(
+  events: BoxEvent[],
+): Record<"learnings" | "updates" | "links", number> {
+  return {
+    learnings: events.filter(
+      (e) => e.event === "LearningCreated" || e.event === "LearningProposed",
+    ).length,
+    updates: events.filter((e) => e.event === "LearningUpdated").length,
+    links: events.filter((e) => e.event === "EvidenceLinked").length,
+  };
+}
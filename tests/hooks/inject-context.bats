@@ -116,3 +116,111 @@ EOF
 
     [[ "$status" -eq 0 ]]
 }
+
+@test "boosts boxes from the current repo across ssh and https remotes" {
+    local repo_dir="${TEST_HOME}/repo"
+    mkdir -p "$repo_dir"
+    git -C "$repo_dir" init -q
+    git -C "$repo_dir" remote add origin "https://github.com/user/api.git"
+
+    local now
+    now="$(date -u +"%Y-%m-%dT%H:%M:%SZ")"
+
+    cat > "$RESPONSE_BOXES_FILE" << EOF2
+{"event":"BoxCreated","id":"other","ts":"${now}","box_type":"Warning","fields":{"what":"Other repo","risk":"Drift","likelihood":"Low","consequence":"Rework"},"context":{"git_remote":"git@github.com:user/web.git"},"initial_score":90,"schema_version":1}
+{"event":"BoxCreated","id":"mine","ts":"${now}","box_type":"Choice","fields":{"what":"Current repo","selected":"Zod","alternatives":"Yup","reasoning":"Types"},"context":{"git_remote":"git@github.com:user/api.git"},"initial_score":70,"schema_version":1}
+EOF2
+
+    run bash "${HOOKS_DIR}/inject-context.sh" <<< "{\"cwd\":\"${repo_dir}\"}"
+
+    [[ "$status" -eq 0 ]]
+    local context
+    context="$(echo "$output" | jq -r '.hookSpecificOutput.additionalContext')"
+    local first_box
+    first_box="$(echo "$context" | grep '^• ' | head -1)"
+    [[ "$first_box" == *"Current repo"* ]]
+}
+
+@test "skips box types the registry marks hidden" {
+    cat > "${TEST_HOME}/box-types.json" << 'EOF2'
+{"types": [{"name": "Warning", "hidden": true}]}
+EOF2
+    export RESPONSE_BOXES_BOX_TYPES="${TEST_HOME}/box-types.json"
+
+    local now
+    now="$(date -u +"%Y-%m-%dT%H:%M:%SZ")"
+
+    cat > "$RESPONSE_BOXES_FILE" << EOF2
+{"event":"BoxCreated","id":"warning","ts":"${now}","box_type":"Warning","fields":{"what":"Hidden warning"},"context":{},"initial_score":90,"schema_version":1}
+{"event":"BoxCreated","id":"mirror","ts":"${now}","box_type":"Sycophancy","fields":{"what":"Retired box"},"context":{},"initial_score":90,"schema_version":1}
+{"event":"BoxCreated","id":"choice","ts":"${now}","box_type":"Choice","fields":{"what":"Visible choice","selected":"Zod","alternatives":"Yup","reasoning":"Types"},"context":{},"initial_score":70,"schema_version":1}
+EOF2
+
+    run bash "${HOOKS_DIR}/inject-context.sh" <<< '{}'
+
+    [[ "$status" -eq 0 ]]
+    local context
+    context="$(echo "$output" | jq -r '.hookSpecificOutput.additionalContext')"
+    [[ "$context" == *"Visible choice"* ]]
+    [[ "$context" != *"Hidden warning"* ]]
+    [[ "$context" != *"Retired box"* ]]
+}
+
+@test "summarises multi-line and list fields on one line" {
+    local now
+    now="$(date -u +"%Y-%m-%dT%H:%M:%SZ")"
+
+    cat > "$RESPONSE_BOXES_FILE" << EOF2
+{"event":"BoxCreated","id":"decision","ts":"${now}","box_type":"Decision","fields":{"what":"Validate at\nthe API boundary","reasoning":"One place"},"context":{},"initial_score":80,"schema_version":1}
+{"event":"BoxCreated","id":"suggestion","ts":"${now}","box_type":"Suggestion","fields":{"idea":["Cache the schema","Share it with the forms"],"benefit":"Speed"},"context":{},"initial_score":70,"schema_version":1}
+EOF2
+
+    run bash "${HOOKS_DIR}/inject-context.sh" <<< '{}'
+
+    [[ "$status" -eq 0 ]]
+    local context
+    context="$(echo "$output" | jq -r '.hookSpecificOutput.additionalContext')"
+    [[ "$context" == *"• Decision: Validate at the API boundary"* ]]
+    [[ "$context" == *"• Suggestion: Cache the schema, Share it with the forms"* ]]
+}
+
+@test "skips boxes missing a required field of their type" {
+    local now
+    now="$(date -u +"%Y-%m-%dT%H:%M:%SZ")"
+
+    cat > "$RESPONSE_BOXES_FILE" << EOF2
+{"event":"BoxCreated","id":"choice","ts":"${now}","box_type":"Choice","fields":{"reasoning":"Unselected choice"},"context":{},"initial_score":70,"schema_version":1}
+{"event":"BoxCreated","id":"confidence","ts":"${now}","box_type":"Confidence","fields":{"claim":"Blank level","level":" ","basis":"Benchmarks"},"context":{},"initial_score":70,"schema_version":1}
+{"event":"BoxCreated","id":"decision","ts":"${now}","box_type":"Decision","fields":{"what":"Complete decision","reasoning":"One place"},"context":{},"initial_score":70,"schema_version":1}
+EOF2
+
+    run bash "${HOOKS_DIR}/inject-context.sh" <<< '{}'
+
+    [[ "$status" -eq 0 ]]
+    local context
+    context="$(echo "$output" | jq -r '.hookSpecificOutput.additionalContext')"
+    [[ "$context" == *"Complete decision"* ]]
+    [[ "$(echo "$context" | grep -c '^• ')" -eq 1 ]]
+}
+
+@test "injects nothing when the repository's policy turns injection off" {
+    local repo_dir="${TEST_HOME}/repo"
+    mkdir -p "$repo_dir"
+    git -C "$repo_dir" init -q
+    echo '{"inject": false}' > "${repo_dir}/.response-boxes.json"
+
+    local now
+    now="$(date -u +"%Y-%m-%dT%H:%M:%SZ")"
+
+    cat > "$RESPONSE_BOXES_FILE" << EOF2
+{"event":"BoxCreated","id":"decision","ts":"${now}","box_type":"Decision","fields":{"what":"Validate at the API boundary","reasoning":"One place"},"context":{},"initial_score":80,"schema_version":1}
+EOF2
+
+    run bash "${HOOKS_DIR}/inject-context.sh" <<< "{\"cwd\":\"${repo_dir}\"}"
+    [[ "$status" -eq 0 ]]
+    [[ "$output" != *"Validate at the API boundary"* ]]
+
+    run bash "${HOOKS_DIR}/inject-context.sh" <<< "{\"cwd\":\"${TEST_HOME}\"}"
+    [[ "$status" -eq 0 ]]
+    [[ "$output" == *"Validate at the API boundary"* ]]
+}
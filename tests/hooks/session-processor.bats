@@ -207,3 +207,197 @@ EOF
 
     rm -f "$transcript"
 }
+
+# Writes a JSONL transcript with one Choice box and prints the hook input
+write_box_transcript() {
+    local session_id="$1"
+    local transcript="${TEST_HOME}/${session_id}.jsonl"
+    local padding
+    padding="$(printf 'x%.0s' $(seq 1 4096))"
+
+    jq -cn --arg padding "$padding" '{
+        type: "assistant",
+        content: "⚖️ Choice ────────────────────────────────────────\n**Selected:** \($padding)\n**Alternatives:** Yup\n**Reasoning:** Types\n────────────────────────────────────────────────"
+    }' > "$transcript"
+
+    jq -cn --arg s "$session_id" --arg t "$transcript" \
+        '{session_id: $s, transcript_path: $t}'
+}
+
+@test "concurrent runs append whole lines under the store lock" {
+    local pids=()
+    local i
+    for i in $(seq 1 12); do
+        write_box_transcript "s${i}" | bash "${HOOKS_DIR}/session-processor.sh" 2>/dev/null &
+        pids+=("$!")
+    done
+    for i in "${pids[@]}"; do
+        wait "$i"
+    done
+
+    [[ "$(wc -l < "$RESPONSE_BOXES_FILE" | tr -d ' ')" -eq 12 ]]
+    # Every line parses on its own
+    [[ "$(jq -c 'select(.event == "BoxCreated") | .id' "$RESPONSE_BOXES_FILE" | sort -u | wc -l | tr -d ' ')" -eq 12 ]]
+    [[ ! -e "${RESPONSE_BOXES_FILE}.lock" ]]
+}
+
+@test "recovers a stale lock and completes the crashed writer's append" {
+    local before='{"event":"BoxCreated","id":"before"}'
+    local crashed='{"event":"BoxCreated","id":"crashed"}'
+
+    # A dead writer left its lock, its write-ahead file and half a line
+    printf '%s\n%s' "$before" "${crashed:0:12}" > "$RESPONSE_BOXES_FILE"
+    printf '%s\n' "$crashed" > "${RESPONSE_BOXES_FILE}.wal.$(( ${#before} + 1 ))"
+    bash -c 'exit 0' &
+    local dead_pid=$!
+    wait "$dead_pid"
+    echo "${dead_pid} ${HOSTNAME:-$(hostname)} $(date +%s)" > "${RESPONSE_BOXES_FILE}.lock"
+
+    write_box_transcript "s1" | bash "${HOOKS_DIR}/session-processor.sh"
+
+    run jq -r '.id' "$RESPONSE_BOXES_FILE"
+    [[ "$status" -eq 0 ]]
+    [[ "${lines[0]}" == "before" ]]
+    [[ "${lines[1]}" == "crashed" ]]
+    [[ "${lines[2]}" == "sess_s1_1" ]]
+    [[ ! -e "${RESPONSE_BOXES_FILE}.lock" ]]
+    [[ -z "$(compgen -G "${RESPONSE_BOXES_FILE}.wal.*")" ]]
+}
+
+@test "drops the batch instead of writing unlocked when the lock is held" {
+    echo "$$ ${HOSTNAME:-$(hostname)} $(date +%s)" > "${RESPONSE_BOXES_FILE}.lock"
+    export RESPONSE_BOXES_LOCK_TIMEOUT_SECONDS=1
+
+    local input
+    input="$(write_box_transcript "s1")"
+
+    run bash -c 'echo "$1" | bash "$2"' _ "$input" "${HOOKS_DIR}/session-processor.sh"
+
+    [[ "$status" -eq 0 ]]
+    [[ "$output" == *"Event store is locked"* ]]
+    [[ ! -s "$RESPONSE_BOXES_FILE" ]]
+    [[ -z "$(compgen -G "${RESPONSE_BOXES_FILE}.*.tmp")" ]]
+}
+
+@test "records registered custom box types and skips unregistered headers" {
+    cat > "${TEST_HOME}/box-types.json" << 'EOF2'
+{"types": [{"name": "Security", "emoji": "🔐", "default_score": 95, "required_fields": ["Threat"]}]}
+EOF2
+    export RESPONSE_BOXES_BOX_TYPES="${TEST_HOME}/box-types.json"
+
+    local transcript="${TEST_HOME}/custom.jsonl"
+    jq -cn '{
+        type: "assistant",
+        content: "🔐 Security ────────────────────────────────────────\n**Threat:** Token in logs\n────────────────────────────────────────────────\n\n🐛 Bug ────────────────────────────────────────\n**Cause:** Off by one\n────────────────────────────────────────────────\n\n📋 Follow Ups ────────────────────────────────────────\n**Immediate:** Rotate the token\n────────────────────────────────────────────────"
+    }' > "$transcript"
+
+    jq -cn --arg t "$transcript" '{session_id: "custom", transcript_path: $t}' \
+        | bash "${HOOKS_DIR}/session-processor.sh"
+
+    run jq -r '"\(.box_type) \(.initial_score)"' "$RESPONSE_BOXES_FILE"
+    [[ "$status" -eq 0 ]]
+    [[ "${#lines[@]}" -eq 2 ]]
+    [[ "${lines[0]}" == "Security 95" ]]
+    [[ "${lines[1]}" == "FollowUps 35" ]]
+}
+
+@test "skips boxes inside code fences and blockquotes" {
+    local transcript="${TEST_HOME}/markdown.jsonl"
+    local name
+    for name in reference-box-types.md response-explaining-format.md response-quoting-box.md; do
+        jq -cn --rawfile content "${FIXTURES_DIR}/markdown/${name}" \
+            '{type: "assistant", content: $content}' >> "$transcript"
+    done
+
+    jq -cn --arg t "$transcript" '{session_id: "markdown", transcript_path: $t}' \
+        | bash "${HOOKS_DIR}/session-processor.sh"
+
+    run jq -r '.box_type' "$RESPONSE_BOXES_FILE"
+    [[ "$status" -eq 0 ]]
+    [[ "${#lines[@]}" -eq 2 ]]
+    [[ "${lines[0]}" == "Completion" ]]
+    [[ "${lines[1]}" == "Reflection" ]]
+}
+
+@test "captures multi-line and list fields" {
+    local transcript="${TEST_HOME}/fields.jsonl"
+    jq -cn '{
+        type: "assistant",
+        content: "📋 Follow Ups ───────────────────────────────────\n**Immediate:**\n- Rotate the \"leaked\" token\n- Add a redaction test that covers\n  multi-line secrets\n**Consider:** Audit other log sinks,\nand alert in CI\n────────────────────────────────────────────────"
+    }' > "$transcript"
+
+    jq -cn --arg t "$transcript" '{session_id: "fields", transcript_path: $t}' \
+        | bash "${HOOKS_DIR}/session-processor.sh"
+
+    run jq -c '.fields' "$RESPONSE_BOXES_FILE"
+    [[ "$status" -eq 0 ]]
+    [[ "$output" == '{"immediate":["Rotate the \"leaked\" token","Add a redaction test that covers multi-line secrets"],"consider":"Audit other log sinks,\nand alert in CI"}' ]]
+}
+
+@test "ends boxes at their closing rule and flags unterminated boxes" {
+    local transcript="${TEST_HOME}/closing.jsonl"
+    jq -cn '{
+        type: "assistant",
+        content: "⚖️ Choice ───────────────────────────────────────\n**Selected:** Zod\n\n🎯 Decision ─────────────────────────────────────\n**What:** Validate at the API boundary\n────────────────────────────────────────────────\n\n**Note:** Prose after the rule"
+    }' > "$transcript"
+
+    jq -cn --arg t "$transcript" '{session_id: "closing", transcript_path: $t}' \
+        | bash "${HOOKS_DIR}/session-processor.sh"
+
+    run jq -c 'select(.event == "BoxCreated") | [.box_type, .fields, .incomplete]' "$RESPONSE_BOXES_FILE"
+    [[ "$status" -eq 0 ]]
+    [[ "${lines[0]}" == '["Choice",{"selected":"Zod"},true]' ]]
+    [[ "${lines[1]}" == '["Decision",{"what":"Validate at the API boundary"},null]' ]]
+}
+
+@test "records completeness and a BoxMalformed event for missing fields" {
+    local transcript="${TEST_HOME}/validation.jsonl"
+    jq -cn '{
+        type: "assistant",
+        content: "⚖️ Choice ───────────────────────────────────────\n**Alternatives:** Yup\n**Reasoning:** Types\n────────────────────────────────────────────────\n\n🎯 Decision ─────────────────────────────────────\n**What:** Validate at the API boundary\n**Reasoning:** One place\n────────────────────────────────────────────────"
+    }' > "$transcript"
+
+    jq -cn --arg t "$transcript" '{session_id: "validation", transcript_path: $t}' \
+        | bash "${HOOKS_DIR}/session-processor.sh"
+
+    run jq -c '[.event, .id, .box_type, .completeness, .missing_fields]' "$RESPONSE_BOXES_FILE"
+    [[ "$status" -eq 0 ]]
+    [[ "${#lines[@]}" -eq 3 ]]
+    [[ "${lines[0]}" == '["BoxCreated","sess_validation_1","Choice",0.67,["selected"]]' ]]
+    [[ "${lines[1]}" == '["BoxMalformed","sess_validation_1_malformed","Choice",0.67,["selected"]]' ]]
+    [[ "${lines[2]}" == '["BoxCreated","sess_validation_2","Decision",1,null]' ]]
+}
+
+@test "follows the repository's .response-boxes.json" {
+    local repo_dir="${TEST_HOME}/repo"
+    mkdir -p "${repo_dir}/src"
+    git -C "$repo_dir" init -q
+    git -C "$repo_dir" remote add origin "git@github.com:client/app.git"
+
+    local transcript="${TEST_HOME}/policy.jsonl"
+    jq -cn '{
+        type: "assistant",
+        content: "⚖️ Choice ───────────────────────────────────────\n**Selected:** Zod\n────────────────────────────────────────────────\n\n⚠️ Warning ─────────────────────────────────────\n**Risk:** Client data in logs\n────────────────────────────────────────────────"
+    }' > "$transcript"
+
+    echo '{"box_types": ["warning"], "scope": "global", "keep_fields": false}' > "${repo_dir}/.response-boxes.json"
+    jq -cn --arg t "$transcript" --arg cwd "${repo_dir}/src" '{session_id: "policy", transcript_path: $t, cwd: $cwd}' \
+        | bash "${HOOKS_DIR}/session-processor.sh"
+
+    run jq -c '[.event, .box_type, .fields, .context.git_remote, .completeness]' "$RESPONSE_BOXES_FILE"
+    [[ "$status" -eq 0 ]]
+    [[ "${#lines[@]}" -eq 1 ]]
+    [[ "${lines[0]}" == '["BoxCreated","Warning",{},null,null]' ]]
+
+    : > "$RESPONSE_BOXES_FILE"
+    echo '{"capture": false}' > "${repo_dir}/.response-boxes.json"
+    jq -cn --arg t "$transcript" --arg cwd "$repo_dir" '{session_id: "off", transcript_path: $t, cwd: $cwd}' \
+        | bash "${HOOKS_DIR}/session-processor.sh"
+    [[ ! -s "$RESPONSE_BOXES_FILE" ]]
+
+    # A policy that does not parse fails closed
+    echo '{"capture": true,' > "${repo_dir}/.response-boxes.json"
+    jq -cn --arg t "$transcript" --arg cwd "$repo_dir" '{session_id: "broken", transcript_path: $t, cwd: $cwd}' \
+        | bash "${HOOKS_DIR}/session-processor.sh"
+    [[ ! -s "$RESPONSE_BOXES_FILE" ]]
+}
@@ -81,6 +81,20 @@ teardown() {
     [[ "$status" -eq 0 ]]
 }
 
+@test "install.sh --install-opencode upgrades the plugin's box types" {
+    local plugin_types="${HOME}/.config/opencode/plugin/response-boxes/box-types.json"
+    local user_types="${HOME}/.response-boxes/box-types.json"
+    mkdir -p "$(dirname "$plugin_types")"
+    echo '{"version": 0, "types": []}' > "$plugin_types"
+    echo '{"version": 0, "types": []}' > "$user_types"
+
+    run bash "${PROJECT_ROOT}/install.sh" --install-opencode
+
+    [[ "$status" -eq 0 ]]
+    cmp -s "$plugin_types" "${PROJECT_ROOT}/outputs/opencode/.opencode/plugins/response-boxes/box-types.json"
+    [[ "$(cat "$user_types")" == '{"version": 0, "types": []}' ]]
+}
+
 @test "install.sh --install-windsurf-basic flag is recognized" {
     run bash "${PROJECT_ROOT}/install.sh" --install-windsurf-basic --dry-run
 
@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+
+import {
+  EMPTY_TOOL_ACTIVITY,
+  activityContext,
+  mergeToolActivity,
+  toolCallActivity,
+} from "@response-boxes/core";
+
+const ROOT = "/work/app";
+
+describe("toolCallActivity", () => {
+  it("records edited files relative to the worktree", () => {
+    expect(
+      toolCallActivity("edit", { filePath: "/work/app/src/auth.ts" }, ROOT),
+    ).toEqual({ files_touched: ["src/auth.ts"], commands: [] });
+    expect(
+      toolCallActivity("write", { filePath: "/tmp/notes.md" }, ROOT),
+    ).toEqual({ files_touched: ["/tmp/notes.md"], commands: [] });
+  });
+
+  it("reads every file named in a patch", () => {
+    const patchText = [
+      "*** Begin Patch",
+      "*** Update File: src/auth.ts",
+      "@@",
+      "-old",
+      "+new",
+      "*** Add File: src/guard.ts",
+      "+export {};",
+      "*** Update File: src/old.ts",
+      "*** Move to: src/new.ts",
+      "*** End Patch",
+    ].join("\n");
+    expect(toolCallActivity("apply_patch", { patchText }, ROOT)).toEqual({
+      files_touched: [
+        "src/auth.ts",
+        "src/guard.ts",
+        "src/old.ts",
+        "src/new.ts",
+      ],
+      commands: [],
+    });
+  });
+
+  it("records commands on one line and truncates long ones", () => {
+    expect(
+      toolCallActivity("bash", { command: "npm test \\\n  -- --run" }, ROOT),
+    ).toEqual({ files_touched: [], commands: ["npm test \\ -- --run"] });
+
+    const [long] = toolCallActivity("bash", {
+      command: `echo ${"x".repeat(300)}`,
+    }).commands;
+    expect(long).toHaveLength(200);
+    expect(long.endsWith("…")).toBe(true);
+  });
+
+  it("ignores read-only tools and malformed arguments", () => {
+    expect(toolCallActivity("read", { filePath: "/work/app/a.ts" })).toEqual(
+      EMPTY_TOOL_ACTIVITY,
+    );
+    expect(toolCallActivity("edit", null)).toEqual(EMPTY_TOOL_ACTIVITY);
+    expect(toolCallActivity("bash", { command: 42 })).toEqual(
+      EMPTY_TOOL_ACTIVITY,
+    );
+  });
+});
+
+describe("mergeToolActivity", () => {
+  it("keeps first-seen order without duplicates", () => {
+    const merged = [
+      toolCallActivity("edit", { filePath: "src/a.ts" }),
+      toolCallActivity("bash", { command: "npm test" }),
+      toolCallActivity("edit", { filePath: "src/b.ts" }),
+      toolCallActivity("edit", { filePath: "src/a.ts" }),
+      toolCallActivity("bash", { command: "npm test" }),
+    ].reduce(mergeToolActivity, EMPTY_TOOL_ACTIVITY);
+
+    expect(merged).toEqual({
+      files_touched: ["src/a.ts", "src/b.ts"],
+      commands: ["npm test"],
+    });
+  });
+});
+
+describe("activityContext", () => {
+  it("omits empty lists", () => {
+    expect(activityContext(EMPTY_TOOL_ACTIVITY)).toEqual({});
+    expect(
+      activityContext({ files_touched: ["src/a.ts"], commands: [] }),
+    ).toEqual({ files_touched: ["src/a.ts"] });
+  });
+});
@@ -1,92 +1,14 @@
-import { describe, it, expect } from "vitest";
-
-// Re-implement extractBoxesFromText for testing (same logic as plugin)
-interface BoxSegment {
-  readonly boxType: string;
-  readonly fields: Record<string, string>;
-  readonly raw: string;
-}
-
-function extractBoxesFromText(text: string): BoxSegment[] {
-  const segments: BoxSegment[] = [];
-
-  // Match headers like: "⚖️ Choice ─────────────" (emoji + type + dashes)
-  //
-  // IMPORTANT: do not allow newlines between groups. `\s` includes `\n`, which
-  // causes false matches like "**Reasoning:** ...\n──────".
-  const headerPattern =
-    /^([^\s]+)[ \t]+([A-Za-z][A-Za-z ]*)[ \t]+[-\u2500]{10,}[ \t]*$/gm;
-
-  const matches = Array.from(text.matchAll(headerPattern));
-  if (matches.length === 0) {
-    return segments;
-  }
-
-  for (let index = 0; index < matches.length; index += 1) {
-    const match = matches[index];
-    if (match.index === undefined) {
-      continue;
-    }
+import { readFileSync } from "fs";
+import * as path from "path";
 
-    const start = match.index;
-    const end =
-      index + 1 < matches.length && matches[index + 1].index !== undefined
-        ? (matches[index + 1].index as number)
-        : text.length;
+import { describe, it, expect } from "vitest";
 
-    const block = text.slice(start, end).trim();
-    if (block.length === 0) {
-      continue;
-    }
+import { extractBoxesFromText } from "@response-boxes/core";
 
-    const headerLineEnd = block.indexOf("\n");
-    const boxTypeRaw = match[2] ?? "";
-    const boxType = boxTypeRaw.trim();
-
-    const body =
-      headerLineEnd === -1 ? "" : block.slice(headerLineEnd + 1).trim();
-    const fields: Record<string, string> = {};
-
-    for (const line of body.split(/\r?\n/)) {
-      const matchField = /^\*\*([^*]+)\*\*(.*)$/.exec(line);
-      if (!matchField) {
-        continue;
-      }
-
-      let rawName = (matchField[1] ?? "").trim();
-      let remainder = (matchField[2] ?? "");
-
-      // Support both formats:
-      // - **Name:** value   (colon inside bold)
-      // - **Name**: value   (colon outside bold)
-      let value = remainder.trimStart();
-      if (rawName.endsWith(":")) {
-        rawName = rawName.slice(0, -1).trim();
-      } else if (value.startsWith(":")) {
-        value = value.slice(1).trimStart();
-      } else {
-        continue;
-      }
-
-      value = value.trim();
-      if (!rawName || value === "") {
-        continue;
-      }
-
-      const key = rawName.toLowerCase().replace(/\s+/g, "_");
-      if (!(key in fields)) {
-        fields[key] = value;
-      }
-    }
+const ROOT = path.resolve(__dirname, "../..");
 
-    segments.push({
-      boxType,
-      fields,
-      raw: block,
-    });
-  }
-
-  return segments;
+function fixture(name: string): string {
+  return readFileSync(path.join(ROOT, "tests/fixtures/markdown", name), "utf8");
 }
 
 describe("extractBoxesFromText", () => {
@@ -284,3 +206,163 @@ Here's the code...
     expect(result[0].boxType).toBe("Choice");
   });
 });
+
+describe("closing rules", () => {
+  it("ends a box at its closing rule", () => {
+    const text = `⚠️ Concern ──────────────────────────────────────
+**Issue:** Session tokens stored in localStorage
+**Impact:** Vulnerable to XSS attacks
+────────────────────────────────────────────────
+
+I moved the tokens into an httpOnly cookie.
+
+**Note:** The refresh endpoint changed too.`;
+
+    const [box] = extractBoxesFromText(text);
+
+    expect(box.complete).toBe(true);
+    expect(box.fields).toEqual({
+      issue: "Session tokens stored in localStorage",
+      impact: "Vulnerable to XSS attacks",
+    });
+    expect(
+      box.raw.endsWith("────────────────────────────────────────────────"),
+    ).toBe(true);
+    expect(box.raw).not.toContain("httpOnly");
+  });
+
+  it("marks boxes without a closing rule incomplete", () => {
+    const text = `⚖️ Choice ───────────────────────────────────────
+**Selected:** Zod
+
+🎯 Decision ─────────────────────────────────────
+**What:** Validate at the API boundary
+────────────────────────────────────────────────
+
+🏁 Completion ───────────────────────────────────
+**Request:** Add validation`;
+
+    const result = extractBoxesFromText(text);
+
+    expect(result.map((box) => [box.boxType, box.complete])).toEqual([
+      ["Choice", false],
+      ["Decision", true],
+      ["Completion", false],
+    ]);
+    expect(result[0].raw).not.toContain("Decision");
+  });
+});
+
+describe("multi-line and list fields", () => {
+  it("keeps continuation lines until the next field", () => {
+    const text = `⚖️ Choice ───────────────────────────────────────
+**Selected:** Zod for schema validation,
+shared by the API and the forms
+**Alternatives:** Yup
+**Reasoning:**
+Better TypeScript inference.
+
+Smaller bundle size.
+────────────────────────────────────────────────
+**Ignored:** Prose after the closing rule`;
+
+    const [box] = extractBoxesFromText(text);
+
+    expect(box.fields).toEqual({
+      selected: "Zod for schema validation,\nshared by the API and the forms",
+      alternatives: "Yup",
+      reasoning: "Better TypeScript inference.\nSmaller bundle size.",
+    });
+  });
+
+  it("turns bullet and numbered lists into arrays", () => {
+    const text = `📋 Follow Ups ───────────────────────────────────
+**Immediate:**
+- Rotate the leaked token
+- Add a redaction test that covers
+  multi-line secrets
+**Consider:**
+1. Audit other log sinks
+2) Alert on secrets in CI
+────────────────────────────────────────────────`;
+
+    const [box] = extractBoxesFromText(text);
+
+    expect(box.fields).toEqual({
+      immediate: [
+        "Rotate the leaked token",
+        "Add a redaction test that covers multi-line secrets",
+      ],
+      consider: ["Audit other log sinks", "Alert on secrets in CI"],
+    });
+  });
+
+  it("keeps text with a trailing list as text and drops empty fields", () => {
+    const text = `⚖️ Choice ───────────────────────────────────────
+**Selected:**
+**Alternatives:** Two options
+- Yup
+- io-ts
+────────────────────────────────────────────────`;
+
+    const [box] = extractBoxesFromText(text);
+
+    expect(box.fields).toEqual({
+      alternatives: "Two options\n- Yup\n- io-ts",
+    });
+  });
+});
+
+describe("extractBoxesFromText in markdown", () => {
+  it.each([
+    "reference-box-types.md",
+    "instructions-examples.md",
+    "cursor-reflection-example.md",
+  ])("ignores the fenced examples in %s", (name) => {
+    expect(extractBoxesFromText(fixture(name))).toEqual([]);
+  });
+
+  it.each([
+    "agents/claude-code/references/response-boxes.md",
+    "agents/claude-code/output-styles/response-box.md",
+    "agents/claude-code/rules/core/response-boxes.md",
+    "agents/opencode/instructions/response-boxes.md",
+    "agents/cursor/rules/response-boxes.mdc",
+    "agents/windsurf/rules/response-boxes.md",
+  ])("finds no boxes in %s", (file) => {
+    const text = readFileSync(path.join(ROOT, file), "utf8");
+    expect(extractBoxesFromText(text)).toEqual([]);
+  });
+
+  it("skips tilde, indented and nested fences", () => {
+    const result = extractBoxesFromText(
+      fixture("response-explaining-format.md"),
+    );
+
+    expect(result.map((box) => box.boxType)).toEqual(["Completion"]);
+    expect(result[0].fields.request).toBe("Explain the response box format");
+  });
+
+  it("skips quoted boxes", () => {
+    const result = extractBoxesFromText(fixture("response-quoting-box.md"));
+
+    expect(result.map((box) => box.boxType)).toEqual(["Reflection"]);
+    expect(result[0].fields.prior).toBe(
+      "Chose Zod over Yup for schema validation",
+    );
+  });
+
+  it("ends a box where a code block or quote begins", () => {
+    const text = `🎯 Decision ─────────────────────────────────────
+**What:** Validate at the API boundary
+
+\`\`\`text
+**Reasoning:** Example only
+\`\`\``;
+
+    const [box] = extractBoxesFromText(text);
+
+    expect(box.fields).toEqual({ what: "Validate at the API boundary" });
+    expect(box.raw).not.toContain("Example only");
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect } from "vitest";
+
+import {
+  boxContentHash,
+  deterministicBoxId,
+  extractBoxesFromText,
+  isBoxComplete,
+  isMessageComplete,
+} from "@response-boxes/core";
+
+const RULE = "────────────────────────────────────────────────";
+
+const COMPLETE_BOX = {
+  boxType: "Choice",
+  raw: [
+    `⚖️ Choice ${RULE}`,
+    "**Selected:** Zod",
+    "**Alternatives:** Yup",
+    "**Reasoning:** Better TS inference",
+    RULE,
+  ].join("\n"),
+};
+
+describe("deterministicBoxId", () => {
+  it("returns the same ID for every replay of the same box", () => {
+    const first = deterministicBoxId("ses_abc123456", "msg_1", COMPLETE_BOX, 0);
+    const replay = deterministicBoxId(
+      "ses_abc123456",
+      "msg_1",
+      { ...COMPLETE_BOX },
+      0,
+    );
+
+    expect(replay).toBe(first);
+    expect(first).toMatch(/^oc_ses_abc1_[0-9a-f]{8}_[0-9a-f]{16}$/);
+  });
+
+  it("distinguishes identical boxes in different messages", () => {
+    expect(deterministicBoxId("ses_abc", "msg_1", COMPLETE_BOX, 0)).not.toBe(
+      deterministicBoxId("ses_abc", "msg_2", COMPLETE_BOX, 0),
+    );
+  });
+
+  it("distinguishes identical boxes within one message", () => {
+    expect(deterministicBoxId("ses_abc", "msg_1", COMPLETE_BOX, 0)).not.toBe(
+      deterministicBoxId("ses_abc", "msg_1", COMPLETE_BOX, 1),
+    );
+  });
+
+  it("distinguishes different boxes in the same message", () => {
+    const other = {
+      boxType: "Warning",
+      raw: `⚠️ Warning ${RULE}\n**Risk:** No auth\n${RULE}`,
+    };
+
+    expect(deterministicBoxId("ses_abc", "msg_1", COMPLETE_BOX, 0)).not.toBe(
+      deterministicBoxId("ses_abc", "msg_1", other, 0),
+    );
+  });
+});
+
+describe("boxContentHash", () => {
+  it("ignores prose streamed in after the closing rule", () => {
+    const withTrailer = {
+      ...COMPLETE_BOX,
+      raw: `${COMPLETE_BOX.raw}\n\nNow let me implement the schema.`,
+    };
+
+    expect(boxContentHash(withTrailer)).toBe(boxContentHash(COMPLETE_BOX));
+  });
+
+  it("ignores trailing whitespace differences", () => {
+    const padded = {
+      ...COMPLETE_BOX,
+      raw: COMPLETE_BOX.raw.replace(/\n/g, "  \r\n"),
+    };
+
+    expect(boxContentHash(padded)).toBe(boxContentHash(COMPLETE_BOX));
+  });
+
+  it("gives a box the same ID while its closing rule streams in", () => {
+    const body = [
+      "**Selected:** Zod",
+      "**Alternatives:** Yup",
+      "**Reasoning:** Better TS inference",
+    ];
+    const shortRule = [`⚖️ Choice ${RULE}`, ...body, "─".repeat(10)].join("\n");
+    const [early] = extractBoxesFromText(shortRule);
+    const [late] = extractBoxesFromText(`${shortRule}${"─".repeat(38)}`);
+
+    expect(isBoxComplete(early)).toBe(true);
+    expect(deterministicBoxId("ses_1", "msg_1", early, 0)).toBe(
+      deterministicBoxId("ses_1", "msg_1", late, 0),
+    );
+  });
+});
+
+describe("isBoxComplete", () => {
+  it("is false while the box is still streaming", () => {
+    expect(
+      isBoxComplete({
+        boxType: "Choice",
+        raw: `⚖️ Choice ${RULE}\n**Selected:** Zod\n**Alterna`,
+      }),
+    ).toBe(false);
+  });
+
+  it("is true once the closing rule has arrived", () => {
+    expect(isBoxComplete(COMPLETE_BOX)).toBe(true);
+  });
+});
+
+describe("isMessageComplete", () => {
+  it("detects completion from time.completed or finish", () => {
+    expect(isMessageComplete({})).toBe(false);
+    expect(isMessageComplete({ time: {} })).toBe(false);
+    expect(isMessageComplete({ time: { completed: 1737460800000 } })).toBe(
+      true,
+    );
+    expect(isMessageComplete({ finish: "stop" })).toBe(true);
+  });
+});
@@ -0,0 +1,323 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { spawnSync } from "child_process";
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import {
+  UnsupportedStoreSchemaError,
+  archiveName,
+  compactStore,
+  parseEvents,
+  projectEvents,
+  rankBoxes,
+  rankLearnings,
+  readIndexedProjection,
+  readRankingConfig,
+} from "@response-boxes/core";
+
+const INJECT_CONTEXT = path.resolve(
+  __dirname,
+  "../../agents/claude-code/hooks/inject-context.sh",
+);
+
+const NOW = new Date();
+const REMOTE = "git@github.com:example/app.git";
+
+let dir: string;
+let storeFile: string;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "rb-compact-"));
+  storeFile = path.join(dir, "boxes.jsonl");
+});
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+function daysAgo(days: number): string {
+  return new Date(NOW.getTime() - days * 86400000).toISOString();
+}
+
+function box(id: string, ts: string, summary: string): object {
+  return {
+    event: "BoxCreated",
+    id,
+    ts,
+    box_type: "Warning",
+    fields: { summary },
+    context: { git_remote: REMOTE },
+    initial_score: 90,
+    schema_version: 1,
+  };
+}
+
+function enrich(id: string, boxId: string, ts: string, updates: object) {
+  return {
+    event: "BoxEnriched",
+    id,
+    ts,
+    box_id: boxId,
+    updates,
+    schema_version: 1,
+  };
+}
+
+function analysis(id: string, ts: string, throughTs: string): object {
+  return {
+    event: "AnalysisCompleted",
+    id,
+    ts,
+    through_ts: throughTs,
+    stats: {},
+    schema_version: 1,
+  };
+}
+
+// Analysed history with duplicate IDs, a linked box tied with an unlinked
+// one, and an enrichment appended after the cutoff with an older timestamp
+function history(): string[] {
+  return [
+    box("b1", daysAgo(10), "Unvalidated input"),
+    box("b2", daysAgo(10), "Missing auth check"),
+    enrich("e1", "b1", daysAgo(9), { score: 95 }),
+    {
+      event: "LearningCreated",
+      id: "l1",
+      ts: daysAgo(9),
+      insight: "Validate at the boundary",
+      confidence: 0.8,
+      scope: "repo",
+      tags: ["validation"],
+      level: 0,
+      schema_version: 1,
+    },
+    {
+      event: "EvidenceLinked",
+      id: "link1",
+      ts: daysAgo(9),
+      learning_id: "l1",
+      box_id: "b2",
+      strength: 0.9,
+      relationship: "supports",
+      schema_version: 1,
+    },
+    enrich("e2", "b2", daysAgo(8), { score: 80, note: "confirmed" }),
+    box("b1", daysAgo(8), "Duplicate that never wins"),
+    enrich("e3", "b1", daysAgo(7), { note: "fixed later" }),
+    {
+      event: "LearningUpdated",
+      id: "u1",
+      ts: daysAgo(6),
+      learning_id: "l1",
+      updates: { confidence: 0.9 },
+      schema_version: 1,
+    },
+    analysis("a1", daysAgo(5), daysAgo(5.5)),
+    box("b3", daysAgo(3), "Retry without backoff"),
+    analysis("a2", daysAgo(2), daysAgo(1)),
+    box("b4", daysAgo(0.5), "After the last analysis"),
+    enrich("e4", "b1", daysAgo(8.5), { note: "late arrival" }),
+  ].map((line) => (typeof line === "string" ? line : JSON.stringify(line)));
+}
+
+async function writeStore(lines: string[]): Promise<void> {
+  await fs.writeFile(storeFile, lines.map((line) => `${line}\n`).join(""));
+}
+
+async function readStore(): Promise<string> {
+  return fs.readFile(storeFile, { encoding: "utf8" });
+}
+
+async function projection() {
+  return projectEvents(parseEvents(await readStore()));
+}
+
+function injectContext(): string {
+  const worktree = path.join(dir, "worktree");
+  spawnSync("git", ["init", "-q", worktree]);
+  spawnSync("git", ["-C", worktree, "remote", "add", "origin", REMOTE]);
+
+  // No decay, so the output does not depend on when the hook runs
+  const result = spawnSync("bash", [INJECT_CONTEXT], {
+    env: {
+      ...process.env,
+      HOME: dir,
+      RESPONSE_BOXES_FILE: storeFile,
+      BOX_RECENCY_DECAY: "1",
+    },
+    input: JSON.stringify({ cwd: worktree }),
+    encoding: "utf8",
+  });
+  expect(result.status).toBe(0);
+  return result.stdout;
+}
+
+describe("compactStore", () => {
+  it("snapshots and rotates the analysed prefix", async () => {
+    const lines = history();
+    lines.splice(2, 0, "{not json");
+    await writeStore(lines);
+
+    const result = await compactStore(storeFile, { before: NOW, now: NOW });
+
+    expect(result.throughTs).toBe(daysAgo(1));
+    const compacted = (await readStore()).trimEnd().split("\n");
+    const snapshot = JSON.parse(compacted[0]);
+    expect(snapshot.event).toBe("Snapshot");
+    expect(snapshot.through_ts).toBe(daysAgo(1));
+    expect(snapshot.events.map((e: { id: string }) => e.id)).toEqual([
+      "b1",
+      "e1",
+      "e3",
+      "b2",
+      "e2",
+      "b3",
+    ]);
+
+    // Evidence chain, learnings and the latest analysis stay verbatim
+    const kept = compacted.slice(1);
+    expect(kept.map((line) => JSON.parse(line).id)).toEqual([
+      "b2",
+      "l1",
+      "link1",
+      "e2",
+      "u1",
+      "a2",
+      "b4",
+      "e4",
+    ]);
+
+    // Everything else, including the malformed line, is archived once
+    const archived = lines.filter((line) => !kept.includes(line));
+    const months = [
+      ...new Set(
+        [daysAgo(10), daysAgo(3)].map((ts) =>
+          archiveName(storeFile, ts.slice(0, 7)),
+        ),
+      ),
+    ];
+    expect(snapshot.archives).toEqual(months.sort());
+    const archivedLines = (
+      await Promise.all(
+        months.map((name) =>
+          fs.readFile(path.join(dir, name), { encoding: "utf8" }),
+        ),
+      )
+    )
+      .join("")
+      .trimEnd()
+      .split("\n");
+    expect(archivedLines.sort()).toEqual(archived.sort());
+    expect(result.archivedLines).toBe(archived.length);
+  });
+
+  it("leaves the projection and injected context unchanged", async () => {
+    await writeStore(history());
+    const before = await projection();
+    const beforeContext = injectContext();
+    const config = readRankingConfig({});
+    const context = { repo: "github.com/example/app", now: NOW };
+
+    await compactStore(storeFile, { before: NOW, now: NOW });
+
+    const after = await projection();
+    expect(after).toEqual(before);
+    expect(rankLearnings(after, config, context)).toEqual(
+      rankLearnings(before, config, context),
+    );
+    expect(rankBoxes(after, config, context)).toEqual(
+      rankBoxes(before, config, context),
+    );
+    expect(injectContext()).toBe(beforeContext);
+    expect(beforeContext).toContain("Missing auth check");
+  });
+
+  it("folds an earlier snapshot into the next compaction", async () => {
+    await writeStore(history());
+    await compactStore(storeFile, {
+      before: new Date(daysAgo(4)),
+      now: NOW,
+    });
+    const first = JSON.parse((await readStore()).split("\n")[0]);
+
+    await fs.appendFile(
+      storeFile,
+      `${JSON.stringify(box("b5", daysAgo(0.4), "Cache never invalidated"))}\n` +
+        `${JSON.stringify(analysis("a3", daysAgo(0.1), daysAgo(0.2)))}\n`,
+    );
+    const before = await projection();
+    const result = await compactStore(storeFile, { before: NOW, now: NOW });
+
+    const lines = (await readStore()).trimEnd().split("\n");
+    const snapshot = JSON.parse(lines[0]);
+    expect(result.throughTs).toBe(daysAgo(0.2));
+    expect(lines.filter((line) => line.includes('"Snapshot"'))).toHaveLength(1);
+    expect(snapshot.archives).toEqual(
+      expect.arrayContaining(first.archives as string[]),
+    );
+    expect(await projection()).toEqual(before);
+  });
+
+  it("is a no-op when nothing new was analysed", async () => {
+    await writeStore(history());
+    await compactStore(storeFile, { before: NOW, now: NOW });
+    const compacted = await readStore();
+
+    const again = await compactStore(storeFile, { before: NOW, now: NOW });
+
+    expect(again.throughTs).toBeNull();
+    expect(await readStore()).toBe(compacted);
+  });
+
+  it("never compacts a store without an analysis run", async () => {
+    const lines = history().filter((line) => !line.includes("Analysis"));
+    await writeStore(lines);
+
+    const result = await compactStore(storeFile, { before: NOW, now: NOW });
+
+    expect(result.throughTs).toBeNull();
+    expect(await readStore()).toBe(lines.map((line) => `${line}\n`).join(""));
+  });
+
+  it("refuses stores with newer schema versions", async () => {
+    const lines = [
+      ...history(),
+      JSON.stringify({ event: "BoxCreated", id: "v9", schema_version: 9 }),
+    ];
+    await writeStore(lines);
+
+    await expect(
+      compactStore(storeFile, { before: NOW, now: NOW }),
+    ).rejects.toBeInstanceOf(UnsupportedStoreSchemaError);
+    expect(await readStore()).toBe(lines.map((line) => `${line}\n`).join(""));
+  });
+
+  it("only reports in dry-run mode", async () => {
+    await writeStore(history());
+    const original = await readStore();
+
+    const result = await compactStore(storeFile, {
+      before: NOW,
+      now: NOW,
+      dryRun: true,
+    });
+
+    expect(result.throughTs).toBe(daysAgo(1));
+    expect(result.snapshotEvents).toBe(6);
+    expect(await readStore()).toBe(original);
+    expect(await fs.readdir(dir)).toEqual(["boxes.jsonl"]);
+  });
+
+  it("forces a full rebuild of the projection cache", async () => {
+    await writeStore(history());
+    const cached = await readIndexedProjection(storeFile);
+
+    await compactStore(storeFile, { before: NOW, now: NOW });
+    const rebuilt = await readIndexedProjection(storeFile, cached);
+
+    expect(rebuilt?.mode).toBe("full");
+    expect(rebuilt?.projection).toEqual(cached?.projection);
+  });
+});
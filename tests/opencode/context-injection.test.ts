@@ -3,140 +3,30 @@ import { promises as fs } from "fs";
 import * as os from "os";
 import * as path from "path";
 
-// Re-implement projectContextFromEvents for testing
-interface BoxCreatedEvent {
-  readonly event: "BoxCreated";
-  readonly id: string;
-  readonly ts: string;
-  readonly box_type: string;
-  readonly fields: Record<string, string>;
-  readonly context: Record<string, unknown>;
-  readonly initial_score: number;
-  readonly schema_version: number;
-}
+import {
+  formatCompactionContext,
+  formatInjectedContext,
+  injectedContextFor,
+  parseEvents,
+  projectEvents,
+  readIndexedProjection,
+  readRankingConfig,
+} from "@response-boxes/core";
+
+const NOW = new Date("2026-02-01T00:00:00Z");
 
 async function projectContextFromEvents(
   boxesFile: string,
 ): Promise<string | null> {
-  let raw: string;
-  try {
-    raw = await fs.readFile(boxesFile, { encoding: "utf8" });
-  } catch {
+  const indexed = await readIndexedProjection(boxesFile);
+  if (indexed === null) {
     return null;
   }
-
-  const lines = raw.split(/\r?\n/);
-  const boxes: BoxCreatedEvent[] = [];
-  const learnings: { insight: string; confidence: number; ts: string }[] = [];
-
-  for (const line of lines) {
-    const trimmed = line.trim();
-    if (trimmed === "") {
-      continue;
-    }
-
-    let parsed: any;
-    try {
-      parsed = JSON.parse(trimmed);
-    } catch {
-      continue;
-    }
-
-    const eventType =
-      typeof parsed.event === "string" ? parsed.event : "BoxCreated";
-
-    if (eventType === "BoxCreated") {
-      const ts =
-        typeof parsed.ts === "string" ? parsed.ts : new Date(0).toISOString();
-      const boxType =
-        typeof parsed.box_type === "string"
-          ? parsed.box_type
-          : typeof parsed.type === "string"
-            ? parsed.type
-            : "Unknown";
-      const fields =
-        parsed.fields && typeof parsed.fields === "object"
-          ? (parsed.fields as Record<string, string>)
-          : {};
-
-      boxes.push({
-        event: "BoxCreated",
-        id: typeof parsed.id === "string" ? parsed.id : `oc_legacy_${ts}`,
-        ts,
-        box_type: boxType,
-        fields,
-        context:
-          parsed.context && typeof parsed.context === "object"
-            ? (parsed.context as Record<string, unknown>)
-            : {},
-        initial_score:
-          typeof parsed.initial_score === "number" ? parsed.initial_score : 50,
-        schema_version:
-          typeof parsed.schema_version === "number" ? parsed.schema_version : 0,
-      });
-    } else if (eventType === "LearningCreated") {
-      const insight = typeof parsed.insight === "string" ? parsed.insight : "";
-      if (insight === "") {
-        continue;
-      }
-      const confidence =
-        typeof parsed.confidence === "number" ? parsed.confidence : 0.0;
-      const ts =
-        typeof parsed.ts === "string" ? parsed.ts : new Date(0).toISOString();
-      learnings.push({ insight, confidence, ts });
-    }
-  }
-
-  if (boxes.length === 0 && learnings.length === 0) {
-    return null;
-  }
-
-  const maxLearnings = 3;
-  const maxBoxes = 5;
-
-  learnings.sort((a, b) => {
-    if (b.confidence !== a.confidence) {
-      return b.confidence - a.confidence;
-    }
-    return (new Date(b.ts).getTime() || 0) - (new Date(a.ts).getTime() || 0);
-  });
-
-  boxes.sort((a, b) => {
-    return (new Date(b.ts).getTime() || 0) - (new Date(a.ts).getTime() || 0);
+  return injectedContextFor(indexed, {
+    repo: "",
+    now: NOW,
+    config: readRankingConfig({}),
   });
-
-  const topLearnings = learnings.slice(0, maxLearnings);
-  const topBoxes = boxes.slice(0, maxBoxes);
-
-  const linesOut: string[] = [];
-  linesOut.push("PRIOR SESSION LEARNINGS (from Response Boxes):");
-  linesOut.push("");
-
-  if (topLearnings.length > 0) {
-    linesOut.push("Patterns (AI-synthesized learnings)");
-    for (const l of topLearnings) {
-      const conf = Number.isFinite(l.confidence)
-        ? l.confidence.toFixed(2)
-        : "--";
-      linesOut.push(`• [${conf}] ${l.insight}`);
-    }
-    linesOut.push("");
-  }
-
-  if (topBoxes.length > 0) {
-    linesOut.push("Recent notable boxes");
-    for (const box of topBoxes) {
-      const entries = Object.entries(box.fields);
-      const summaryValues = entries
-        .slice(0, 2)
-        .map(([key, value]) => `${key}: ${value}`);
-      const summary = summaryValues.join(" | ");
-      linesOut.push(`• ${box.box_type}: ${summary}`);
-    }
-    linesOut.push("");
-  }
-
-  return linesOut.join("\n");
 }
 
 describe("projectContextFromEvents", () => {
@@ -176,7 +66,8 @@ describe("projectContextFromEvents", () => {
         id: "box_001",
         ts: "2026-01-20T10:00:00Z",
         box_type: "Choice",
-        fields: { selected: "Zod", alternatives: "Yup" },
+        fields: { selected: "Zod", alternatives: "Yup", reasoning: "Types" },
+        initial_score: 70,
         schema_version: 1,
       },
       {
@@ -184,12 +75,17 @@ describe("projectContextFromEvents", () => {
         id: "box_002",
         ts: "2026-01-21T10:00:00Z",
         box_type: "Warning",
-        fields: { risk: "No auth", likelihood: "High" },
+        fields: {
+          risk: "No auth",
+          likelihood: "High",
+          consequence: "Data leak",
+        },
+        initial_score: 70,
         schema_version: 1,
       },
     ];
 
-    const content = events.map((e) => JSON.stringify(e)).join("\n");
+    const content = events.map((e) => `${JSON.stringify(e)}\n`).join("");
     await fs.writeFile(boxesFile, content);
 
     const result = await projectContextFromEvents(boxesFile);
@@ -201,6 +97,33 @@ describe("projectContextFromEvents", () => {
     expect(result).toContain("Warning");
   });
 
+  it("summarises multi-line and list fields on one line", async () => {
+    const events = [
+      {
+        event: "BoxCreated",
+        id: "box_001",
+        ts: "2026-01-20T10:00:00Z",
+        box_type: "Choice",
+        fields: {
+          selected: "Zod for the API\nand the forms",
+          alternatives: ["Yup", "io-ts"],
+          reasoning: "Shared schemas",
+        },
+        initial_score: 70,
+        schema_version: 1,
+      },
+    ];
+
+    const content = events.map((e) => `${JSON.stringify(e)}\n`).join("");
+    await fs.writeFile(boxesFile, content);
+
+    const result = await projectContextFromEvents(boxesFile);
+
+    expect(result).toContain(
+      "• Choice: selected: Zod for the API and the forms | alternatives: Yup, io-ts",
+    );
+  });
+
   it("projects learnings from JSONL file", async () => {
     const events = [
       {
@@ -213,15 +136,15 @@ describe("projectContextFromEvents", () => {
       },
     ];
 
-    const content = events.map((e) => JSON.stringify(e)).join("\n");
+    const content = events.map((e) => `${JSON.stringify(e)}\n`).join("");
     await fs.writeFile(boxesFile, content);
 
     const result = await projectContextFromEvents(boxesFile);
 
     expect(result).not.toBeNull();
     expect(result).toContain("Patterns");
-    expect(result).toContain("User prefers Zod");
-    expect(result).toContain("0.85");
+    // Confidence is discounted for missing evidence and age
+    expect(result).toMatch(/• \[0\.\d{2}\] User prefers Zod/);
   });
 
   it("sorts learnings by confidence (highest first)", async () => {
@@ -252,7 +175,7 @@ describe("projectContextFromEvents", () => {
       },
     ];
 
-    const content = events.map((e) => JSON.stringify(e)).join("\n");
+    const content = events.map((e) => `${JSON.stringify(e)}\n`).join("");
     await fs.writeFile(boxesFile, content);
 
     const result = await projectContextFromEvents(boxesFile);
@@ -272,6 +195,7 @@ describe("projectContextFromEvents", () => {
         ts: "2026-01-18T10:00:00Z",
         box_type: "Oldest",
         fields: { test: "old" },
+        initial_score: 70,
         schema_version: 1,
       },
       {
@@ -280,6 +204,7 @@ describe("projectContextFromEvents", () => {
         ts: "2026-01-22T10:00:00Z",
         box_type: "Newest",
         fields: { test: "new" },
+        initial_score: 70,
         schema_version: 1,
       },
       {
@@ -288,11 +213,12 @@ describe("projectContextFromEvents", () => {
         ts: "2026-01-20T10:00:00Z",
         box_type: "Middle",
         fields: { test: "mid" },
+        initial_score: 70,
         schema_version: 1,
       },
     ];
 
-    const content = events.map((e) => JSON.stringify(e)).join("\n");
+    const content = events.map((e) => `${JSON.stringify(e)}\n`).join("");
     await fs.writeFile(boxesFile, content);
 
     const result = await projectContextFromEvents(boxesFile);
@@ -313,11 +239,12 @@ describe("projectContextFromEvents", () => {
         ts: `2026-01-${20 + i}T10:00:00Z`,
         box_type: `Type${i}`,
         fields: { test: `value${i}` },
+        initial_score: 70,
         schema_version: 1,
       });
     }
 
-    const content = events.map((e) => JSON.stringify(e)).join("\n");
+    const content = events.map((e) => `${JSON.stringify(e)}\n`).join("");
     await fs.writeFile(boxesFile, content);
 
     const result = await projectContextFromEvents(boxesFile);
@@ -341,7 +268,7 @@ describe("projectContextFromEvents", () => {
       });
     }
 
-    const content = events.map((e) => JSON.stringify(e)).join("\n");
+    const content = events.map((e) => `${JSON.stringify(e)}\n`).join("");
     await fs.writeFile(boxesFile, content);
 
     const result = await projectContextFromEvents(boxesFile);
@@ -353,9 +280,10 @@ describe("projectContextFromEvents", () => {
   });
 
   it("handles malformed JSON lines gracefully", async () => {
-    const content = `{"event":"BoxCreated","id":"box_001","ts":"2026-01-20T10:00:00Z","box_type":"Valid","fields":{"test":"value"},"schema_version":1}
+    const content = `{"event":"BoxCreated","id":"box_001","ts":"2026-01-20T10:00:00Z","box_type":"Valid","fields":{"test":"value"},"initial_score":70,"schema_version":1}
 invalid json line
-{"event":"BoxCreated","id":"box_002","ts":"2026-01-21T10:00:00Z","box_type":"AlsoValid","fields":{"test":"value2"},"schema_version":1}`;
+{"event":"BoxCreated","id":"box_002","ts":"2026-01-21T10:00:00Z","box_type":"AlsoValid","fields":{"test":"value2"},"initial_score":70,"schema_version":1}
+`;
 
     await fs.writeFile(boxesFile, content);
 
@@ -374,10 +302,11 @@ invalid json line
         ts: "2026-01-20T10:00:00Z",
         type: "LegacyType",
         fields: { test: "value" },
+        initial_score: 70,
       },
     ];
 
-    const content = events.map((e) => JSON.stringify(e)).join("\n");
+    const content = events.map((e) => `${JSON.stringify(e)}\n`).join("");
     await fs.writeFile(boxesFile, content);
 
     const result = await projectContextFromEvents(boxesFile);
@@ -393,10 +322,11 @@ invalid json line
         ts: "2026-01-20T10:00:00Z",
         box_type: "Implicit",
         fields: { test: "value" },
+        initial_score: 70,
       },
     ];
 
-    const content = events.map((e) => JSON.stringify(e)).join("\n");
+    const content = events.map((e) => `${JSON.stringify(e)}\n`).join("");
     await fs.writeFile(boxesFile, content);
 
     const result = await projectContextFromEvents(boxesFile);
@@ -405,3 +335,205 @@ invalid json line
     expect(result).toContain("Implicit");
   });
 });
+
+describe("formatInjectedContext budget", () => {
+  function learning(id: string, insight: string, confidence: number) {
+    return {
+      event: "LearningCreated",
+      id,
+      ts: "2026-01-31T00:00:00Z",
+      insight,
+      confidence,
+      scope: "global",
+      tags: [],
+      level: 0,
+      schema_version: 1,
+    };
+  }
+
+  function inject(events: Record<string, unknown>[], maxChars: number) {
+    return formatInjectedContext(
+      projectEvents(
+        parseEvents(events.map((e) => JSON.stringify(e)).join("\n")),
+      ),
+      {
+        repo: "",
+        now: NOW,
+        config: { ...readRankingConfig({}), maxChars },
+      },
+    );
+  }
+
+  it("truncates long insights and field values with an ellipsis", () => {
+    const context = inject(
+      [
+        learning("l1", `Prefer ${"small ".repeat(80)}diffs`, 0.9),
+        {
+          event: "BoxCreated",
+          id: "d1",
+          ts: "2026-01-31T00:00:00Z",
+          box_type: "Decision",
+          fields: { what: "x".repeat(500), reasoning: "Short" },
+          initial_score: 80,
+          schema_version: 1,
+        },
+      ],
+      2000,
+    );
+
+    const lines = context!.split("\n");
+    const insight = lines.find((line) => line.includes("Prefer"))!;
+    expect(insight).toMatch(/^• \[[0-9.]+\] Prefer (small )+\S*…$/);
+    expect(insight.length).toBeLessThanOrEqual(250);
+    expect(lines).toContain(
+      `• Decision: what: ${"x".repeat(119)}… | reasoning: Short`,
+    );
+    expect(context).not.toContain("left out");
+  });
+
+  it("fills the budget greedily in rank order and reports what was left out", () => {
+    const context = inject(
+      [
+        learning("top", `Top ${"a".repeat(200)}`, 0.95),
+        learning("long", `Long ${"b".repeat(235)}`, 0.9),
+        learning("short", "Short insight", 0.85),
+      ],
+      600,
+    );
+
+    expect(context!.length).toBeLessThanOrEqual(600);
+    expect(context).toContain("Top a");
+    expect(context).not.toContain("Long b");
+    expect(context).toContain("Short insight");
+    expect(context).toContain("(1 learning left out to fit 600 characters)");
+  });
+
+  it("returns null when nothing fits", () => {
+    expect(inject([learning("l1", "Anything", 0.9)], 100)).toBeNull();
+  });
+});
+
+describe("formatCompactionContext", () => {
+  function box(
+    id: string,
+    sessionId: string,
+    boxType: string,
+    fields: Record<string, unknown>,
+  ) {
+    return {
+      event: "BoxCreated",
+      id,
+      ts: "2026-01-31T10:00:00Z",
+      box_type: boxType,
+      fields,
+      context: { session_id: sessionId },
+      initial_score: 35,
+      schema_version: 1,
+    };
+  }
+
+  function compact(
+    events: Record<string, unknown>[],
+    sessionId = "s1",
+    config = readRankingConfig({}),
+  ) {
+    return formatCompactionContext(
+      projectEvents(
+        parseEvents(events.map((e) => JSON.stringify(e)).join("\n")),
+      ),
+      { sessionId, repo: "", now: NOW, config },
+    );
+  }
+
+  it("carries the session's boxes and the top learnings", () => {
+    const context = compact([
+      box("a", "s1", "Assumption", {
+        what: "Postgres 16",
+        basis: "docker-compose.yml",
+      }),
+      box("f", "s1", "FollowUps", { immediate: ["Add a migration test"] }),
+      box("other", "s2", "Warning", {
+        risk: "Other session",
+        likelihood: "Low",
+        consequence: "None",
+      }),
+      box("broken", "s1", "Warning", { risk: "No likelihood" }),
+      box("choice", "s1", "Choice", {
+        selected: "Zod",
+        alternatives: "Yup",
+        reasoning: "Closed decision",
+      }),
+      box("mirror", "s1", "Sycophancy", { what: "Retired" }),
+      {
+        event: "LearningCreated",
+        id: "l1",
+        ts: "2026-01-30T00:00:00Z",
+        insight: "Check migrations before deploys",
+        confidence: 0.8,
+        scope: "global",
+        tags: [],
+        level: 0,
+        schema_version: 1,
+      },
+    ]);
+
+    expect(context).toContain("Boxes from this session");
+    expect(context).toContain(
+      "• Assumption: what: Postgres 16 | basis: docker-compose.yml",
+    );
+    // Low-scoring follow-ups are never injected but survive compaction
+    expect(context).toContain("• FollowUps: immediate: Add a migration test");
+    expect(context).toContain("Check migrations before deploys");
+    expect(context).not.toContain("Other session");
+    expect(context).not.toContain("No likelihood");
+    // Only the registry's carry_over types are open after compaction
+    expect(context).not.toContain("Closed decision");
+    expect(context).not.toContain("Retired");
+  });
+
+  it("leaves out boxes a later box resolved", () => {
+    const context = compact([
+      box("a1", "s1", "Assumption", { what: "Postgres 16", basis: "Guess" }),
+      box("f1", "s1", "FollowUps", { immediate: ["Write the migration"] }),
+      box("a2", "s1", "Assumption", {
+        what: "postgres  16",
+        basis: "Checked docker-compose.yml",
+      }),
+      box("f2", "s1", "FollowUps", { immediate: ["Add a migration test"] }),
+    ]);
+
+    expect(context).toContain("basis: Checked docker-compose.yml");
+    expect(context).toContain("Add a migration test");
+    expect(context).not.toContain("basis: Guess");
+    expect(context).not.toContain("Write the migration");
+  });
+
+  it("stays within the character budget", () => {
+    const warnings = Array.from({ length: 8 }, (_, i) =>
+      box(`w${i}`, "s1", "Warning", {
+        risk: `Risk ${i} ${"x".repeat(500)}`,
+        likelihood: "High",
+        consequence: "Outage",
+      }),
+    );
+    const context = compact(
+      warnings,
+      "s1",
+      readRankingConfig({ BOX_INJECT_MAX_CHARS: "600" }),
+    );
+
+    expect(context!.length).toBeLessThanOrEqual(600);
+    // Field values are cut, and the newest boxes kept
+    expect(context).toContain("Risk 7 xxx");
+    expect(context).toContain("…");
+    expect(context).not.toContain("x".repeat(200));
+    expect(context).not.toContain("Risk 0");
+    expect(context).toMatch(/\(\d+ boxes left out to fit 600 characters\)/);
+  });
+
+  it("returns null when there is nothing to carry over", () => {
+    expect(
+      compact([box("other", "s2", "Decision", { what: "x", reasoning: "y" })]),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,250 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as crypto from "crypto";
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import {
+  StoreDecryptionError,
+  StoreKeyError,
+  appendEvents,
+  compactStore,
+  convertStore,
+  createStoreKey,
+  decryptLine,
+  encryptLine,
+  isEncryptedLine,
+  parseEvents,
+  projectEvents,
+  projectionCachePath,
+  readIndexedProjection,
+  readStoreKey,
+  storeEncryptionStatus,
+  storeKeyFromBytes,
+} from "@response-boxes/core";
+
+const KEY = storeKeyFromBytes(crypto.randomBytes(32));
+const OTHER_KEY = storeKeyFromBytes(crypto.randomBytes(32));
+
+let dir: string;
+let storeFile: string;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "rb-encrypt-"));
+  storeFile = path.join(dir, "boxes.jsonl");
+});
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+function box(id: string, ts: string): object {
+  return {
+    event: "BoxCreated",
+    id,
+    ts,
+    box_type: "Warning",
+    fields: { summary: `Box ${id}` },
+    context: {},
+    initial_score: 80,
+    schema_version: 1,
+  };
+}
+
+async function readLines(file: string = storeFile): Promise<string[]> {
+  return (await fs.readFile(file, { encoding: "utf8" }))
+    .split("\n")
+    .filter((line) => line !== "");
+}
+
+describe("encryptLine", () => {
+  it("round-trips a line through an envelope", () => {
+    const line = JSON.stringify(box("b1", "2026-01-20T10:00:00Z"));
+    const sealed = encryptLine(line, KEY);
+
+    expect(isEncryptedLine(sealed)).toBe(true);
+    expect(sealed).not.toContain("Box b1");
+    expect(JSON.parse(sealed)).toMatchObject({
+      event: "Encrypted",
+      alg: "aes-256-gcm",
+      key_id: KEY.id,
+    });
+    expect(decryptLine(sealed, KEY)).toBe(line);
+    expect(decryptLine(line, null)).toBe(line);
+  });
+
+  it("rejects a missing, different or tampered key", () => {
+    const sealed = encryptLine("{}", KEY);
+    const tampered = JSON.stringify({
+      ...JSON.parse(sealed),
+      data: Buffer.from("{ }").toString("base64"),
+    });
+
+    expect(() => decryptLine(sealed, null)).toThrow(StoreDecryptionError);
+    expect(() => decryptLine(sealed, OTHER_KEY)).toThrow(StoreDecryptionError);
+    expect(() => decryptLine(tampered, KEY)).toThrow(StoreDecryptionError);
+  });
+});
+
+describe("store keys", () => {
+  it("creates an owner-only key once and reads it back", async () => {
+    const keyFile = path.join(dir, "keys", "store.key");
+    expect(await readStoreKey(keyFile)).toBeNull();
+
+    const created = await createStoreKey(keyFile);
+    expect((await fs.stat(keyFile)).mode & 0o777).toBe(0o600);
+    expect((await readStoreKey(keyFile))?.id).toBe(created.id);
+    await expect(createStoreKey(keyFile)).rejects.toThrow();
+
+    await fs.writeFile(keyFile, "too short\n");
+    await expect(readStoreKey(keyFile)).rejects.toThrow(StoreKeyError);
+  });
+});
+
+describe("encrypted store", () => {
+  it("projects encrypted events like plaintext ones", async () => {
+    const events = [
+      box("b1", "2026-01-20T10:00:00Z"),
+      box("b2", "2026-01-21T10:00:00Z"),
+    ];
+    await appendEvents(storeFile, events, undefined, KEY);
+
+    const lines = await readLines();
+    expect(lines.every(isEncryptedLine)).toBe(true);
+
+    const indexed = await readIndexedProjection(
+      storeFile,
+      null,
+      undefined,
+      KEY,
+    );
+    expect(indexed?.projection).toEqual(
+      projectEvents(
+        parseEvents(events.map((e) => JSON.stringify(e)).join("\n")),
+      ),
+    );
+    const cache = await fs.readFile(projectionCachePath(storeFile), {
+      encoding: "utf8",
+    });
+    expect(isEncryptedLine(cache)).toBe(true);
+    expect(cache).not.toContain("Box b1");
+  });
+
+  it("replaces a plaintext cache once a key is in use", async () => {
+    await appendEvents(
+      storeFile,
+      [box("b1", "2026-01-20T10:00:00Z")],
+      undefined,
+      null,
+    );
+    const cacheIsSealed = async () =>
+      isEncryptedLine(
+        await fs.readFile(projectionCachePath(storeFile), { encoding: "utf8" }),
+      );
+
+    // A new process does not reuse the plaintext cache
+    await readIndexedProjection(storeFile, null, undefined, null);
+    expect(await cacheIsSealed()).toBe(false);
+    const fresh = await readIndexedProjection(storeFile, null, undefined, KEY);
+    expect(fresh?.mode).toBe("full");
+    expect(await cacheIsSealed()).toBe(true);
+
+    // A running process rewrites it on the next read, even with no new events
+    const plain = await readIndexedProjection(storeFile, null, undefined, null);
+    expect(plain?.sealed).toBe(false);
+    const resealed = await readIndexedProjection(
+      storeFile,
+      plain,
+      undefined,
+      KEY,
+    );
+    expect(resealed?.sealed).toBe(true);
+    expect(resealed?.projection.boxes.map((b) => b.id)).toEqual(["b1"]);
+    expect(await cacheIsSealed()).toBe(true);
+  });
+
+  it("fails to read without the key instead of looking empty", async () => {
+    await appendEvents(
+      storeFile,
+      [box("b1", "2026-01-20T10:00:00Z")],
+      undefined,
+      KEY,
+    );
+
+    await expect(
+      readIndexedProjection(storeFile, null, undefined, null),
+    ).rejects.toThrow(StoreDecryptionError);
+  });
+
+  it("writes the compaction snapshot encrypted", async () => {
+    const daysAgo = (days: number) =>
+      new Date(Date.now() - days * 86400000).toISOString();
+    await appendEvents(
+      storeFile,
+      [
+        box("b1", daysAgo(120)),
+        {
+          event: "AnalysisCompleted",
+          id: "a1",
+          ts: daysAgo(100),
+          through_ts: daysAgo(100),
+          stats: {},
+          schema_version: 1,
+        },
+      ],
+      undefined,
+      KEY,
+    );
+
+    await compactStore(storeFile, {}, undefined, KEY);
+
+    const lines = await readLines();
+    expect(lines.every(isEncryptedLine)).toBe(true);
+    expect(JSON.parse(decryptLine(lines[0], KEY)).event).toBe("Snapshot");
+  });
+});
+
+describe("convertStore", () => {
+  it("encrypts and decrypts the store and its archives", async () => {
+    const archive = path.join(dir, "boxes-2025-11.jsonl");
+    const plaintext = [
+      JSON.stringify(box("b1", "2026-01-20T10:00:00Z")),
+      JSON.stringify(box("b2", "2026-01-21T10:00:00Z")),
+    ];
+    await fs.writeFile(storeFile, `${plaintext.join("\n")}\n\n`);
+    await fs.writeFile(
+      archive,
+      `${JSON.stringify(box("b0", "2025-11-02T10:00:00Z"))}\n`,
+    );
+    await fs.writeFile(projectionCachePath(storeFile), "{}");
+
+    const encrypted = await convertStore(storeFile, "encrypt", KEY);
+    expect(encrypted).toEqual({
+      files: [storeFile, archive],
+      convertedLines: 3,
+    });
+    expect(await storeEncryptionStatus(storeFile)).toEqual({
+      files: [storeFile, archive],
+      encryptedLines: 3,
+      plaintextLines: 0,
+    });
+    await expect(fs.stat(projectionCachePath(storeFile))).rejects.toThrow();
+
+    // Already-sealed lines are left alone
+    expect((await convertStore(storeFile, "encrypt", KEY)).convertedLines).toBe(
+      0,
+    );
+
+    await expect(convertStore(storeFile, "decrypt", OTHER_KEY)).rejects.toThrow(
+      StoreDecryptionError,
+    );
+    expect((await readLines()).every(isEncryptedLine)).toBe(true);
+
+    await convertStore(storeFile, "decrypt", KEY);
+    expect(await readLines()).toEqual(plaintext);
+    expect(await storeEncryptionStatus(storeFile)).toMatchObject({
+      encryptedLines: 0,
+      plaintextLines: 3,
+    });
+  });
+});
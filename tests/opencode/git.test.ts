@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { execFileSync } from "child_process";
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import {
+  normalizeRemoteUrl,
+  resolveGitContext,
+  resolveWorktreeRoot,
+} from "@response-boxes/core";
+
+describe("normalizeRemoteUrl", () => {
+  it.each([
+    ["git@github.com:user/repo.git", "github.com/user/repo"],
+    ["https://github.com/user/repo.git", "github.com/user/repo"],
+    ["https://github.com/user/repo", "github.com/user/repo"],
+    ["https://token@GitHub.com/user/repo.git/", "github.com/user/repo"],
+    ["ssh://git@github.com:22/user/repo.git", "github.com/user/repo"],
+    [
+      "ssh://git@gitlab.example.com/group/sub/repo",
+      "gitlab.example.com/group/sub/repo",
+    ],
+    ["github.com/user/repo", "github.com/user/repo"],
+    ["", ""],
+  ])("normalizes %s", (input, expected) => {
+    expect(normalizeRemoteUrl(input)).toBe(expected);
+  });
+
+  it("keeps path case (only the host is case-insensitive)", () => {
+    expect(normalizeRemoteUrl("git@github.com:User/Repo.git")).toBe(
+      "github.com/User/Repo",
+    );
+  });
+});
+
+describe("resolveGitContext", () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = await fs.mkdtemp(path.join(os.tmpdir(), "response-boxes-git-"));
+  });
+
+  afterEach(async () => {
+    try {
+      await fs.rm(testDir, { recursive: true });
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  it("returns empty context outside a repository", async () => {
+    expect(await resolveGitContext(testDir)).toEqual({
+      remote: "",
+      branch: "",
+    });
+  });
+
+  it("returns empty context for an empty directory argument", async () => {
+    expect(await resolveGitContext("")).toEqual({ remote: "", branch: "" });
+  });
+
+  it("finds the worktree root from a subdirectory", async () => {
+    const sub = path.join(testDir, "src");
+    await fs.mkdir(sub);
+    expect(await resolveWorktreeRoot(sub)).toBe(sub);
+
+    execFileSync("git", ["-C", testDir, "init", "-q"]);
+    expect(await resolveWorktreeRoot(sub)).toBe(await fs.realpath(testDir));
+  });
+
+  it("reads the normalized remote and current branch", async () => {
+    execFileSync("git", ["-C", testDir, "init", "-q", "-b", "feature/x"]);
+    execFileSync("git", [
+      "-C",
+      testDir,
+      "remote",
+      "add",
+      "origin",
+      "git@github.com:user/api.git",
+    ]);
+    execFileSync("git", [
+      "-C",
+      testDir,
+      "-c",
+      "user.email=test@example.com",
+      "-c",
+      "user.name=Test",
+      "commit",
+      "-q",
+      "--allow-empty",
+      "-m",
+      "init",
+    ]);
+
+    expect(await resolveGitContext(testDir)).toEqual({
+      remote: "github.com/user/api",
+      branch: "feature/x",
+    });
+  });
+});
@@ -0,0 +1,257 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import {
+  type BoxEvent,
+  appendEvents,
+  createStoreKey,
+  parseEvents,
+  readStoreKey,
+  storeLockPath,
+} from "@response-boxes/core";
+
+// Loaded by path so the test type-check does not compile the plugin against
+// @opencode-ai/plugin, which this package does not install
+const PLUGIN_FILE = "../../agents/opencode/plugins/response-boxes.plugin";
+
+type Hook = (...args: never[]) => Promise<void>;
+type Hooks = Partial<Record<string, Hook>>;
+
+const RULE = "─".repeat(48);
+const ENV_KEYS = [
+  "RESPONSE_BOXES_FILE",
+  "RESPONSE_BOXES_KEY_FILE",
+  "RESPONSE_BOXES_BOX_TYPES",
+  "RESPONSE_BOXES_REDACTIONS",
+  "BOX_INJECT_LEARNINGS",
+  "RESPONSE_BOXES_LOCK_TIMEOUT_SECONDS",
+];
+
+let dir: string;
+let storeFile: string;
+let keyFile: string;
+let savedEnv: Record<string, string | undefined>;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "rb-plugin-"));
+  storeFile = path.join(dir, "analytics", "boxes.jsonl");
+  keyFile = path.join(dir, "store.key");
+  savedEnv = Object.fromEntries(ENV_KEYS.map((key) => [key, process.env[key]]));
+  process.env.RESPONSE_BOXES_FILE = storeFile;
+  process.env.RESPONSE_BOXES_KEY_FILE = keyFile;
+  process.env.RESPONSE_BOXES_BOX_TYPES = path.join(dir, "box-types.json");
+  process.env.RESPONSE_BOXES_REDACTIONS = path.join(dir, "redactions.json");
+});
+
+afterEach(async () => {
+  for (const key of ENV_KEYS) {
+    if (savedEnv[key] === undefined) {
+      delete process.env[key];
+    } else {
+      process.env[key] = savedEnv[key];
+    }
+  }
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+async function loadHooks(): Promise<Hooks> {
+  const worktree = path.join(dir, "repo");
+  await fs.mkdir(worktree, { recursive: true });
+  const { default: plugin } = await import(PLUGIN_FILE);
+  return plugin({ directory: worktree, worktree });
+}
+
+function assistantMessage(id: string, text: string): never {
+  return {
+    event: {
+      type: "message.updated",
+      properties: {
+        info: {
+          id,
+          role: "assistant",
+          sessionID: "ses_1",
+          parts: [{ type: "text", text }],
+          time: { completed: 1 },
+        },
+      },
+    },
+  } as never;
+}
+
+const WARNING = `⚠️ Warning ${RULE}\n**Risk:** No auth on DELETE\n${RULE}`;
+
+async function storedEvents(): Promise<BoxEvent[]> {
+  return parseEvents(
+    await fs.readFile(storeFile, { encoding: "utf8" }),
+    await readStoreKey(keyFile),
+  );
+}
+
+describe("capture", () => {
+  it("records identical boxes in one message separately", async () => {
+    const hooks = await loadHooks();
+    const message = assistantMessage("msg_1", `${WARNING}\n\n${WARNING}`);
+    await hooks.event!(message);
+    await hooks.event!(message);
+
+    const created = (await storedEvents()).filter(
+      (event) => event.event === "BoxCreated",
+    );
+    expect(new Set(created.map((event) => event.id)).size).toBe(2);
+  });
+});
+
+describe("unreadable store", () => {
+  it("skips capture until the store can be read again", async () => {
+    const key = await createStoreKey(keyFile);
+    await appendEvents(
+      storeFile,
+      [{ event: "AnalysisCompleted", id: "a1", ts: "2026-01-20T10:00:00Z" }],
+      undefined,
+      key,
+    );
+    await fs.rename(keyFile, `${keyFile}.away`);
+
+    const hooks = await loadHooks();
+    await expect(
+      hooks.event!(assistantMessage("msg_1", WARNING)),
+    ).resolves.toBeUndefined();
+
+    const output = { system: [] as string[] };
+    await expect(
+      hooks["experimental.chat.system.transform"]!(
+        { sessionID: "ses_1" } as never,
+        output as never,
+      ),
+    ).resolves.toBeUndefined();
+    expect(output.system).toEqual([]);
+
+    await fs.rename(`${keyFile}.away`, keyFile);
+    await hooks.event!(assistantMessage("msg_1", WARNING));
+
+    const created = (await storedEvents()).filter(
+      (event) => event.event === "BoxCreated",
+    );
+    expect(created).toHaveLength(1);
+  });
+
+  it("still injects and captures when the project store cannot be read", async () => {
+    // A line sealed with a personal key, which the shared store never has
+    await appendEvents(
+      path.join(dir, "repo", ".response-boxes", "boxes.jsonl"),
+      [{ event: "AnalysisCompleted", id: "a1", ts: "2026-01-20T10:00:00Z" }],
+      undefined,
+      await createStoreKey(path.join(dir, "other.key")),
+    );
+    await appendEvents(
+      storeFile,
+      [
+        {
+          event: "LearningCreated",
+          id: "l1",
+          ts: new Date().toISOString(),
+          insight: "Validate request bodies with Zod schemas",
+          confidence: 0.9,
+          scope: "global",
+          tags: [],
+          level: 0,
+          schema_version: 1,
+        },
+      ],
+      undefined,
+      null,
+    );
+    process.env.BOX_INJECT_LEARNINGS = "1";
+
+    const hooks = await loadHooks();
+    const output = { system: [] as string[] };
+    await hooks["experimental.chat.system.transform"]!(
+      { sessionID: "ses_1" } as never,
+      output as never,
+    );
+    expect(output.system.join("\n")).toContain("Zod schemas");
+
+    await hooks.event!(assistantMessage("msg_1", WARNING));
+    expect(
+      (await storedEvents()).filter((event) => event.event === "BoxCreated"),
+    ).toHaveLength(1);
+  });
+});
+
+describe("failed append", () => {
+  it("resolves and retries the write on a later update", async () => {
+    await fs.mkdir(path.dirname(storeFile), { recursive: true });
+    // Held by this (live) process, so it is never taken over as stale
+    await fs.writeFile(
+      storeLockPath(storeFile),
+      `${process.pid} ${os.hostname()} ${Math.floor(Date.now() / 1000)}\n`,
+    );
+    process.env.RESPONSE_BOXES_LOCK_TIMEOUT_SECONDS = "0.2";
+
+    const hooks = await loadHooks();
+    await expect(
+      hooks.event!(assistantMessage("msg_1", WARNING)),
+    ).resolves.toBeUndefined();
+    await expect(fs.stat(storeFile)).rejects.toThrow();
+
+    await fs.rm(storeLockPath(storeFile));
+    await hooks.event!(assistantMessage("msg_1", WARNING));
+    expect(
+      (await storedEvents()).filter((event) => event.event === "BoxCreated"),
+    ).toHaveLength(1);
+  });
+});
+
+describe("compaction", () => {
+  it("carries over the learnings ranked for the session's prompt", async () => {
+    const ts = new Date().toISOString();
+    const learning = (id: string, insight: string, confidence: number) => ({
+      event: "LearningCreated",
+      id,
+      ts,
+      insight,
+      confidence,
+      scope: "global",
+      tags: [],
+      level: 0,
+      schema_version: 1,
+    });
+    await appendEvents(
+      storeFile,
+      [
+        learning("l1", "Makefiles in this team are indented with tabs", 0.9),
+        learning("l2", "Validate request bodies with Zod schemas", 0.6),
+      ],
+      undefined,
+      null,
+    );
+    process.env.BOX_INJECT_LEARNINGS = "1";
+
+    const hooks = await loadHooks();
+    await hooks["chat.message"]!(
+      { sessionID: "ses_1" } as never,
+      {
+        parts: [
+          { type: "text", text: "Add Zod validation to the request body" },
+        ],
+      } as never,
+    );
+    const injected = { system: [] as string[] };
+    await hooks["experimental.chat.system.transform"]!(
+      { sessionID: "ses_1" } as never,
+      injected as never,
+    );
+    const compacted = { context: [] as string[] };
+    await hooks["experimental.session.compacting"]!(
+      { sessionID: "ses_1" } as never,
+      compacted as never,
+    );
+
+    // Without the prompt, the more confident Makefile learning ranks first
+    expect(injected.system.join("\n")).toContain("Zod schemas");
+    expect(compacted.context.join("\n")).toContain("Zod schemas");
+    expect(compacted.context.join("\n")).not.toContain("Makefiles");
+  });
+});
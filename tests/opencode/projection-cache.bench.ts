@@ -0,0 +1,136 @@
+// Session-start cost of projecting a large store: full replay (the previous
+// behaviour) versus the indexed projection cache.
+//
+//   npm run bench                                # 500k events
+//   RESPONSE_BOXES_BENCH_EVENTS=50000 npm run bench
+
+import { afterAll, bench, describe } from "vitest";
+import { createWriteStream, promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import {
+  type IndexedProjection,
+  projectEvents,
+  readEventStore,
+  readIndexedProjection,
+} from "@response-boxes/core";
+
+const EVENTS = Number(process.env.RESPONSE_BOXES_BENCH_EVENTS ?? 500000);
+const APPENDED = 1000;
+const BOX_TYPES = ["Choice", "Warning", "Assumption", "Completion", "Decision"];
+
+function syntheticEvent(index: number): Record<string, unknown> {
+  const ts = new Date(Date.UTC(2025, 0, 1) + index * 60000).toISOString();
+  const learningId = `learning_${Math.floor(index / 50)}`;
+
+  if (index % 50 === 0) {
+    return {
+      event: "LearningCreated",
+      id: learningId,
+      ts,
+      insight: `Synthetic learning ${index}`,
+      confidence: 0.7,
+      scope: index % 100 === 0 ? "repo" : "global",
+      tags: ["bench"],
+      level: 0,
+      schema_version: 1,
+    };
+  }
+  if (index % 10 === 0) {
+    return {
+      event: "EvidenceLinked",
+      id: `link_${index}`,
+      ts,
+      learning_id: learningId,
+      box_id: `box_${index - 1}`,
+      strength: 0.8,
+      relationship: "supports",
+      schema_version: 1,
+    };
+  }
+  if (index % 25 === 0) {
+    return {
+      event: "BoxEnriched",
+      id: `enrich_${index}`,
+      ts,
+      box_id: `box_${index - 3}`,
+      updates: { score: 95 },
+      schema_version: 1,
+    };
+  }
+  return {
+    event: "BoxCreated",
+    id: `box_${index}`,
+    ts,
+    box_type: BOX_TYPES[index % BOX_TYPES.length],
+    fields: {
+      selected: `Option ${index}`,
+      reasoning: "Synthetic reasoning for the benchmark store",
+    },
+    context: {
+      session_id: `session_${Math.floor(index / 20)}`,
+      git_remote: "github.com/example/repo",
+      git_branch: "main",
+    },
+    initial_score: 70,
+    schema_version: 1,
+  };
+}
+
+async function writeEvents(
+  file: string,
+  from: number,
+  to: number,
+): Promise<void> {
+  const out = createWriteStream(file, { flags: "a" });
+  for (let index = from; index < to; index += 1) {
+    if (!out.write(`${JSON.stringify(syntheticEvent(index))}\n`)) {
+      await new Promise<void>((resolve) => out.once("drain", () => resolve()));
+    }
+  }
+  await new Promise<void>((resolve, reject) =>
+    out.end((error?: Error | null) => (error ? reject(error) : resolve())),
+  );
+}
+
+const dir = await fs.mkdtemp(path.join(os.tmpdir(), "rb-bench-"));
+const storeFile = path.join(dir, "boxes.jsonl");
+
+// Index EVENTS lines, then append a typical day's worth that only the
+// incremental paths have to fold
+await writeEvents(storeFile, 0, EVENTS);
+await readIndexedProjection(storeFile);
+await writeEvents(storeFile, EVENTS, EVENTS + APPENDED);
+const warm = (await readIndexedProjection(storeFile)) as IndexedProjection;
+
+afterAll(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe(`projection of ${EVENTS} events (+${APPENDED} appended)`, () => {
+  bench(
+    "full replay (read + parse every line)",
+    async () => {
+      const raw = await fs.readFile(storeFile, { encoding: "utf8" });
+      projectEvents(readEventStore(raw).events);
+    },
+    { iterations: 3, time: 0 },
+  );
+
+  bench(
+    "cold start from the on-disk cache",
+    async () => {
+      await readIndexedProjection(storeFile);
+    },
+    { iterations: 3, time: 0 },
+  );
+
+  bench(
+    "warm in-process read (no new lines)",
+    async () => {
+      await readIndexedProjection(storeFile, warm);
+    },
+    { iterations: 20, time: 0 },
+  );
+});
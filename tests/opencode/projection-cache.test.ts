@@ -0,0 +1,206 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import {
+  parseEvents,
+  projectEvents,
+  projectionCachePath,
+  readIndexedProjection,
+} from "@response-boxes/core";
+
+let dir: string;
+let storeFile: string;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "rb-cache-"));
+  storeFile = path.join(dir, "boxes.jsonl");
+});
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+function box(id: string, ts = "2026-01-20T10:00:00Z"): string {
+  return JSON.stringify({
+    event: "BoxCreated",
+    id,
+    ts,
+    box_type: "Warning",
+    fields: { risk: id },
+    initial_score: 90,
+    schema_version: 1,
+  });
+}
+
+function jsonl(lines: string[]): string {
+  return lines.map((line) => `${line}\n`).join("");
+}
+
+async function fullProjection() {
+  return projectEvents(
+    parseEvents(await fs.readFile(storeFile, { encoding: "utf8" })),
+  );
+}
+
+describe("readIndexedProjection", () => {
+  it("returns null when the store does not exist", async () => {
+    expect(await readIndexedProjection(storeFile)).toBeNull();
+  });
+
+  it("builds the full projection and persists the cache", async () => {
+    await fs.writeFile(storeFile, jsonl([box("b1"), box("b2")]));
+
+    const indexed = await readIndexedProjection(storeFile);
+
+    expect(indexed?.mode).toBe("full");
+    expect(indexed?.projection.boxes.map((b) => b.id)).toEqual(["b1", "b2"]);
+    expect(indexed?.cache.offset).toBe((await fs.stat(storeFile)).size);
+    await expect(
+      fs.access(projectionCachePath(storeFile)),
+    ).resolves.toBeUndefined();
+  });
+
+  it("folds only appended lines and matches a full replay", async () => {
+    await fs.writeFile(
+      storeFile,
+      jsonl([
+        box("b1"),
+        JSON.stringify({
+          event: "LearningCreated",
+          id: "l1",
+          ts: "2026-01-21T10:00:00Z",
+          insight: "Prefers Zod",
+          confidence: 0.6,
+        }),
+      ]),
+    );
+    const first = await readIndexedProjection(storeFile);
+
+    // Mutations for entities indexed earlier, including an out-of-order ts
+    await fs.appendFile(
+      storeFile,
+      jsonl([
+        JSON.stringify({
+          event: "LearningUpdated",
+          id: "u2",
+          ts: "2026-01-23T10:00:00Z",
+          learning_id: "l1",
+          updates: { confidence: 0.9 },
+        }),
+        JSON.stringify({
+          event: "LearningUpdated",
+          id: "u1",
+          ts: "2026-01-22T10:00:00Z",
+          learning_id: "l1",
+          updates: { confidence: 0.7, insight: "Prefers Zod everywhere" },
+        }),
+        JSON.stringify({
+          event: "BoxEnriched",
+          id: "e1",
+          ts: "2026-01-22T10:00:00Z",
+          box_id: "b1",
+          updates: { score: 99 },
+        }),
+        box("b2"),
+      ]),
+    );
+
+    const second = await readIndexedProjection(storeFile, first);
+
+    expect(second?.mode).toBe("incremental");
+    expect(second?.projection).toEqual(await fullProjection());
+    expect(second?.projection.learnings[0].confidence).toBe(0.9);
+  });
+
+  it("resumes from the on-disk cache in a new process", async () => {
+    await fs.writeFile(storeFile, jsonl([box("b1")]));
+    await readIndexedProjection(storeFile);
+    await fs.appendFile(storeFile, jsonl([box("b2")]));
+
+    const resumed = await readIndexedProjection(storeFile);
+
+    expect(resumed?.mode).toBe("incremental");
+    expect(resumed?.projection).toEqual(await fullProjection());
+  });
+
+  it("reports unchanged stores without re-reading them", async () => {
+    await fs.writeFile(storeFile, jsonl([box("b1")]));
+    const first = await readIndexedProjection(storeFile);
+
+    const second = await readIndexedProjection(storeFile, first);
+
+    expect(second?.mode).toBe("unchanged");
+    expect(second?.projection).toBe(first?.projection);
+  });
+
+  it("waits for a partially appended line to be completed", async () => {
+    const line = box("b2");
+    await fs.writeFile(storeFile, jsonl([box("b1")]) + line.slice(0, 20));
+
+    const partial = await readIndexedProjection(storeFile);
+    expect(partial?.projection.boxes.map((b) => b.id)).toEqual(["b1"]);
+
+    await fs.appendFile(storeFile, `${line.slice(20)}\n`);
+    const completed = await readIndexedProjection(storeFile, partial);
+
+    expect(completed?.mode).toBe("incremental");
+    expect(completed?.projection.boxes.map((b) => b.id)).toEqual(["b1", "b2"]);
+  });
+
+  it("rebuilds after truncation", async () => {
+    await fs.writeFile(storeFile, jsonl([box("b1"), box("b2")]));
+    const first = await readIndexedProjection(storeFile);
+
+    await fs.writeFile(storeFile, jsonl([box("b3")]));
+    const rebuilt = await readIndexedProjection(storeFile, first);
+
+    expect(rebuilt?.mode).toBe("full");
+    expect(rebuilt?.projection.boxes.map((b) => b.id)).toEqual(["b3"]);
+  });
+
+  it("rebuilds after rotation to a new file", async () => {
+    await fs.writeFile(storeFile, jsonl([box("b1")]));
+    const first = await readIndexedProjection(storeFile);
+
+    const rotated = `${storeFile}.new`;
+    await fs.writeFile(rotated, jsonl([box("b9"), box("b1")]));
+    await fs.rename(rotated, storeFile);
+    const rebuilt = await readIndexedProjection(storeFile, first);
+
+    expect(rebuilt?.mode).toBe("full");
+    expect(rebuilt?.projection.boxes.map((b) => b.id)).toEqual(["b9", "b1"]);
+  });
+
+  it("rebuilds when indexed bytes were rewritten in place", async () => {
+    await fs.writeFile(storeFile, jsonl([box("b1"), box("b2")]));
+    const first = await readIndexedProjection(storeFile);
+
+    // Same length, same inode, different content
+    const handle = await fs.open(storeFile, "r+");
+    await handle.write(box("x1"), 0);
+    await handle.close();
+    const rebuilt = await readIndexedProjection(storeFile, first);
+
+    expect(rebuilt?.mode).toBe("full");
+    expect(rebuilt?.projection.boxes.map((b) => b.id)).toEqual(["x1", "b2"]);
+  });
+
+  it("keeps schema guardrail counts across incremental reads", async () => {
+    await fs.writeFile(storeFile, jsonl([box("b1")]));
+    const first = await readIndexedProjection(storeFile);
+
+    await fs.appendFile(
+      storeFile,
+      jsonl([
+        JSON.stringify({ event: "BoxCreated", id: "v9", schema_version: 9 }),
+      ]),
+    );
+    const second = await readIndexedProjection(storeFile, first);
+
+    expect(second?.cache.unsupported_count).toBe(1);
+    expect(second?.cache.newest_schema_version).toBe(9);
+    expect(second?.projection.boxes.map((b) => b.id)).toEqual(["b1"]);
+  });
+});
@@ -0,0 +1,385 @@
+import { describe, it, expect } from "vitest";
+
+import {
+  parseEventLine,
+  parseEvents,
+  projectEvents,
+} from "@response-boxes/core";
+
+function toJsonl(events: Record<string, unknown>[]): string {
+  return events.map((e) => JSON.stringify(e)).join("\n");
+}
+
+describe("parseEventLine", () => {
+  it("skips blank and malformed lines", () => {
+    expect(parseEventLine("")).toBeNull();
+    expect(parseEventLine("not json")).toBeNull();
+    expect(parseEventLine("[1,2,3]")).toBeNull();
+  });
+
+  it("skips unknown event types", () => {
+    expect(parseEventLine('{"event":"SomethingElse","id":"x"}')).toBeNull();
+  });
+
+  it("normalizes legacy lines into BoxCreated with hook-compatible IDs", () => {
+    const event = parseEventLine(
+      JSON.stringify({
+        type: "Assumption",
+        ts: "2026-01-20T10:00:00Z",
+        fields: { what: "TypeScript" },
+        context: { session_id: "abc", turn_number: 3 },
+      }),
+    );
+
+    expect(event).toMatchObject({
+      event: "BoxCreated",
+      id: "sess_abc_3",
+      box_type: "Assumption",
+      schema_version: 1,
+    });
+  });
+
+  it("falls back to a timestamp/type legacy ID without session context", () => {
+    const event = parseEventLine(
+      JSON.stringify({ type: "Choice", ts: "2026-01-20T10:00:00Z" }),
+    );
+
+    expect(event).toMatchObject({
+      id: "legacy_2026_01_20T10_00_00Z_Choice",
+    });
+  });
+
+  it("carries the incomplete flag into the projected box", () => {
+    const base = {
+      event: "BoxCreated",
+      ts: "2026-01-20T10:00:00Z",
+      box_type: "Choice",
+      fields: {},
+    };
+    const projection = projectEvents(
+      parseEvents(
+        toJsonl([
+          { ...base, id: "open", incomplete: true },
+          { ...base, id: "closed" },
+        ]),
+      ),
+    );
+
+    expect(projection.boxes.map((box) => [box.id, box.incomplete])).toEqual([
+      ["open", true],
+      ["closed", false],
+    ]);
+  });
+
+  it("carries completeness and missing fields into the projected box", () => {
+    const base = {
+      event: "BoxCreated",
+      ts: "2026-01-20T10:00:00Z",
+      box_type: "Choice",
+      fields: {},
+    };
+    const projection = projectEvents(
+      parseEvents(
+        toJsonl([
+          {
+            ...base,
+            id: "partial",
+            completeness: 0.33,
+            missing_fields: ["selected", "reasoning"],
+          },
+          { ...base, id: "legacy" },
+          {
+            event: "BoxMalformed",
+            id: "partial_malformed",
+            ts: "2026-01-20T10:00:00Z",
+            box_id: "partial",
+            box_type: "Choice",
+            missing_fields: ["selected", "reasoning"],
+            completeness: 0.33,
+          },
+        ]),
+      ),
+    );
+
+    expect(
+      projection.boxes.map((box) => [
+        box.id,
+        box.completeness,
+        box.missing_fields,
+      ]),
+    ).toEqual([
+      ["partial", 0.33, ["selected", "reasoning"]],
+      ["legacy", null, []],
+    ]);
+  });
+
+  it("keeps list fields and stringifies other values", () => {
+    const event = parseEventLine(
+      JSON.stringify({
+        event: "BoxCreated",
+        id: "b1",
+        ts: "2026-01-20T10:00:00Z",
+        box_type: "Choice",
+        fields: { alternatives: ["Yup", 2, null], confidence: 8, gaps: null },
+      }),
+    );
+
+    expect(event).toMatchObject({
+      fields: { alternatives: ["Yup", "2"], confidence: "8" },
+    });
+  });
+});
+
+describe("projectEvents", () => {
+  it("applies LearningUpdated in timestamp order", () => {
+    const { learnings } = projectEvents(
+      parseEvents(
+        toJsonl([
+          {
+            event: "LearningCreated",
+            id: "learning_001",
+            ts: "2026-01-21T15:00:00Z",
+            insight: "User prefers Zod",
+            confidence: 0.6,
+            scope: "global",
+            tags: ["validation"],
+            level: 0,
+          },
+          {
+            event: "LearningUpdated",
+            id: "lupdate_002",
+            ts: "2026-01-23T10:00:00Z",
+            learning_id: "learning_001",
+            updates: { confidence: 0.92 },
+          },
+          {
+            event: "LearningUpdated",
+            id: "lupdate_001",
+            ts: "2026-01-22T10:00:00Z",
+            learning_id: "learning_001",
+            updates: {
+              confidence: 0.7,
+              insight: "User prefers Zod in all TypeScript projects",
+              reviewed_by: "user",
+            },
+          },
+        ]),
+      ),
+    );
+
+    expect(learnings).toHaveLength(1);
+    expect(learnings[0].insight).toBe(
+      "User prefers Zod in all TypeScript projects",
+    );
+    expect(learnings[0].confidence).toBe(0.92);
+    expect(learnings[0].updated_ts).toBe("2026-01-23T10:00:00Z");
+    expect(learnings[0].attributes).toEqual({ reviewed_by: "user" });
+  });
+
+  it("merges BoxEnriched updates into the projected box", () => {
+    const { boxes } = projectEvents(
+      parseEvents(
+        toJsonl([
+          {
+            event: "BoxEnriched",
+            id: "enrich_001",
+            ts: "2026-01-21T15:00:00Z",
+            box_id: "sess_abc_5",
+            updates: { score: 95, validated: true },
+          },
+          {
+            event: "BoxCreated",
+            id: "sess_abc_5",
+            ts: "2026-01-21T10:00:00Z",
+            box_type: "Assumption",
+            fields: { what: "Using TypeScript" },
+            initial_score: 80,
+            schema_version: 1,
+          },
+        ]),
+      ),
+    );
+
+    expect(boxes).toHaveLength(1);
+    expect(boxes[0].initial_score).toBe(80);
+    expect(boxes[0].score).toBe(95);
+    expect(boxes[0].enrichments).toEqual({ score: 95, validated: true });
+  });
+
+  it("links evidence to both boxes and learnings", () => {
+    const { boxes, learnings } = projectEvents(
+      parseEvents(
+        toJsonl([
+          {
+            event: "BoxCreated",
+            id: "sess_abc_5",
+            ts: "2026-01-21T10:00:00Z",
+            box_type: "Choice",
+            fields: { selected: "Zod" },
+          },
+          {
+            event: "LearningCreated",
+            id: "learning_001",
+            ts: "2026-01-21T15:00:00Z",
+            insight: "User prefers Zod",
+            confidence: 0.85,
+          },
+          {
+            event: "EvidenceLinked",
+            id: "link_001",
+            ts: "2026-01-21T15:00:00Z",
+            learning_id: "learning_001",
+            box_id: "sess_abc_5",
+            strength: 0.9,
+            relationship: "supports",
+          },
+        ]),
+      ),
+    );
+
+    expect(learnings[0].evidence).toEqual([
+      {
+        learning_id: "learning_001",
+        box_id: "sess_abc_5",
+        strength: 0.9,
+        relationship: "supports",
+        ts: "2026-01-21T15:00:00Z",
+      },
+    ]);
+    expect(boxes[0].linked_learnings).toHaveLength(1);
+    expect(boxes[0].linked_learnings[0].learning_id).toBe("learning_001");
+  });
+
+  it("projects learning hierarchy from LearningLinked", () => {
+    const { learnings } = projectEvents(
+      parseEvents(
+        toJsonl([
+          {
+            event: "LearningCreated",
+            id: "learning_001",
+            insight: "Prefers Zod",
+            confidence: 0.8,
+          },
+          {
+            event: "LearningCreated",
+            id: "learning_010",
+            insight: "Prioritizes TypeScript DX",
+            confidence: 0.7,
+            level: 1,
+          },
+          {
+            event: "LearningLinked",
+            id: "llink_001",
+            parent_learning_id: "learning_010",
+            child_learning_id: "learning_001",
+            relationship: "synthesizes",
+          },
+        ]),
+      ),
+    );
+
+    const child = learnings.find((l) => l.id === "learning_001");
+    const parent = learnings.find((l) => l.id === "learning_010");
+
+    expect(child?.parent_learnings).toEqual([
+      { learning_id: "learning_010", relationship: "synthesizes" },
+    ]);
+    expect(parent?.child_learnings).toEqual([
+      { learning_id: "learning_001", relationship: "synthesizes" },
+    ]);
+    expect(parent?.level).toBe(1);
+  });
+
+  it("tracks the latest AnalysisCompleted marker", () => {
+    const { lastAnalysis } = projectEvents(
+      parseEvents(
+        toJsonl([
+          {
+            event: "AnalysisCompleted",
+            id: "analysis_002",
+            ts: "2026-01-22T15:00:00Z",
+            through_ts: "2026-01-22T14:00:00Z",
+          },
+          {
+            event: "AnalysisCompleted",
+            id: "analysis_001",
+            ts: "2026-01-21T15:00:00Z",
+            through_ts: "2026-01-21T14:30:00Z",
+          },
+        ]),
+      ),
+    );
+
+    expect(lastAnalysis?.id).toBe("analysis_002");
+    expect(lastAnalysis?.through_ts).toBe("2026-01-22T14:00:00Z");
+  });
+
+  it("settles each proposal by its earliest decision", () => {
+    const { proposals, learnings } = projectEvents(
+      parseEvents(
+        toJsonl([
+          {
+            event: "LearningProposed",
+            id: "proposal_001",
+            ts: "2026-01-20T10:00:00Z",
+            learning_id: "learning_001",
+            insight: "Prefers Zod",
+            confidence: 0.6,
+            evidence: [
+              { box_id: "b1", strength: 0.9, relationship: "supports" },
+            ],
+          },
+          {
+            event: "LearningProposed",
+            id: "proposal_002",
+            ts: "2026-01-20T11:00:00Z",
+            learning_id: "learning_002",
+            insight: "Avoids ORMs",
+          },
+          {
+            event: "ProposalRejected",
+            id: "rejected_late",
+            ts: "2026-01-22T10:00:00Z",
+            proposal_id: "proposal_001",
+            reason: "too late",
+          },
+          {
+            event: "ProposalAccepted",
+            id: "accepted",
+            ts: "2026-01-21T10:00:00Z",
+            proposal_id: "proposal_001",
+            learning_id: "learning_001",
+            edits: { confidence: 0.7 },
+          },
+        ]),
+      ),
+    );
+
+    // Proposals are not learnings until accepted
+    expect(learnings).toEqual([]);
+    expect(proposals).toMatchObject([
+      {
+        id: "proposal_001",
+        status: "accepted",
+        decided_ts: "2026-01-21T10:00:00Z",
+        edits: { confidence: 0.7 },
+        evidence: [{ box_id: "b1", strength: 0.9, relationship: "supports" }],
+      },
+      { id: "proposal_002", status: "pending", decided_ts: null },
+    ]);
+  });
+
+  it("keeps the first BoxCreated when an ID is reused", () => {
+    const { boxes } = projectEvents(
+      parseEvents(
+        toJsonl([
+          { event: "BoxCreated", id: "dup", box_type: "First" },
+          { event: "BoxCreated", id: "dup", box_type: "Second" },
+        ]),
+      ),
+    );
+
+    expect(boxes).toHaveLength(1);
+    expect(boxes[0].box_type).toBe("First");
+  });
+});
@@ -0,0 +1,235 @@
+import { describe, it, expect } from "vitest";
+
+import {
+  ProposalDecidedError,
+  acceptProposal,
+  findProposal,
+  isProposalBlocked,
+  parseEvents,
+  pendingProposals,
+  projectEvents,
+  proposalDiff,
+  rejectProposal,
+  synthesizeLearnings,
+  toProposals,
+} from "@response-boxes/core";
+
+const NOW = new Date("2026-02-01T12:00:00Z");
+
+function project(events: object[]) {
+  return projectEvents(
+    parseEvents(events.map((e) => JSON.stringify(e)).join("\n")),
+  );
+}
+
+function choice(id: string, session: string) {
+  return {
+    event: "BoxCreated",
+    id,
+    ts: `2026-01-2${id.slice(-1)}T10:00:00Z`,
+    box_type: "Choice",
+    fields: { selected: "Zod", alternatives: "Yup", reasoning: "types" },
+    context: { session_id: session },
+  };
+}
+
+function learning(id: string, insight: string) {
+  return {
+    event: "LearningCreated",
+    id,
+    ts: "2026-01-20T09:00:00Z",
+    insight,
+    confidence: 0.6,
+    scope: "global",
+    tags: ["validation"],
+    level: 0,
+  };
+}
+
+function proposed(id: string, learningId: string, insight: string) {
+  return {
+    event: "LearningProposed",
+    id,
+    ts: "2026-01-25T10:00:00Z",
+    learning_id: learningId,
+    insight,
+    confidence: 0.7,
+    scope: "global",
+    tags: ["validation"],
+    level: 0,
+    evidence: [
+      { box_id: "b1", strength: 0.9, relationship: "supports" },
+      { box_id: "b2", strength: 0.8, relationship: "supports" },
+    ],
+    source: "analyze-boxes",
+  };
+}
+
+describe("toProposals", () => {
+  it("queues new learnings with their evidence", () => {
+    const boxes = [choice("b1", "s1"), choice("b2", "s2")];
+    const queued = toProposals(
+      synthesizeLearnings(project(boxes)),
+      "synthesizer",
+    );
+
+    expect(queued).toHaveLength(1);
+    expect(queued[0]).toMatchObject({
+      event: "LearningProposed",
+      insight: "Repeatedly chooses Zod",
+      source: "synthesizer",
+      evidence: [
+        { box_id: "b1", strength: 1, relationship: "supports" },
+        { box_id: "b2", strength: 1, relationship: "supports" },
+      ],
+    });
+    expect(queued[0].id).toMatch(/^proposal_syn_/);
+
+    // Pending, so the next run does not propose it again
+    expect(synthesizeLearnings(project([...boxes, ...queued]))).toEqual([]);
+  });
+
+  it("passes evidence for existing learnings through", () => {
+    const link = {
+      event: "EvidenceLinked" as const,
+      id: "link_1",
+      ts: "2026-01-25T10:00:00Z",
+      learning_id: "learning_existing",
+      box_id: "b1",
+      strength: 1,
+      relationship: "supports" as const,
+      schema_version: 1,
+    };
+    expect(toProposals([link], "synthesizer")).toEqual([link]);
+  });
+});
+
+describe("acceptProposal", () => {
+  it("creates the learning with the reviewer's edits", () => {
+    const projection = project([
+      proposed("proposal_001", "learning_001", "Validate at the boundary"),
+    ]);
+    const proposal = findProposal(projection, "proposal_001")!;
+
+    const events = acceptProposal(
+      projection,
+      proposal,
+      { confidence: 0.8, tags: ["validation", "api"] },
+      NOW,
+    );
+
+    expect(events.map((e) => e.event)).toEqual([
+      "ProposalAccepted",
+      "LearningCreated",
+      "EvidenceLinked",
+      "EvidenceLinked",
+    ]);
+    expect(events[1]).toMatchObject({
+      id: "learning_001",
+      insight: "Validate at the boundary",
+      confidence: 0.8,
+      tags: ["validation", "api"],
+      ts: NOW.toISOString(),
+    });
+
+    const after = project([
+      proposed("proposal_001", "learning_001", "Validate at the boundary"),
+      ...events,
+    ]);
+    expect(pendingProposals(after)).toEqual([]);
+    expect(after.learnings[0].evidence.map((e) => e.box_id)).toEqual([
+      "b1",
+      "b2",
+    ]);
+  });
+
+  it("updates an existing learning and links only new evidence", () => {
+    const projection = project([
+      learning("learning_001", "Validate at the boundary"),
+      {
+        event: "EvidenceLinked",
+        id: "link_old",
+        ts: "2026-01-20T09:00:00Z",
+        learning_id: "learning_001",
+        box_id: "b1",
+        strength: 0.9,
+      },
+      proposed("proposal_001", "learning_001", "Validate at the boundary"),
+    ]);
+    const proposal = findProposal(projection, "proposal_001")!;
+
+    expect(proposalDiff(projection, proposal).changes).toEqual([
+      { field: "confidence", from: 0.6, to: 0.7 },
+    ]);
+    const events = acceptProposal(projection, proposal, {}, NOW);
+    expect(events).toMatchObject([
+      { event: "ProposalAccepted", learning_id: "learning_001" },
+      { event: "LearningUpdated", updates: { confidence: 0.7 } },
+      { event: "EvidenceLinked", box_id: "b2" },
+    ]);
+  });
+
+  it("refuses a proposal that was already decided", () => {
+    const events = [
+      proposed("proposal_001", "learning_001", "Validate at the boundary"),
+    ];
+    const proposal = findProposal(project(events), "proposal_001")!;
+    const rejected = project([
+      ...events,
+      rejectProposal(proposal, "duplicate", NOW),
+    ]);
+    const decided = findProposal(rejected, "proposal_001")!;
+
+    expect(decided).toMatchObject({ status: "rejected", reason: "duplicate" });
+    expect(() => acceptProposal(rejected, decided, {}, NOW)).toThrow(
+      ProposalDecidedError,
+    );
+    expect(() => rejectProposal(decided, "", NOW)).toThrow(
+      ProposalDecidedError,
+    );
+  });
+});
+
+describe("isProposalBlocked", () => {
+  it("blocks pending proposals and rejected insights", () => {
+    const events = [
+      proposed("proposal_001", "learning_001", "Validate at the boundary"),
+      proposed("proposal_002", "learning_002", "Prefer small PRs"),
+    ];
+    const proposal = findProposal(project(events), "proposal_002")!;
+    const projection = project([...events, rejectProposal(proposal, "", NOW)]);
+
+    expect(isProposalBlocked(projection, "learning_001", "anything")).toBe(
+      true,
+    );
+    expect(
+      isProposalBlocked(projection, "learning_003", "prefer small PRs!"),
+    ).toBe(true);
+    expect(isProposalBlocked(projection, "learning_003", "Prefer tests")).toBe(
+      false,
+    );
+  });
+});
+
+describe("proposalDiff", () => {
+  it("lists every field for a new learning and similar insights", () => {
+    const projection = project([
+      learning("learning_other", "Validate input at the API boundary"),
+      learning("learning_unrelated", "Prefer small pull requests"),
+      proposed("proposal_001", "learning_001", "Validate at the API boundary"),
+    ]);
+    const proposal = findProposal(projection, "proposal_001")!;
+
+    const diff = proposalDiff(projection, proposal, { scope: "repo" });
+    expect(diff.target).toBeNull();
+    expect(diff.changes.map((change) => change.field)).toEqual([
+      "insight",
+      "confidence",
+      "scope",
+      "tags",
+      "level",
+    ]);
+    expect(diff.changes[2]).toEqual({ field: "scope", from: null, to: "repo" });
+    expect(diff.similar.map((l) => l.id)).toEqual(["learning_other"]);
+  });
+});
@@ -0,0 +1,289 @@
+import { describe, it, expect } from "vitest";
+
+import {
+  boxAgent,
+  boxDetail,
+  filterBoxes,
+  learningsForPath,
+  parseEvents,
+  projectEvents,
+  storeStats,
+} from "@response-boxes/core";
+
+function project(events: Record<string, unknown>[]) {
+  return projectEvents(
+    parseEvents(events.map((e) => JSON.stringify(e)).join("\n")),
+  );
+}
+
+function box(
+  id: string,
+  ts: string,
+  boxType: string,
+  context: Record<string, unknown>,
+) {
+  return {
+    event: "BoxCreated",
+    id,
+    ts,
+    box_type: boxType,
+    fields: { summary: id },
+    context,
+    initial_score: 70,
+    schema_version: 1,
+  };
+}
+
+const PROJECTION = project([
+  box("claude", "2026-01-10T10:00:00Z", "Warning", {
+    git_remote: "git@github.com:example/app.git",
+  }),
+  box("opencode", "2026-01-12T10:00:00Z", "Choice", {
+    agent: "OpenCode",
+    source: "opencode_plugin",
+    git_remote: "github.com/example/app",
+    files_touched: ["src/auth/guard.ts", "README.md"],
+    commands: ["npm test"],
+  }),
+  box("cursor", "2026-01-15T23:59:59Z", "Choice", { source: "cursor_hook" }),
+  {
+    event: "LearningCreated",
+    id: "l1",
+    ts: "2026-01-16T00:00:00Z",
+    insight: "Guard admin routes",
+    confidence: 0.9,
+    scope: "repo",
+    tags: [],
+    level: 0,
+    schema_version: 1,
+  },
+  {
+    event: "EvidenceLinked",
+    id: "link1",
+    ts: "2026-01-16T00:00:00Z",
+    learning_id: "l1",
+    box_id: "claude",
+    strength: 0.9,
+    relationship: "supports",
+    schema_version: 1,
+  },
+  {
+    event: "EvidenceLinked",
+    id: "link2",
+    ts: "2026-01-16T00:00:00Z",
+    learning_id: "missing",
+    box_id: "claude",
+    strength: 0.4,
+    relationship: "tangential",
+    schema_version: 1,
+  },
+  {
+    event: "BoxEnriched",
+    id: "enrich1",
+    ts: "2026-01-17T00:00:00Z",
+    box_id: "claude",
+    updates: { score: 95, note: "fixed" },
+    schema_version: 1,
+  },
+  {
+    event: "AnalysisCompleted",
+    id: "a1",
+    ts: "2026-01-18T00:00:00Z",
+    through_ts: "2026-01-17T00:00:00Z",
+    stats: {},
+    schema_version: 1,
+  },
+]);
+
+function ids(boxes: { readonly id: string }[]): string[] {
+  return boxes.map((b) => b.id);
+}
+
+describe("boxAgent", () => {
+  it("prefers context.agent, then the collector source", () => {
+    const [claude, opencode, cursor] = PROJECTION.boxes;
+    expect(boxAgent(opencode)).toBe("OpenCode");
+    expect(boxAgent(cursor)).toBe("Cursor");
+    // session-processor.sh records neither key
+    expect(boxAgent(claude)).toBe("Claude Code");
+  });
+});
+
+describe("filterBoxes", () => {
+  it("lists every box newest first without filters", () => {
+    expect(ids(filterBoxes(PROJECTION, {}))).toEqual([
+      "cursor",
+      "opencode",
+      "claude",
+    ]);
+  });
+
+  it("matches box type and agent case-insensitively", () => {
+    expect(ids(filterBoxes(PROJECTION, { boxType: "choice" }))).toEqual([
+      "cursor",
+      "opencode",
+    ]);
+    expect(ids(filterBoxes(PROJECTION, { agent: "claude-code" }))).toEqual([
+      "claude",
+    ]);
+  });
+
+  it("matches repositories in any remote form", () => {
+    expect(
+      ids(filterBoxes(PROJECTION, { repo: "https://github.com/example/app" })),
+    ).toEqual(["opencode", "claude"]);
+  });
+
+  it("matches boxes whose turn touched a file or directory", () => {
+    expect(ids(filterBoxes(PROJECTION, { path: "src/auth" }))).toEqual([
+      "opencode",
+    ]);
+    expect(ids(filterBoxes(PROJECTION, { path: "./README.md" }))).toEqual([
+      "opencode",
+    ]);
+    expect(ids(filterBoxes(PROJECTION, { path: "src/au" }))).toEqual([]);
+  });
+
+  it("bounds the date range", () => {
+    expect(
+      ids(
+        filterBoxes(PROJECTION, {
+          since: new Date("2026-01-12T00:00:00Z"),
+          until: new Date("2026-01-16T00:00:00Z"),
+        }),
+      ),
+    ).toEqual(["cursor", "opencode"]);
+    expect(
+      ids(filterBoxes(PROJECTION, { until: new Date("2026-01-12T10:00:00Z") })),
+    ).toEqual(["claude"]);
+  });
+});
+
+describe("boxDetail", () => {
+  it("includes enrichments and evidence with learning insights", () => {
+    const detail = boxDetail(PROJECTION, "claude");
+
+    expect(detail?.agent).toBe("Claude Code");
+    expect(detail?.repo).toBe("github.com/example/app");
+    expect(detail?.box.score).toBe(95);
+    expect(detail?.box.enrichments).toEqual({ score: 95, note: "fixed" });
+    expect(
+      detail?.evidence.map(({ link, learning }) => [
+        link.learning_id,
+        learning?.insight ?? null,
+      ]),
+    ).toEqual([
+      ["l1", "Guard admin routes"],
+      ["missing", null],
+    ]);
+  });
+
+  it("lists the files and commands of the box's turn", () => {
+    const detail = boxDetail(PROJECTION, "opencode");
+    expect(detail?.files_touched).toEqual(["src/auth/guard.ts", "README.md"]);
+    expect(detail?.commands).toEqual(["npm test"]);
+    expect(boxDetail(PROJECTION, "cursor")?.files_touched).toEqual([]);
+  });
+
+  it("returns null for unknown ids", () => {
+    expect(boxDetail(PROJECTION, "nope")).toBeNull();
+  });
+});
+
+describe("learningsForPath", () => {
+  it("keeps learnings with evidence from boxes that touched the path", () => {
+    const projection = project([
+      box("edit", "2026-01-10T10:00:00Z", "Warning", {
+        files_touched: ["src/auth/guard.ts"],
+      }),
+      box("other", "2026-01-10T10:00:00Z", "Warning", {}),
+      ...["auth", "general"].map((id) => ({
+        event: "LearningCreated",
+        id,
+        ts: "2026-01-11T00:00:00Z",
+        insight: id,
+        confidence: 0.9,
+        scope: "repo",
+        tags: [],
+        level: 0,
+        schema_version: 1,
+      })),
+      ...[
+        ["auth", "edit"],
+        ["general", "other"],
+      ].map(([learning, boxId]) => ({
+        event: "EvidenceLinked",
+        id: `${learning}_${boxId}`,
+        ts: "2026-01-11T00:00:00Z",
+        learning_id: learning,
+        box_id: boxId,
+        strength: 0.9,
+        relationship: "supports",
+        schema_version: 1,
+      })),
+    ]);
+
+    expect(
+      ids(learningsForPath(projection, projection.learnings, "src/auth")),
+    ).toEqual(["auth"]);
+  });
+});
+
+describe("storeStats", () => {
+  it("summarises boxes, learnings and analysis", () => {
+    expect(storeStats(PROJECTION)).toEqual({
+      boxes: 3,
+      learnings: 1,
+      evidence_links: 1,
+      first_box_ts: "2026-01-10T10:00:00Z",
+      last_box_ts: "2026-01-15T23:59:59Z",
+      last_analysis_ts: "2026-01-18T00:00:00Z",
+      by_type: { Warning: 1, Choice: 2 },
+      by_agent: { "Claude Code": 1, OpenCode: 1, Cursor: 1 },
+      by_repo: { "github.com/example/app": 2, "": 1 },
+      incomplete: 0,
+      malformed: 0,
+      malformed_by_type: {},
+    });
+  });
+
+  it("counts incomplete boxes and boxes captured with missing fields", () => {
+    const stats = storeStats(
+      project([
+        { ...box("a", "2026-01-10T10:00:00Z", "Choice", {}), incomplete: true },
+        {
+          ...box("b", "2026-01-11T10:00:00Z", "Choice", {}),
+          completeness: 0.67,
+          missing_fields: ["selected"],
+        },
+        {
+          ...box("c", "2026-01-12T10:00:00Z", "Confidence", {}),
+          completeness: 0.33,
+          missing_fields: ["level", "basis"],
+        },
+        {
+          event: "BoxMalformed",
+          id: "c_malformed",
+          ts: "2026-01-12T10:00:00Z",
+          box_id: "c",
+          box_type: "Confidence",
+          missing_fields: ["level", "basis"],
+          completeness: 0.33,
+          context: {},
+          schema_version: 1,
+        },
+      ]),
+    );
+    expect(stats.boxes).toBe(3);
+    expect(stats.incomplete).toBe(1);
+    expect(stats.malformed).toBe(2);
+    expect(stats.malformed_by_type).toEqual({ Choice: 1, Confidence: 1 });
+  });
+
+  it("handles an empty store", () => {
+    const stats = storeStats(project([]));
+    expect(stats.boxes).toBe(0);
+    expect(stats.first_box_ts).toBeNull();
+    expect(stats.by_type).toEqual({});
+  });
+});
@@ -0,0 +1,428 @@
+import { describe, it, expect } from "vitest";
+
+import {
+  evidenceFactor,
+  parseEvents,
+  projectEvents,
+  rankBoxes,
+  rankLearnings,
+  readRankingConfig,
+  recencyFactor,
+} from "@response-boxes/core";
+
+const NOW = new Date("2026-01-22T00:00:00Z");
+const CONFIG = readRankingConfig({});
+
+function project(events: Record<string, unknown>[]) {
+  return projectEvents(
+    parseEvents(events.map((e) => JSON.stringify(e)).join("\n")),
+  );
+}
+
+describe("readRankingConfig", () => {
+  it("uses hook defaults", () => {
+    expect(readRankingConfig({})).toEqual({
+      maxLearnings: 3,
+      maxBoxes: 5,
+      recencyDecay: 0.95,
+      minBoxScore: 60,
+      maxChars: 2000,
+      relevanceWeight: 1,
+    });
+  });
+
+  it("honours BOX_INJECT_* and BOX_RECENCY_DECAY", () => {
+    const config = readRankingConfig({
+      BOX_INJECT_LEARNINGS: "7",
+      BOX_INJECT_BOXES: "2",
+      BOX_RECENCY_DECAY: "0.8",
+      BOX_INJECT_MAX_CHARS: "600",
+    });
+    expect(config.maxLearnings).toBe(7);
+    expect(config.maxBoxes).toBe(2);
+    expect(config.recencyDecay).toBe(0.8);
+    expect(config.maxChars).toBe(600);
+  });
+
+  it("accepts a zero BOX_RELEVANCE_WEIGHT and ignores negative ones", () => {
+    expect(
+      readRankingConfig({ BOX_RELEVANCE_WEIGHT: "0" }).relevanceWeight,
+    ).toBe(0);
+    expect(
+      readRankingConfig({ BOX_RELEVANCE_WEIGHT: "-2" }).relevanceWeight,
+    ).toBe(1);
+  });
+
+  it("ignores invalid values", () => {
+    const config = readRankingConfig({
+      BOX_INJECT_LEARNINGS: "zero",
+      BOX_RECENCY_DECAY: "-1",
+    });
+    expect(config.maxLearnings).toBe(3);
+    expect(config.recencyDecay).toBe(0.95);
+  });
+});
+
+describe("recencyFactor", () => {
+  it("decays weekly", () => {
+    expect(recencyFactor("2026-01-22T00:00:00Z", NOW, 0.95)).toBeCloseTo(1);
+    expect(recencyFactor("2026-01-15T00:00:00Z", NOW, 0.95)).toBeCloseTo(0.95);
+    expect(recencyFactor("2026-01-08T00:00:00Z", NOW, 0.95)).toBeCloseTo(
+      0.9025,
+    );
+  });
+});
+
+describe("rankLearnings", () => {
+  it("weights evidence by relationship", () => {
+    const { learnings } = project([
+      {
+        event: "LearningCreated",
+        id: "l1",
+        ts: "2026-01-22T00:00:00Z",
+        insight: "x",
+        confidence: 1,
+      },
+      {
+        event: "EvidenceLinked",
+        learning_id: "l1",
+        box_id: "b1",
+        strength: 1,
+        relationship: "supports",
+      },
+      {
+        event: "EvidenceLinked",
+        learning_id: "l1",
+        box_id: "b2",
+        strength: 1,
+        relationship: "tangential",
+      },
+      {
+        event: "EvidenceLinked",
+        learning_id: "l1",
+        box_id: "b3",
+        strength: 1,
+        relationship: "contradicts",
+      },
+    ]);
+
+    expect(evidenceFactor(learnings[0])).toBeCloseTo((1.0 + 0.3 - 0.5) / 3);
+  });
+
+  it("gives unknown relationships no weight, like the bash injector", () => {
+    const { learnings } = project([
+      {
+        event: "LearningCreated",
+        id: "l1",
+        ts: "2026-01-22T00:00:00Z",
+        insight: "x",
+        confidence: 1,
+      },
+      {
+        event: "EvidenceLinked",
+        learning_id: "l1",
+        box_id: "b1",
+        strength: 1,
+        relationship: "supports",
+      },
+      {
+        event: "EvidenceLinked",
+        learning_id: "l1",
+        box_id: "b2",
+        strength: 1,
+        relationship: "refutes",
+      },
+      { event: "EvidenceLinked", learning_id: "l1", box_id: "b3", strength: 1 },
+    ]);
+
+    expect(learnings[0].evidence[1].relationship).toBe("unknown");
+    expect(evidenceFactor(learnings[0])).toBeCloseTo(1.0 / 3);
+  });
+
+  it("computes base × evidence × recency", () => {
+    const projection = project([
+      {
+        event: "LearningCreated",
+        id: "l1",
+        ts: "2026-01-15T00:00:00Z",
+        insight: "Prefers Zod",
+        confidence: 0.8,
+      },
+      {
+        event: "EvidenceLinked",
+        learning_id: "l1",
+        box_id: "b1",
+        strength: 0.9,
+        relationship: "supports",
+      },
+    ]);
+
+    const [ranked] = rankLearnings(projection, CONFIG, { repo: "", now: NOW });
+
+    expect(ranked.evidence_count).toBe(1);
+    expect(ranked.effective_confidence).toBeCloseTo(
+      0.8 * (0.5 + 0.9 * 0.5) * 0.95,
+    );
+  });
+
+  it("ranks meta-learnings before base learnings", () => {
+    const projection = project([
+      {
+        event: "LearningCreated",
+        id: "base",
+        ts: "2026-01-22T00:00:00Z",
+        insight: "Base",
+        confidence: 0.99,
+        level: 0,
+      },
+      {
+        event: "LearningCreated",
+        id: "meta",
+        ts: "2026-01-22T00:00:00Z",
+        insight: "Meta",
+        confidence: 0.4,
+        level: 1,
+      },
+    ]);
+
+    const ranked = rankLearnings(projection, CONFIG, { repo: "", now: NOW });
+    expect(ranked.map((l) => l.id)).toEqual(["meta", "base"]);
+  });
+
+  it("prefers newer learnings over older ones with equal confidence", () => {
+    const projection = project([
+      {
+        event: "LearningCreated",
+        id: "old",
+        ts: "2025-10-01T00:00:00Z",
+        insight: "Old",
+        confidence: 0.9,
+      },
+      {
+        event: "LearningCreated",
+        id: "new",
+        ts: "2026-01-20T00:00:00Z",
+        insight: "New",
+        confidence: 0.9,
+      },
+    ]);
+
+    const ranked = rankLearnings(projection, CONFIG, { repo: "", now: NOW });
+    expect(ranked[0].id).toBe("new");
+  });
+
+  it("boosts repo-scoped learnings whose evidence matches the repo", () => {
+    const projection = project([
+      {
+        event: "BoxCreated",
+        id: "b1",
+        ts: "2026-01-22T00:00:00Z",
+        box_type: "Choice",
+        context: { git_remote: "github.com/user/api" },
+      },
+      {
+        event: "LearningCreated",
+        id: "global",
+        ts: "2026-01-22T00:00:00Z",
+        insight: "Global",
+        confidence: 0.8,
+        scope: "global",
+      },
+      {
+        event: "LearningCreated",
+        id: "repo",
+        ts: "2026-01-22T00:00:00Z",
+        insight: "Repo",
+        confidence: 0.7,
+        scope: "repo",
+      },
+      {
+        event: "EvidenceLinked",
+        learning_id: "repo",
+        box_id: "b1",
+        strength: 1,
+        relationship: "supports",
+      },
+    ]);
+
+    const ranked = rankLearnings(projection, CONFIG, {
+      repo: "github.com/user/api",
+      now: NOW,
+    });
+    expect(ranked[0].id).toBe("repo");
+    expect(ranked[0].relevance_score).toBeCloseTo(
+      ranked[0].effective_confidence * 1.5,
+    );
+  });
+});
+
+describe("rankBoxes", () => {
+  it("drops Sycophancy boxes and boxes below the minimum score", () => {
+    const projection = project([
+      {
+        event: "BoxCreated",
+        id: "s",
+        ts: "2026-01-22T00:00:00Z",
+        box_type: "Sycophancy",
+        initial_score: 90,
+      },
+      {
+        event: "BoxCreated",
+        id: "low",
+        ts: "2026-01-22T00:00:00Z",
+        box_type: "FollowUps",
+        initial_score: 35,
+      },
+      {
+        event: "BoxCreated",
+        id: "high",
+        ts: "2026-01-22T00:00:00Z",
+        box_type: "Warning",
+        fields: { risk: "Race", likelihood: "Low", consequence: "Lost writes" },
+        initial_score: 90,
+      },
+    ]);
+
+    const ranked = rankBoxes(projection, CONFIG, { repo: "", now: NOW });
+    expect(ranked.map((b) => b.id)).toEqual(["high"]);
+  });
+
+  it("uses enriched scores", () => {
+    const projection = project([
+      {
+        event: "BoxCreated",
+        id: "b1",
+        ts: "2026-01-22T00:00:00Z",
+        box_type: "Suggestion",
+        fields: { idea: "Cache", benefit: "Speed" },
+        initial_score: 45,
+      },
+      {
+        event: "BoxEnriched",
+        box_id: "b1",
+        ts: "2026-01-22T01:00:00Z",
+        updates: { score: 95 },
+      },
+    ]);
+
+    const ranked = rankBoxes(projection, CONFIG, { repo: "", now: NOW });
+    expect(ranked).toHaveLength(1);
+    expect(ranked[0].effective_score).toBeCloseTo(95);
+  });
+
+  it("drops boxes missing a required field of their type", () => {
+    const projection = project([
+      {
+        event: "BoxCreated",
+        id: "no-selection",
+        ts: "2026-01-22T00:00:00Z",
+        box_type: "Choice",
+        fields: { alternatives: "Yup", reasoning: "Types" },
+        initial_score: 70,
+      },
+      {
+        event: "BoxCreated",
+        id: "empty-level",
+        ts: "2026-01-22T00:00:00Z",
+        box_type: "Confidence",
+        fields: { claim: "Fast enough", level: " ", basis: "Benchmarks" },
+        initial_score: 60,
+      },
+      {
+        event: "BoxCreated",
+        id: "custom",
+        ts: "2026-01-22T00:00:00Z",
+        box_type: "Retro",
+        fields: {},
+        initial_score: 70,
+      },
+    ]);
+
+    const ranked = rankBoxes(projection, CONFIG, { repo: "", now: NOW });
+    expect(ranked.map((b) => b.id)).toEqual(["custom"]);
+  });
+});
+
+describe("prompt relevance", () => {
+  const learnings = [
+    {
+      event: "LearningCreated",
+      id: "general",
+      ts: "2026-01-22T00:00:00Z",
+      insight: "User wants short commit messages",
+      confidence: 0.9,
+    },
+    {
+      event: "LearningCreated",
+      id: "docker",
+      ts: "2026-01-22T00:00:00Z",
+      insight: "Pin Docker base images by digest",
+      confidence: 0.7,
+      tags: ["containers"],
+    },
+  ];
+
+  it("keeps the confidence order without a query", () => {
+    const ranked = rankLearnings(project(learnings), CONFIG, {
+      repo: "",
+      now: NOW,
+    });
+    expect(ranked.map((l) => [l.id, l.prompt_relevance])).toEqual([
+      ["general", 0],
+      ["docker", 0],
+    ]);
+  });
+
+  it("lifts learnings that match the prompt", () => {
+    const ranked = rankLearnings(project(learnings), CONFIG, {
+      repo: "",
+      now: NOW,
+      query: { prompt: "Update the Dockerfile base image", languages: [] },
+    });
+    expect(ranked.map((l) => l.id)).toEqual(["docker", "general"]);
+    expect(ranked[0].prompt_relevance).toBe(1);
+    expect(ranked[0].relevance_score).toBeCloseTo(
+      ranked[0].effective_confidence * 2,
+    );
+  });
+
+  it("matches tags and is disabled by a zero weight", () => {
+    const query = { prompt: "containers", languages: [] };
+    expect(
+      rankLearnings(project(learnings), CONFIG, {
+        repo: "",
+        now: NOW,
+        query,
+      })[0].id,
+    ).toBe("docker");
+    expect(
+      rankLearnings(
+        project(learnings),
+        { ...CONFIG, relevanceWeight: 0 },
+        { repo: "", now: NOW, query },
+      )[0].id,
+    ).toBe("general");
+  });
+
+  it("ranks boxes by their fields and the worktree languages", () => {
+    const box = (id: string, score: number, fields: object) => ({
+      event: "BoxCreated",
+      id,
+      ts: "2026-01-22T00:00:00Z",
+      box_type: "Warning",
+      fields: { risk: "x", likelihood: "low", consequence: "y", ...fields },
+      initial_score: score,
+    });
+    const projection = project([
+      box("python", 90, { risk: "pip resolver picks old versions" }),
+      box("typescript", 80, { risk: "tsc misses errors in .ts tests" }),
+    ]);
+
+    const ranked = rankBoxes(projection, CONFIG, {
+      repo: "",
+      now: NOW,
+      query: { prompt: "", languages: ["typescript"] },
+    });
+    expect(ranked.map((b) => b.id)).toEqual(["typescript", "python"]);
+  });
+});
@@ -0,0 +1,161 @@
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import { describe, it, expect } from "vitest";
+
+import {
+  DEFAULT_BOX_TYPES,
+  calculateInitialScore,
+  extractBoxesFromText,
+  findBoxType,
+  isCarriedOverBoxType,
+  isHiddenBoxType,
+  mergeBoxTypes,
+  readBoxTypeRegistry,
+} from "@response-boxes/core";
+
+const SECURITY = {
+  types: [
+    {
+      name: "Security",
+      emoji: "🔐",
+      default_score: 95,
+      required_fields: ["Threat", "Mitigation"],
+    },
+  ],
+};
+
+describe("DEFAULT_BOX_TYPES", () => {
+  it("defines the documented box types", () => {
+    expect(DEFAULT_BOX_TYPES.types.map((type) => type.name)).toEqual([
+      "Choice",
+      "Decision",
+      "Assumption",
+      "Confidence",
+      "Pushback",
+      "Concern",
+      "Suggestion",
+      "Warning",
+      "Reflection",
+      "FollowUps",
+      "Completion",
+      "Quality",
+      "Sycophancy",
+    ]);
+    expect(findBoxType(DEFAULT_BOX_TYPES, "Warning")?.default_score).toBe(90);
+    expect(findBoxType(DEFAULT_BOX_TYPES, "Choice")?.required_fields).toEqual([
+      "selected",
+      "alternatives",
+      "reasoning",
+    ]);
+  });
+
+  it("finds types by alias and by emoji with or without U+FE0F", () => {
+    expect(findBoxType(DEFAULT_BOX_TYPES, "Follow Ups")?.name).toBe(
+      "FollowUps",
+    );
+    expect(findBoxType(DEFAULT_BOX_TYPES, "Tradeoff", "⚖")?.name).toBe(
+      "Choice",
+    );
+    expect(findBoxType(DEFAULT_BOX_TYPES, "Tradeoff")).toBeNull();
+  });
+
+  it("hides only the retired Sycophancy box", () => {
+    expect(isHiddenBoxType(DEFAULT_BOX_TYPES, "Sycophancy")).toBe(true);
+    expect(isHiddenBoxType(DEFAULT_BOX_TYPES, "Warning")).toBe(false);
+    expect(isHiddenBoxType(DEFAULT_BOX_TYPES, "Unregistered")).toBe(false);
+  });
+
+  it("carries open assumptions, warnings and follow-ups over compaction", () => {
+    const carried = DEFAULT_BOX_TYPES.types
+      .filter((type) => isCarriedOverBoxType(DEFAULT_BOX_TYPES, type.name))
+      .map((type) => type.name);
+
+    expect(carried).toEqual(["Assumption", "Warning", "FollowUps"]);
+  });
+});
+
+describe("mergeBoxTypes", () => {
+  it("adds custom types with normalized field keys", () => {
+    const registry = mergeBoxTypes(DEFAULT_BOX_TYPES, SECURITY);
+    const security = findBoxType(registry, "security");
+
+    expect(registry.types).toHaveLength(14);
+    expect(security).toMatchObject({
+      emoji: "🔐",
+      placement: "inline",
+      default_score: 95,
+      required_fields: ["threat", "mitigation"],
+      optional_fields: [],
+      hidden: false,
+      carry_over: false,
+    });
+  });
+
+  it("overrides existing types field by field", () => {
+    const registry = mergeBoxTypes(DEFAULT_BOX_TYPES, {
+      unknown_score: 10,
+      types: [{ name: "follow ups", default_score: 50, hidden: true }],
+    });
+    const followUps = findBoxType(registry, "FollowUps");
+
+    expect(registry.types).toHaveLength(13);
+    expect(registry.unknown_score).toBe(10);
+    expect(followUps).toMatchObject({
+      name: "FollowUps",
+      emoji: "📋",
+      default_score: 50,
+      hidden: true,
+    });
+  });
+
+  it("skips new types without an emoji and malformed files", () => {
+    expect(
+      mergeBoxTypes(DEFAULT_BOX_TYPES, { types: [{ name: "Bug" }, 42] }).types,
+    ).toHaveLength(13);
+    expect(mergeBoxTypes(DEFAULT_BOX_TYPES, [])).toBe(DEFAULT_BOX_TYPES);
+  });
+});
+
+describe("readBoxTypeRegistry", () => {
+  it("merges the team file and falls back to the defaults", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "rb-registry-"));
+    const file = path.join(dir, "box-types.json");
+
+    expect(await readBoxTypeRegistry(file)).toBe(DEFAULT_BOX_TYPES);
+
+    await fs.writeFile(file, "{ not json");
+    expect(await readBoxTypeRegistry(file)).toBe(DEFAULT_BOX_TYPES);
+
+    await fs.writeFile(file, JSON.stringify(SECURITY));
+    const registry = await readBoxTypeRegistry(file);
+    expect(calculateInitialScore("Security", registry)).toBe(95);
+
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+});
+
+describe("custom types in extraction", () => {
+  const text = `🔐 Security ──────────────────────────────────────
+**Threat:** Token in logs
+**Mitigation:** Redact before writing
+────────────────────────────────────────────────`;
+
+  it("ignores headers the registry does not define", () => {
+    expect(extractBoxesFromText(text)).toEqual([]);
+  });
+
+  it("extracts and scores registered custom types", () => {
+    const registry = mergeBoxTypes(DEFAULT_BOX_TYPES, SECURITY);
+    const [box] = extractBoxesFromText(text, registry);
+
+    expect(box.boxType).toBe("Security");
+    expect(box.fields).toEqual({
+      threat: "Token in logs",
+      mitigation: "Redact before writing",
+    });
+    expect(calculateInitialScore(box.boxType, registry)).toBe(95);
+    expect(calculateInitialScore("Unregistered", registry)).toBe(40);
+  });
+});
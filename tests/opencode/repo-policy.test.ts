@@ -0,0 +1,109 @@
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import { describe, it, expect } from "vitest";
+
+import {
+  type BoxCreatedEvent,
+  DEFAULT_BOX_TYPES,
+  DEFAULT_REPO_POLICY,
+  REPO_POLICY_FILE,
+  applyRepoPolicy,
+  parseRepoPolicy,
+  readRepoPolicy,
+  repoPolicyCaptures,
+} from "@response-boxes/core";
+
+const CREATED: BoxCreatedEvent = {
+  event: "BoxCreated",
+  id: "box_1",
+  ts: "2026-01-20T10:00:00Z",
+  box_type: "Warning",
+  fields: { risk: "Client data in logs" },
+  context: {
+    agent: "OpenCode",
+    session_id: "s1",
+    directory: "/work/client/src",
+    worktree: "/work/client",
+    git_remote: "git@github.com:client/app.git",
+    git_branch: "main",
+    files_touched: ["src/log.ts"],
+    commands: ["npm test"],
+  },
+  initial_score: 85,
+  schema_version: 1,
+  completeness: 0.5,
+  missing_fields: ["likelihood"],
+};
+
+describe("parseRepoPolicy", () => {
+  it("fills unset or mistyped keys with the defaults", () => {
+    expect(parseRepoPolicy({})).toEqual(DEFAULT_REPO_POLICY);
+    expect(
+      parseRepoPolicy({
+        capture: "no",
+        scope: "team",
+        box_types: ["Warning", 3],
+        inject: false,
+        write_target: "team",
+      }),
+    ).toEqual({ ...DEFAULT_REPO_POLICY, boxTypes: ["Warning"], inject: false });
+  });
+
+  it("disables capture for anything but an object", () => {
+    expect(parseRepoPolicy([]).capture).toBe(false);
+    expect(parseRepoPolicy(null).capture).toBe(false);
+  });
+});
+
+describe("readRepoPolicy", () => {
+  it("reads the worktree's file and fails closed when it is invalid", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "rb-policy-"));
+    expect(await readRepoPolicy(dir)).toEqual(DEFAULT_REPO_POLICY);
+
+    const file = path.join(dir, REPO_POLICY_FILE);
+    await fs.writeFile(file, JSON.stringify({ scope: "global" }));
+    expect((await readRepoPolicy(dir)).scope).toBe("global");
+
+    await fs.writeFile(file, '{"capture": true,');
+    expect((await readRepoPolicy(dir)).capture).toBe(false);
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+});
+
+describe("repoPolicyCaptures", () => {
+  it("matches listed types by name or alias", () => {
+    const policy = parseRepoPolicy({ box_types: ["follow ups", "Warning"] });
+    expect(repoPolicyCaptures(policy, "FollowUps", DEFAULT_BOX_TYPES)).toBe(
+      true,
+    );
+    expect(repoPolicyCaptures(policy, "Warning", DEFAULT_BOX_TYPES)).toBe(true);
+    expect(repoPolicyCaptures(policy, "Choice", DEFAULT_BOX_TYPES)).toBe(false);
+    expect(
+      repoPolicyCaptures(
+        { ...policy, capture: false },
+        "Warning",
+        DEFAULT_BOX_TYPES,
+      ),
+    ).toBe(false);
+  });
+});
+
+describe("applyRepoPolicy", () => {
+  it("leaves the event alone under the default policy", () => {
+    expect(applyRepoPolicy(CREATED, DEFAULT_REPO_POLICY)).toEqual(CREATED);
+  });
+
+  it("drops repository context and field values", () => {
+    const recorded = applyRepoPolicy(
+      CREATED,
+      parseRepoPolicy({ scope: "global", keep_fields: false }),
+    );
+    expect(recorded.context).toEqual({ agent: "OpenCode", session_id: "s1" });
+    expect(recorded.fields).toEqual({});
+    expect(recorded.completeness).toBeUndefined();
+    expect(recorded.missing_fields).toBeUndefined();
+    expect(recorded.box_type).toBe("Warning");
+  });
+});
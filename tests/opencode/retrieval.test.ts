@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import {
+  bm25Scores,
+  detectWorktreeLanguages,
+  queryTerms,
+  tokenize,
+} from "@response-boxes/core";
+
+describe("tokenize", () => {
+  it("lower-cases, drops stop words and folds plurals", () => {
+    expect(tokenize("Fix the failing Tests in src/index.ts, please")).toEqual([
+      "fix",
+      "failing",
+      "test",
+      "src",
+      "index",
+      "ts",
+    ]);
+  });
+
+  it("keeps double-s words intact", () => {
+    expect(tokenize("class access")).toEqual(["class", "access"]);
+  });
+});
+
+describe("queryTerms", () => {
+  it("adds languages with their aliases, once each", () => {
+    expect(
+      queryTerms({
+        prompt: "Speed up the TS build",
+        languages: ["typescript"],
+      }),
+    ).toEqual(["speed", "up", "ts", "build", "typescript", "tsx"]);
+  });
+});
+
+describe("bm25Scores", () => {
+  const documents = [
+    "Prefer Zod for runtime validation",
+    "Use pnpm workspaces",
+    "Validation errors should name the field; Zod issues map well",
+  ];
+
+  it("normalizes the best match to 1", () => {
+    const scores = bm25Scores(documents, tokenize("zod validation"));
+    expect(scores[0]).toBe(1);
+    expect(scores[1]).toBe(0);
+    expect(scores[2]).toBeGreaterThan(0);
+    expect(scores[2]).toBeLessThan(1);
+  });
+
+  it("weights rare terms above common ones", () => {
+    const scores = bm25Scores(documents, tokenize("pnpm validation"));
+    expect(scores[1]).toBe(1);
+  });
+
+  it("returns zeros without terms or matches", () => {
+    expect(bm25Scores(documents, [])).toEqual([0, 0, 0]);
+    expect(bm25Scores(documents, ["kubernetes"])).toEqual([0, 0, 0]);
+    expect(bm25Scores([], ["zod"])).toEqual([]);
+  });
+});
+
+describe("detectWorktreeLanguages", () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = await fs.mkdtemp(
+      path.join(os.tmpdir(), "response-boxes-retrieval-"),
+    );
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it("reads marker and source files at the root", async () => {
+    for (const name of [
+      "tsconfig.json",
+      "package.json",
+      "setup.py",
+      "README",
+    ]) {
+      await fs.writeFile(path.join(testDir, name), "");
+    }
+    expect(await detectWorktreeLanguages(testDir)).toEqual([
+      "javascript",
+      "python",
+      "typescript",
+    ]);
+  });
+
+  it("returns nothing for a missing directory", async () => {
+    expect(await detectWorktreeLanguages(path.join(testDir, "gone"))).toEqual(
+      [],
+    );
+    expect(await detectWorktreeLanguages("")).toEqual([]);
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect } from "vitest";
+
+import {
+  SUPPORTED_SCHEMA_VERSION,
+  detectSchemaVersion,
+  readEventStore,
+  schemaUpdateNotice,
+  upgradeRecord,
+} from "@response-boxes/core";
+
+function toJsonl(events: Record<string, unknown>[]): string {
+  return events.map((e) => JSON.stringify(e)).join("\n");
+}
+
+describe("detectSchemaVersion", () => {
+  it("uses explicit schema_version", () => {
+    expect(
+      detectSchemaVersion({ event: "BoxCreated", schema_version: 2 }),
+    ).toBe(2);
+  });
+
+  it("treats event-less lines as v0 and other unversioned lines as v1", () => {
+    expect(detectSchemaVersion({ type: "Choice" })).toBe(0);
+    expect(detectSchemaVersion({ event: "LearningCreated" })).toBe(1);
+  });
+});
+
+describe("upgradeRecord", () => {
+  it("upgrades v0 boxes to v1 BoxCreated events", () => {
+    const result = upgradeRecord({
+      type: "Warning",
+      ts: "2026-01-20T10:00:00Z",
+      fields: { risk: "No auth" },
+    });
+
+    expect(result).toEqual({
+      ok: true,
+      record: expect.objectContaining({
+        event: "BoxCreated",
+        box_type: "Warning",
+        schema_version: 1,
+      }),
+    });
+  });
+
+  it("keeps explicit v0 non-box events intact apart from the version", () => {
+    const result = upgradeRecord({
+      event: "LearningCreated",
+      id: "l1",
+      insight: "x",
+      schema_version: 0,
+    });
+
+    expect(result).toEqual({
+      ok: true,
+      record: {
+        event: "LearningCreated",
+        id: "l1",
+        insight: "x",
+        schema_version: 1,
+      },
+    });
+  });
+
+  it("rejects records newer than the supported version", () => {
+    expect(
+      upgradeRecord({
+        event: "BoxCreated",
+        schema_version: SUPPORTED_SCHEMA_VERSION + 1,
+      }),
+    ).toEqual({ ok: false, version: SUPPORTED_SCHEMA_VERSION + 1 });
+  });
+});
+
+describe("readEventStore", () => {
+  it("reports no notice for a supported store", () => {
+    const result = readEventStore(
+      toJsonl([
+        { type: "Choice", ts: "2026-01-20T10:00:00Z" },
+        {
+          event: "BoxCreated",
+          id: "b1",
+          box_type: "Warning",
+          schema_version: 1,
+        },
+      ]),
+    );
+
+    expect(result.events).toHaveLength(2);
+    expect(result.unsupportedCount).toBe(0);
+    expect(result.newestSchemaVersion).toBe(1);
+    expect(schemaUpdateNotice(result)).toBeNull();
+  });
+
+  it("never projects events from a newer schema", () => {
+    const result = readEventStore(
+      toJsonl([
+        {
+          event: "BoxCreated",
+          id: "b1",
+          box_type: "Warning",
+          schema_version: 1,
+        },
+        {
+          event: "LearningUpdated",
+          id: "u1",
+          learning_id: "l1",
+          updates: { confidence: 0.1 },
+          schema_version: 2,
+        },
+      ]),
+    );
+
+    expect(result.events.map((e) => e.id)).toEqual(["b1"]);
+    expect(result.unsupportedCount).toBe(1);
+    expect(result.newestSchemaVersion).toBe(2);
+  });
+
+  it("builds an update notice when the store is ahead of the plugin", () => {
+    const notice = schemaUpdateNotice(
+      readEventStore(
+        toJsonl([{ event: "BoxCreated", id: "b1", schema_version: 3 }]),
+      ),
+    );
+
+    expect(notice).toContain("update required");
+    expect(notice).toContain("schema_version 3");
+    expect(notice).toContain(
+      `supports schema_version ${SUPPORTED_SCHEMA_VERSION}`,
+    );
+  });
+});
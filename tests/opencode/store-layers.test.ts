@@ -0,0 +1,268 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import {
+  DEFAULT_REPO_POLICY,
+  PROJECT_STORE_FILE,
+  type Projection,
+  StoreDecryptionError,
+  appendToLayer,
+  formatInjectedContext,
+  layeredCompactionContextFor,
+  layeredSchemaStatus,
+  mergeProjections,
+  parseEvents,
+  projectEvents,
+  proposalLayer,
+  readLayeredProjection,
+  readRankingConfig,
+  resolveWriteTarget,
+  storeLayers,
+  writeLayer,
+} from "@response-boxes/core";
+
+let dir: string;
+let root: string;
+let env: NodeJS.ProcessEnv;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "rb-layers-"));
+  root = path.join(dir, "repo");
+  await fs.mkdir(root);
+  env = { RESPONSE_BOXES_FILE: path.join(dir, "global", "boxes.jsonl") };
+});
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+function learning(id: string, insight: string): object {
+  return {
+    event: "LearningCreated",
+    id,
+    ts: "2026-01-20T10:00:00Z",
+    insight,
+    confidence: 0.8,
+    scope: "global",
+    tags: [],
+    level: 1,
+    schema_version: 1,
+  };
+}
+
+function withLearnings(...entries: [string, string][]): Projection {
+  return projectEvents(
+    parseEvents(
+      entries
+        .map(([id, insight]) => JSON.stringify(learning(id, insight)))
+        .join("\n"),
+    ),
+  );
+}
+
+describe("storeLayers", () => {
+  it("puts the project store before the global store", () => {
+    const layers = storeLayers(root, env);
+
+    expect(layers.map((layer) => layer.source)).toEqual(["project", "global"]);
+    expect(layers[0].storeFile).toBe(path.join(root, PROJECT_STORE_FILE));
+    expect(layers[0].shared).toBe(true);
+    expect(layers[0].cacheFile.startsWith(path.join(dir, "global"))).toBe(true);
+    expect(layers[1].storeFile).toBe(env.RESPONSE_BOXES_FILE);
+    expect(storeLayers(null, env)).toHaveLength(1);
+  });
+
+  it("reads a global store inside the worktree only once", () => {
+    env.RESPONSE_BOXES_FILE = path.join(root, PROJECT_STORE_FILE);
+    expect(storeLayers(root, env).map((layer) => layer.source)).toEqual([
+      "global",
+    ]);
+  });
+});
+
+describe("mergeProjections", () => {
+  it("lets the project store win and labels each item", () => {
+    const merged = mergeProjections([
+      {
+        source: "project",
+        projection: withLearnings(["l1", "Team insight"]),
+      },
+      {
+        source: "global",
+        projection: withLearnings(
+          ["l1", "Personal insight"],
+          ["l2", "Another insight"],
+        ),
+      },
+    ]);
+
+    expect(
+      merged.learnings.map(({ id, insight, store }) => ({
+        id,
+        insight,
+        store,
+      })),
+    ).toEqual([
+      { id: "l1", insight: "Team insight", store: "project" },
+      { id: "l2", insight: "Another insight", store: "global" },
+    ]);
+  });
+
+  it("returns a single store's projection unlabelled", () => {
+    const projection = withLearnings(["l1", "Only insight"]);
+    expect(mergeProjections([{ source: "global", projection }])).toBe(
+      projection,
+    );
+  });
+});
+
+describe("readLayeredProjection", () => {
+  it("merges both stores and keeps the project cache out of the repo", async () => {
+    const layers = storeLayers(root, env);
+    await appendToLayer(layers[0], [learning("l1", "Team insight")]);
+    await appendToLayer(layers[1], [learning("l2", "Personal insight")]);
+
+    const layered = await readLayeredProjection(layers);
+    expect(layered?.layers.map(({ layer }) => layer.source)).toEqual([
+      "project",
+      "global",
+    ]);
+    expect(
+      layered?.projection.learnings.map(({ id, store }) => [id, store]),
+    ).toEqual([
+      ["l1", "project"],
+      ["l2", "global"],
+    ]);
+    expect(await fs.readdir(path.join(root, ".response-boxes"))).toEqual([
+      "boxes.jsonl",
+    ]);
+    await expect(fs.stat(layers[0].cacheFile)).resolves.toBeTruthy();
+
+    const context = formatInjectedContext(layered!.projection, {
+      repo: "",
+      now: new Date("2026-01-21T10:00:00Z"),
+      config: readRankingConfig({}),
+    });
+    expect(context).toContain("Team insight [project]");
+    expect(context).toContain("Personal insight [global]");
+
+    // Nothing changed: the previous merge is reused
+    const again = await readLayeredProjection(layers, layered);
+    expect(again?.projection).toBe(layered?.projection);
+  });
+
+  it("finds the store a proposal came from", async () => {
+    const layers = storeLayers(root, env);
+    await appendToLayer(layers[0], [
+      {
+        event: "LearningProposed",
+        id: "p1",
+        ts: "2026-01-20T10:00:00Z",
+        learning_id: "l9",
+        insight: "Team proposal",
+        confidence: 0.7,
+        evidence: [],
+        source: "synthesizer",
+        schema_version: 1,
+      },
+    ]);
+    await appendToLayer(layers[1], [learning("l2", "Personal insight")]);
+
+    const layered = (await readLayeredProjection(layers))!;
+    const [proposal] = layered.projection.proposals;
+    expect(proposal.store).toBe("project");
+    expect(proposalLayer(layered, proposal)).toBe(layers[0]);
+    expect(layeredSchemaStatus(layered)).toEqual({
+      unsupportedCount: 0,
+      newestSchemaVersion: 1,
+    });
+  });
+
+  it("carries nothing over compaction from a newer-schema layer", async () => {
+    const layers = storeLayers(root, env);
+    await appendToLayer(layers[0], [
+      { ...learning("l1", "From a newer plugin"), schema_version: 99 },
+    ]);
+    await appendToLayer(layers[1], [
+      {
+        event: "BoxCreated",
+        id: "b1",
+        ts: "2026-01-20T10:00:00Z",
+        box_type: "Assumption",
+        fields: { what: "Postgres 16", basis: "docker-compose.yml" },
+        context: { session_id: "s1" },
+        initial_score: 80,
+        schema_version: 1,
+      },
+    ]);
+
+    const context = layeredCompactionContextFor(
+      (await readLayeredProjection(layers))!,
+      {
+        sessionId: "s1",
+        repo: "",
+        now: new Date("2026-01-21T10:00:00Z"),
+        config: readRankingConfig({}),
+      },
+    );
+    expect(context).toContain("update required");
+    expect(context).not.toContain("Postgres 16");
+  });
+
+  it("merges the readable stores when one cannot be read", async () => {
+    const layers = storeLayers(root, env);
+    await appendToLayer(layers[1], [learning("l2", "Personal insight")]);
+    // The shared store is read without a key, so a sealed line cannot open
+    await fs.mkdir(path.dirname(layers[0].storeFile), { recursive: true });
+    await fs.writeFile(
+      layers[0].storeFile,
+      `${JSON.stringify(learning("l1", "Team insight"))}\n${JSON.stringify({
+        event: "Encrypted",
+        alg: "aes-256-gcm",
+        key_id: "k1",
+        iv: "",
+        tag: "",
+        data: "",
+      })}\n`,
+    );
+
+    const layered = (await readLayeredProjection(layers))!;
+    expect(layered.unreadable.map(({ layer }) => layer)).toEqual([layers[0]]);
+    expect(layered.unreadable[0].error).toBeInstanceOf(StoreDecryptionError);
+    expect(layered.projection.learnings.map(({ id }) => id)).toEqual(["l2"]);
+
+    await fs.rm(layers[1].storeFile);
+    await expect(readLayeredProjection(layers)).rejects.toThrow(
+      StoreDecryptionError,
+    );
+  });
+
+  it("returns null when neither store exists", async () => {
+    expect(await readLayeredProjection(storeLayers(root, env))).toBeNull();
+  });
+});
+
+describe("write target", () => {
+  it("defaults to the global store and follows the policy and env", () => {
+    const layers = storeLayers(root, env);
+    const policy = { ...DEFAULT_REPO_POLICY, writeTarget: "project" as const };
+
+    expect(resolveWriteTarget(DEFAULT_REPO_POLICY, {})).toBe("global");
+    expect(resolveWriteTarget(policy, {})).toBe("project");
+    expect(
+      resolveWriteTarget(policy, { RESPONSE_BOXES_WRITE_TARGET: "global" }),
+    ).toBe("global");
+    expect(writeLayer(layers, "project").source).toBe("project");
+    expect(writeLayer(storeLayers(null, env), "project").source).toBe("global");
+  });
+
+  it("writes the shared project store in plaintext", async () => {
+    const [project] = storeLayers(root, env);
+    await appendToLayer(project, [learning("l1", "Team insight")]);
+
+    const raw = await fs.readFile(project.storeFile, { encoding: "utf8" });
+    expect(JSON.parse(raw.trim())).toMatchObject({ id: "l1" });
+  });
+});
@@ -0,0 +1,201 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { spawn, spawnSync } from "child_process";
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import {
+  StoreLockTimeoutError,
+  appendEvents,
+  isLockStale,
+  readStoreLockConfig,
+  storeLockPath,
+} from "@response-boxes/core";
+
+const SESSION_PROCESSOR = path.resolve(
+  __dirname,
+  "../../agents/claude-code/hooks/session-processor.sh",
+);
+
+const FAST_CONFIG = { staleSeconds: 30, timeoutSeconds: 2, retryMs: 5 };
+
+let dir: string;
+let storeFile: string;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "rb-store-"));
+  storeFile = path.join(dir, "analytics", "boxes.jsonl");
+});
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+// PID of a process that has already exited
+function deadPid(): number {
+  const child = spawnSync(process.execPath, ["-e", ""]);
+  return child.pid ?? 999999;
+}
+
+async function readLines(file: string): Promise<string[]> {
+  const raw = await fs.readFile(file, { encoding: "utf8" });
+  expect(raw.endsWith("\n")).toBe(true);
+  return raw.slice(0, -1).split("\n");
+}
+
+async function runSessionProcessor(
+  sessionId: string,
+  content: string,
+): Promise<number | null> {
+  const transcript = path.join(dir, `${sessionId}.jsonl`);
+  await fs.writeFile(
+    transcript,
+    `${JSON.stringify({ type: "assistant", content })}\n`,
+  );
+  const input = JSON.stringify({
+    session_id: sessionId,
+    transcript_path: transcript,
+  });
+
+  return new Promise((resolve, reject) => {
+    const child = spawn("bash", [SESSION_PROCESSOR], {
+      env: { ...process.env, HOME: dir, RESPONSE_BOXES_FILE: storeFile },
+      stdio: ["pipe", "ignore", "ignore"],
+    });
+    child.on("error", reject);
+    child.on("close", resolve);
+    child.stdin.end(input);
+  });
+}
+
+describe("readStoreLockConfig", () => {
+  it("uses defaults and honours RESPONSE_BOXES_LOCK_*", () => {
+    expect(readStoreLockConfig({})).toEqual({
+      staleSeconds: 30,
+      timeoutSeconds: 10,
+      retryMs: 50,
+    });
+    expect(
+      readStoreLockConfig({
+        RESPONSE_BOXES_LOCK_STALE_SECONDS: "5",
+        RESPONSE_BOXES_LOCK_TIMEOUT_SECONDS: "nope",
+      }),
+    ).toMatchObject({ staleSeconds: 5, timeoutSeconds: 10 });
+  });
+});
+
+describe("isLockStale", () => {
+  it("treats a dead local owner as stale and a live one as held", async () => {
+    await fs.mkdir(dir, { recursive: true });
+    const lock = path.join(dir, "boxes.jsonl.lock");
+    const now = Math.floor(Date.now() / 1000);
+
+    await fs.writeFile(lock, `${deadPid()} ${os.hostname()} ${now}\n`);
+    expect(await isLockStale(lock, FAST_CONFIG)).toBe(true);
+
+    await fs.writeFile(lock, `${process.pid} ${os.hostname()} ${now}\n`);
+    expect(await isLockStale(lock, FAST_CONFIG)).toBe(false);
+  });
+
+  it("expires locks older than the stale threshold", async () => {
+    const lock = path.join(dir, "boxes.jsonl.lock");
+    const old = Math.floor(Date.now() / 1000) - 60;
+
+    await fs.writeFile(lock, `${process.pid} other-host ${old}\n`);
+    expect(await isLockStale(lock, FAST_CONFIG)).toBe(true);
+  });
+
+  it("is false when there is no lock", async () => {
+    expect(await isLockStale(path.join(dir, "missing"), FAST_CONFIG)).toBe(
+      false,
+    );
+  });
+});
+
+describe("appendEvents", () => {
+  it("appends one line per event and cleans up lock and write-ahead files", async () => {
+    await appendEvents(storeFile, [{ id: "a" }, { id: "b" }], FAST_CONFIG);
+
+    expect(await readLines(storeFile)).toEqual(['{"id":"a"}', '{"id":"b"}']);
+    expect(await fs.readdir(path.dirname(storeFile))).toEqual(["boxes.jsonl"]);
+  });
+
+  it("times out while a live writer holds the lock", async () => {
+    await fs.mkdir(path.dirname(storeFile), { recursive: true });
+    const now = Math.floor(Date.now() / 1000);
+    await fs.writeFile(
+      storeLockPath(storeFile),
+      `${process.pid} ${os.hostname()} ${now}\n`,
+    );
+
+    await expect(
+      appendEvents(storeFile, [{ id: "a" }], {
+        ...FAST_CONFIG,
+        timeoutSeconds: 0.1,
+      }),
+    ).rejects.toBeInstanceOf(StoreLockTimeoutError);
+    expect(await fs.readdir(path.dirname(storeFile))).toEqual([
+      "boxes.jsonl.lock",
+    ]);
+  });
+
+  it("recovers a stale lock and rolls its torn append forward", async () => {
+    await fs.mkdir(path.dirname(storeFile), { recursive: true });
+    const before = '{"id":"before"}\n';
+    const crashed = '{"id":"crashed-1"}\n{"id":"crashed-2"}\n';
+
+    // A writer died halfway through appending its write-ahead file
+    await fs.writeFile(storeFile, before + crashed.slice(0, 10));
+    await fs.writeFile(`${storeFile}.wal.${before.length}`, crashed);
+    await fs.writeFile(
+      storeLockPath(storeFile),
+      `${deadPid()} ${os.hostname()} ${Math.floor(Date.now() / 1000)}\n`,
+    );
+
+    await appendEvents(storeFile, [{ id: "after" }], FAST_CONFIG);
+
+    expect(await readLines(storeFile)).toEqual([
+      '{"id":"before"}',
+      '{"id":"crashed-1"}',
+      '{"id":"crashed-2"}',
+      '{"id":"after"}',
+    ]);
+    expect(await fs.readdir(path.dirname(storeFile))).toEqual(["boxes.jsonl"]);
+  });
+
+  it("never tears lines under many concurrent TypeScript and bash writers", async () => {
+    const writers = 24;
+    const perBatch = 40;
+    const collectors = 8;
+
+    // ~4 KB per event so batches span many write() calls
+    const padding = "x".repeat(4096);
+    const batches = Array.from({ length: writers }, (_, writer) =>
+      Array.from({ length: perBatch }, (_, index) => ({
+        event: "BoxCreated",
+        id: `ts_${writer}_${index}`,
+        fields: { padding },
+      })),
+    );
+
+    const rule = "─".repeat(48);
+    const response = `⚖️ Choice ${rule}\n**Selected:** ${padding}\n${rule}`;
+
+    const results = await Promise.all([
+      ...batches.map((batch) =>
+        appendEvents(storeFile, batch, { ...FAST_CONFIG, timeoutSeconds: 60 }),
+      ),
+      ...Array.from({ length: collectors }, (_, index) =>
+        runSessionProcessor(`session_${index}`, response),
+      ),
+    ]);
+
+    expect(results.slice(writers)).toEqual(Array(collectors).fill(0));
+
+    const lines = await readLines(storeFile);
+    expect(lines).toHaveLength(writers * perBatch + collectors);
+    const ids = lines.map((line) => (JSON.parse(line) as { id: string }).id);
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(await fs.readdir(path.dirname(storeFile))).toEqual(["boxes.jsonl"]);
+  }, 60000);
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect } from "vitest";
+
+import {
+  parseEvents,
+  projectEvents,
+  synthesisConfidence,
+  synthesizeLearnings,
+} from "@response-boxes/core";
+
+function project(events: object[]) {
+  return projectEvents(
+    parseEvents(events.map((e) => JSON.stringify(e)).join("\n")),
+  );
+}
+
+function choice(id: string, session: string, selected: string) {
+  return {
+    event: "BoxCreated",
+    id,
+    ts: `2026-01-2${id.slice(-1)}T10:00:00Z`,
+    box_type: "Choice",
+    fields: { selected, alternatives: "Yup", reasoning: "types" },
+    context: { session_id: session },
+  };
+}
+
+function assumption(id: string, repo: string, what: string) {
+  return {
+    event: "BoxCreated",
+    id,
+    ts: `2026-01-2${id.slice(-1)}T10:00:00Z`,
+    box_type: "Assumption",
+    fields: { what, basis: "config" },
+    context: { session_id: id, git_remote: repo },
+  };
+}
+
+describe("synthesisConfidence", () => {
+  it("grows with support and stays below 0.9", () => {
+    expect(synthesisConfidence(2)).toBe(0.5);
+    expect(synthesisConfidence(4)).toBe(0.67);
+    expect(synthesisConfidence(8)).toBe(0.8);
+    expect(synthesisConfidence(100)).toBe(0.9);
+  });
+});
+
+describe("synthesizeLearnings", () => {
+  it("clusters the same choice across sessions", () => {
+    const events = synthesizeLearnings(
+      project([
+        choice("b1", "s1", "Zod"),
+        choice("b2", "s2", "zod."),
+        choice("b3", "s3", "Valibot"),
+      ]),
+    );
+
+    expect(events.map((e) => e.event)).toEqual([
+      "LearningCreated",
+      "EvidenceLinked",
+      "EvidenceLinked",
+    ]);
+    expect(events[0]).toMatchObject({
+      insight: "Repeatedly chooses Zod",
+      confidence: 0.5,
+      scope: "global",
+      tags: ["choice", "selected", "synthesized"],
+      level: 0,
+      ts: "2026-01-22T10:00:00Z",
+    });
+    expect(events.slice(1)).toMatchObject([
+      { learning_id: events[0].id, box_id: "b1", relationship: "supports" },
+      { learning_id: events[0].id, box_id: "b2", relationship: "supports" },
+    ]);
+  });
+
+  it("needs distinct sessions for cross-session patterns", () => {
+    expect(
+      synthesizeLearnings(
+        project([choice("b1", "s1", "Zod"), choice("b2", "s1", "Zod")]),
+      ),
+    ).toEqual([]);
+  });
+
+  it("clusters repeated assumptions within one repo only", () => {
+    const events = synthesizeLearnings(
+      project([
+        assumption("b1", "git@github.com:user/api.git", "PostgreSQL"),
+        assumption("b2", "https://github.com/user/api", "PostgreSQL"),
+        assumption("b3", "github.com/user/web", "PostgreSQL"),
+      ]),
+    );
+
+    expect(events[0]).toMatchObject({
+      event: "LearningCreated",
+      insight: "Repeatedly assumes PostgreSQL in this repo",
+      scope: "repo",
+    });
+    expect(events.slice(1).map((e) => "box_id" in e && e.box_id)).toEqual([
+      "b1",
+      "b2",
+    ]);
+  });
+
+  it("is reproducible and only adds what changed", () => {
+    const boxes = [choice("b1", "s1", "Zod"), choice("b2", "s2", "Zod")];
+    const first = synthesizeLearnings(project(boxes));
+    expect(synthesizeLearnings(project(boxes))).toEqual(first);
+
+    const later = [...boxes, ...first];
+    expect(synthesizeLearnings(project(later))).toEqual([]);
+
+    const grown = synthesizeLearnings(
+      project([...later, choice("b3", "s3", "Zod"), choice("b4", "s4", "Zod")]),
+    );
+    expect(grown).toMatchObject([
+      {
+        event: "LearningUpdated",
+        learning_id: first[0].id,
+        updates: { confidence: 0.67 },
+      },
+      { event: "EvidenceLinked", box_id: "b3" },
+      { event: "EvidenceLinked", box_id: "b4" },
+    ]);
+  });
+
+  it("skips malformed boxes and honours minSupport", () => {
+    const malformed = {
+      ...choice("b3", "s3", "Zod"),
+      fields: { selected: "Zod" },
+    };
+    const projection = project([
+      choice("b1", "s1", "Zod"),
+      choice("b2", "s2", "Zod"),
+      malformed,
+    ]);
+
+    expect(
+      synthesizeLearnings(projection).filter(
+        (e) => e.event === "EvidenceLinked",
+      ),
+    ).toHaveLength(2);
+    expect(synthesizeLearnings(projection, { minSupport: 3 })).toEqual([]);
+  });
+});
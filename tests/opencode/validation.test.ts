@@ -0,0 +1,95 @@
+import { describe, it, expect } from "vitest";
+
+import {
+  type BoxCreatedEvent,
+  DEFAULT_BOX_TYPES,
+  boxMalformedEvent,
+  mergeBoxTypes,
+  parseEventLine,
+  validateBox,
+} from "@response-boxes/core";
+
+function created(overrides: Partial<BoxCreatedEvent>): BoxCreatedEvent {
+  return {
+    event: "BoxCreated",
+    id: "b1",
+    ts: "2026-01-20T10:00:00Z",
+    box_type: "Choice",
+    fields: {},
+    context: { agent: "OpenCode" },
+    initial_score: 70,
+    schema_version: 1,
+    ...overrides,
+  };
+}
+
+describe("validateBox", () => {
+  it("passes boxes with every required field", () => {
+    expect(
+      validateBox("Choice", {
+        selected: "Zod",
+        alternatives: ["Yup", "io-ts"],
+        reasoning: "Shared schemas",
+      }),
+    ).toEqual({ missing_fields: [], completeness: 1 });
+  });
+
+  it("lists required fields that are absent or blank", () => {
+    expect(
+      validateBox("Choice", { alternatives: "Yup", reasoning: "  \n" }),
+    ).toEqual({
+      missing_fields: ["selected", "reasoning"],
+      completeness: 0.33,
+    });
+    expect(
+      validateBox("Confidence", { claim: "Fast", level: [], basis: "Bench" }),
+    ).toEqual({ missing_fields: ["level"], completeness: 0.67 });
+  });
+
+  it("accepts any fields for unregistered types", () => {
+    expect(validateBox("Retro", {})).toEqual({
+      missing_fields: [],
+      completeness: 1,
+    });
+  });
+
+  it("uses the required fields of custom types", () => {
+    const registry = mergeBoxTypes(DEFAULT_BOX_TYPES, {
+      types: [
+        {
+          name: "Security",
+          emoji: "🔐",
+          required_fields: ["Threat", "Mitigation"],
+        },
+      ],
+    });
+    expect(validateBox("security", { threat: "XSS" }, registry)).toEqual({
+      missing_fields: ["mitigation"],
+      completeness: 0.5,
+    });
+  });
+});
+
+describe("boxMalformedEvent", () => {
+  it("describes a box captured with missing fields", () => {
+    const event = boxMalformedEvent(
+      created({ completeness: 0.67, missing_fields: ["selected"] }),
+    );
+    expect(event).toEqual({
+      event: "BoxMalformed",
+      id: "b1_malformed",
+      ts: "2026-01-20T10:00:00Z",
+      box_id: "b1",
+      box_type: "Choice",
+      missing_fields: ["selected"],
+      completeness: 0.67,
+      context: { agent: "OpenCode" },
+      schema_version: 1,
+    });
+    expect(parseEventLine(JSON.stringify(event))).toEqual(event);
+  });
+
+  it("returns null for well-formed boxes", () => {
+    expect(boxMalformedEvent(created({ completeness: 1 }))).toBeNull();
+  });
+});
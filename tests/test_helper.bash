@@ -27,6 +27,9 @@ setup_test_env() {
     # Override HOME for scripts
     export HOME="$TEST_HOME"
     export RESPONSE_BOXES_FILE="${TEST_RESPONSE_BOXES_DIR}/analytics/boxes.jsonl"
+
+    # The installer places the built-in box types here
+    export RESPONSE_BOXES_BOX_TYPES_DEFAULT="${PROJECT_ROOT}/packages/core/src/box-types.json"
 }
 
 # Cleanup test environment